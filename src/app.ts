@@ -2,19 +2,31 @@ import 'reflect-metadata'; // Polyfill required by Typegoose and TypeGraphQL
 import Express  from 'express';
 import Mongoose from 'mongoose';
 import Morgan   from 'morgan';
+import * as Http      from 'http';
 import * as HttpCodes from 'http-status-codes';
 import * as Config    from './config';
 import { apiRouter } from './routes/api';
 import { shutdown, Log } from './modules/debug';
 import { makeApolloServer } from './graphql/apollo-server';
+import { seedPersistedQueries } from './graphql/persisted-queries';
+import { rateLimit } from './routes/rate-limit';
+import { mediaRouter } from './routes/media';
+import { makeMigrator } from './domains/migrations/store';
+import { schedulePurge } from './modules/mongoose-utils/purge-scheduler';
+import { User, UserTryCrud } from './domains/users/model';
+import { erasePersonalData } from './modules/personal-data';
 
 async function bootstrap() {
+    Config.JWT.Keys.tryGetSigningKey(); // fail fast, run `npm run jwt-keys -- rotate` if it throws
     // change to Promise.all() with MongoDB connection setup in production.
     const apolloServer = await makeApolloServer();
     const app = Express()
+        .set('trust proxy', Config.TrustProxy)
         .use(Morgan('dev'))
         .use(Express.static(Config.Frontend.DistDir))
-        .use(Express.static(Config.Frontend.AssetsDir));
+        .use(Express.static(Config.Frontend.AssetsDir))
+        .use(Config.Media.UrlPath, mediaRouter)
+        .use('/graphql', rateLimit(Config.RateLimits.GraphQL));
 
     apolloServer.applyMiddleware({ app, path: '/graphql'});
 
@@ -33,7 +45,16 @@ async function bootstrap() {
         useCreateIndex:   true,
         connectTimeoutMS: 30000
     });
-    app.listen(
+    if (Config.Migrations.RunOnStartup) {
+        await makeMigrator().up();
+    }
+    await User.tryEnsureLegacyPasswordsVerifiable(); // fail fast, set `PASSWORD_SALT` if it throws
+    await seedPersistedQueries();
+    // purged users' profiles, matches, photos etc. are removed along with them
+    schedulePurge([{ crud: UserTryCrud, erase: erasePersonalData }], Config.SoftDelete);
+    const httpServer = Http.createServer(app);
+    apolloServer.installSubscriptionHandlers(httpServer);
+    httpServer.listen(
         Config.Port,
         () => Log.info(`🚀  Server is listening on port ${Config.Port}`)
     );
@@ -0,0 +1,54 @@
+import * as Config from 'config';
+import { JwtKeyStore     } from 'modules/jwt-keys';
+import { Log, shutdown   } from 'modules/debug';
+
+/**
+ * Manages JWT signing keys in `Config.JWT.KeysDir`.
+ *
+ * Usage: `npm run jwt-keys -- <command> [--window=<seconds>]`
+ *
+ * Commands:
+ *  list     - prints all keys and their status.
+ *  generate - generates a new key, which becomes the signing key.
+ *  retire   - removes private keys of all keys but the newest one and removes
+ *             public keys of the keys retired more than `window` seconds ago.
+ *  rotate   - generate + retire.
+ *
+ * Server instances load keys at startup, so they must be restarted after
+ * the keys were changed, `window` must be greater than the time it takes.
+ */
+const [command, ...options] = process.argv.slice(2);
+const windowOption = options.find(option => option.startsWith('--window='));
+const windowSeconds = windowOption == null
+    ? Config.JWT.RetiredKeysLifetime
+    : Number(windowOption.slice('--window='.length));
+
+const commands: Record<string, () => void> = {
+    list() {
+        const keys = JwtKeyStore.fromDir(Config.JWT.KeysDir).all;
+        Log.info(
+            keys.map(({ kid, privateKey }) => `${kid} ${privateKey == null ? 'retired' : 'active'}`),
+            `${keys.length} keys in ${Config.JWT.KeysDir}`
+        );
+    },
+    generate() {
+        const { kid } = JwtKeyStore.generateToDir(Config.JWT.KeysDir);
+        Log.info(kid, 'generated new signing key');
+    },
+    retire() {
+        const { retired, removed } = JwtKeyStore.retireInDir(Config.JWT.KeysDir, windowSeconds);
+        Log.info({ retired, removed }, 'retired old keys');
+    },
+    rotate() {
+        commands.generate();
+        commands.retire();
+    }
+};
+
+if (!(command in commands) || Number.isNaN(windowSeconds)) {
+    shutdown(
+        `usage: jwt-keys <${Object.keys(commands).join('|')}> [--window=<seconds>]`,
+        'invalid arguments'
+    );
+}
+commands[command]();
@@ -0,0 +1,76 @@
+import 'reflect-metadata'; // Polyfill required by Typegoose
+import * as Fs     from 'fs';
+import * as Path   from 'path';
+import * as Config from 'config';
+import Mongoose    from 'mongoose';
+import { makeMigrationFileName, MigrationTemplate } from 'modules/migrations';
+import { makeMigrator  } from 'domains/migrations/store';
+import { Log, shutdown } from 'modules/debug';
+
+/**
+ * Manages database migrations from `Config.Migrations.Dir`.
+ *
+ * Usage: `npm run migrate -- <command> [--count=<n>]`
+ *
+ * Commands:
+ *  up             - applies `count` (all by default) pending migrations.
+ *  down           - reverts `count` (1 by default) last applied migrations.
+ *  status         - prints all migrations and whether they were applied.
+ *  create <title> - creates a new migration in `Config.Migrations.SourceDir`,
+ *                   which is compiled by `npm run build`.
+ *
+ * Server instances with `MIGRATE_ON_STARTUP=true` apply pending migrations
+ * themselves, the lock prevents applying the same migration twice.
+ */
+const [command, ...args] = process.argv.slice(2);
+const countOption = args.find(arg => arg.startsWith('--count='));
+const count = countOption == null ? undefined : Number(countOption.slice('--count='.length));
+const [title] = args.filter(arg => !arg.startsWith('--'));
+
+const commands: Record<string, () => Promise<void>> = {
+    async up() {
+        const applied = await withConnection(() => makeMigrator().up(count));
+        Log.info(applied, `${applied.length} migrations were applied`);
+    },
+    async down() {
+        const reverted = await withConnection(() => makeMigrator().down(count));
+        Log.info(reverted, `${reverted.length} migrations were reverted`);
+    },
+    async status() {
+        const statuses = await withConnection(() => makeMigrator().status());
+        Log.info(
+            statuses.map(({ name, state, appliedAt }) =>
+                `${name} ${state}${appliedAt == null ? '' : ` at ${appliedAt.toISOString()}`}`
+            ),
+            `${statuses.length} migrations`
+        );
+    },
+    async create() {
+        const path = Path.join(Config.Migrations.SourceDir, makeMigrationFileName(title));
+        Fs.mkdirSync(Config.Migrations.SourceDir, { recursive: true });
+        Fs.writeFileSync(path, MigrationTemplate, { flag: 'wx' });
+        Log.info(path, 'created migration');
+    }
+};
+
+async function withConnection<TResult>(action: () => Promise<TResult>) {
+    await Mongoose.connect(Config.DatabaseUrl, {
+        useNewUrlParser:  true,
+        useCreateIndex:   true,
+        connectTimeoutMS: 30000
+    });
+    try {
+        return await action();
+    } finally {
+        await Mongoose.disconnect();
+    }
+}
+
+const isValidCount = count == null || (Number.isInteger(count) && count > 0);
+if (!(command in commands) || !isValidCount || (command === 'create' && title == null)) {
+    shutdown(
+        `usage: migrate <${Object.keys(commands).join('|')}> [--count=<n>] [<title>]`,
+        'invalid arguments'
+    );
+}
+void commands[command]().catch(err => shutdown(err, `migrate ${command} failed`));
@@ -0,0 +1,37 @@
+import * as Fs     from 'fs';
+import * as Config from 'config';
+import { makeManifest } from 'modules/persisted-queries';
+import { Log, shutdown } from 'modules/debug';
+
+/**
+ * Hashes all operations of the frontend documents into the persisted queries
+ * manifest, which is the allow-list of `Config.GraphQL.PersistedQueriesOnly` mode.
+ *
+ * Usage: `npm run build-persisted-queries -- [--documents=<path>] [--out=<path>]`
+ *
+ * Paths default to `Config.PersistedQueries.DocumentsPath` and `ManifestPath`,
+ * server instances load the manifest at startup, so they must be restarted
+ * after it was changed.
+ */
+const options = process.argv.slice(2);
+
+function readOption(name: string, defaultValue: string) {
+    const option = options.find(candidate => candidate.startsWith(`--${name}=`));
+    return option == null ? defaultValue : option.slice(`--${name}=`.length);
+}
+
+const documentsPath = readOption('documents', Config.PersistedQueries.DocumentsPath);
+const manifestPath  = readOption('out',       Config.PersistedQueries.ManifestPath);
+
+if (!Fs.existsSync(documentsPath)) {
+    shutdown(
+        'usage: persisted-queries [--documents=<path>] [--out=<path>]',
+        `documents file '${documentsPath}' doesn't exist`
+    );
+}
+const manifest = makeManifest(Fs.readFileSync(documentsPath, 'utf8'));
+Fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 4));
+Log.info(
+    Object.values(manifest).map(({ operationName }) => operationName),
+    `${Object.keys(manifest).length} operations were written to ${manifestPath}`
+);
@@ -1,10 +0,0 @@
-declare module 'generate-rsa-keypair' {
-    namespace Module {
-        interface KeyPair {
-            public: string;
-            private: string;
-        }
-    }
-    function Module(): Module.KeyPair;
-    export = Module;
-}
\ No newline at end of file
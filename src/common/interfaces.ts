@@ -14,8 +14,10 @@ export type ClassPrototype<
 export namespace JWT {
   export interface Payload {
     sub: string; // user id
+    sid: string; // session id
   }
   export const PayloadTD: Vts.TypeDescrObject<Payload> = {
-    sub: Vts.isBsonObjectIdString
+    sub: Vts.isBsonObjectIdString,
+    sid: Vts.isBsonObjectIdString
   };
 }
@@ -1,13 +1,21 @@
 import * as Utils  from './modules/utils';
 import * as Dotenv from 'dotenv';
 import * as Path   from 'path';
-const generateRsaKeyPair = require('generate-rsa-keypair');
+import { JwtKeyStore } from './modules/jwt-keys';
+import { ThrottlePolicy } from './modules/login-throttler';
+import { RateLimitRule } from './modules/rate-limiter';
 
 Dotenv.load();
 
-export const PasswordSalt = Utils.tryReadEnv('PASSWORD_SALT');
+// only used to verify legacy password hashes, which get rehashed on login
+export const PasswordSalt = Utils.tryReadEnv('PASSWORD_SALT', '');
 export const Port         = Utils.tryReadEnv('PORT');
 export const DatabaseUrl  = Utils.tryReadEnv('DATABASE_URL');
+// internal error details are exposed to clients only in development mode
+export const IsDevelopment = Utils.tryReadEnv('NODE_ENV', '') === 'development';
+// Express 'trust proxy' setting, client IPs are taken from `X-Forwarded-For`
+// of the trusted proxies, they are used by rate limiting and login throttling
+export const TrustProxy = parseTrustProxy(Utils.tryReadEnv('TRUST_PROXY', 'false'));
 
 export const Frontend = {
     DistDir:       pathFromRoot('dist'),
@@ -15,22 +23,191 @@ export const Frontend = {
     IndexHtmlPath: pathFromRoot('dist/index.html')
 };
 
+export const Media = {
+    // driver of the storage for uploaded files, only 'local' one is available for now
+    Storage: Utils.tryReadEnv('MEDIA_STORAGE', 'local'),
+    // directory of the 'local' storage, it is served at `UrlPath` with access checks
+    Dir:     Utils.tryReadEnv('MEDIA_DIR', pathFromRoot('uploads')),
+    UrlPath: '/media'
+};
+
+export const Photos = {
+    MaxCount:     9,
+    // expressed in bytes
+    MaxFileSize:  10 * 1024 * 1024,
+    ContentTypes: ['image/jpeg', 'image/png', 'image/webp'],
+    // expressed in pixels, limits both width and height
+    MinDimension: 200,
+    MaxDimension: 10000
+};
+
+const JwtKeysDir = Utils.tryReadEnv('JWT_KEYS_DIR', pathFromRoot('keys'));
 
 export const JWT = {
     // expressed in seconds or a string describing a time span zeit/ms. Eg: 60, "2 days", "10h", "7d"
-    ExpirationTime:    '7d',
-    EncodingAlgorithm: 'RS256',
-    KeyPair:            generateRsaKeyPair(),
+    ExpirationTime:             '15m',
+    // expressed in seconds, refresh token expiration is prolonged on each rotation
+    RefreshTokenExpirationTime: 30 * 24 * 60 * 60,
+    EncodingAlgorithm:          'RS256',
+    // directory with `<kid>.pem` private and `<kid>.pub.pem` public keys, use
+    // `npm run jwt-keys -- rotate` to generate the new key and retire old ones
+    KeysDir:                    JwtKeysDir,
+    // expressed in seconds, time to keep public keys of retired keys in order
+    // to verify tokens issued before rotation
+    RetiredKeysLifetime:        24 * 60 * 60,
+    Keys:                       loadJwtKeys(JwtKeysDir)
+};
+
+// all durations are expressed in seconds
+export const LoginThrottling = {
+    // 'memory' or 'mongo', the latter is needed when running multiple server instances
+    Store: Utils.tryReadEnv('LOGIN_THROTTLING_STORE', 'memory'),
+    // account lockout is applied only per username, as many clients may share one IP
+    PerUsername: {
+        freeAttempts:     3,
+        baseDelay:        1,
+        maxDelay:         60,
+        lockoutThreshold: 10,
+        lockoutDuration:  30 * 60,
+        resetAfter:       24 * 60 * 60
+    } as ThrottlePolicy,
+    PerIp: {
+        freeAttempts: 20,
+        baseDelay:    1,
+        maxDelay:     5 * 60,
+        resetAfter:   60 * 60
+    } as ThrottlePolicy
+};
+
+// limits of individual routes and fields are declared via `rateLimit()`
+// (see routes/rate-limit) and `RateLimit()` (see graphql/rate-limit)
+export const RateLimits = {
+    // 'memory' or 'mongo', the latter is needed when running multiple server instances
+    Store:   Utils.tryReadEnv('RATE_LIMITS_STORE', 'memory'),
+    // applied to all requests to `/graphql` endpoint, window is expressed in seconds
+    GraphQL: { algorithm: 'token-bucket', limit: 300, window: 60, by: 'ip' } as RateLimitRule,
+    // applied to all requests to `apiRouter`
+    Api:     { algorithm: 'sliding-window', limit: 120, window: 60, by: 'ip' } as RateLimitRule
+};
+
+export const PubSub = {
+    // name of the adapter registered via `registerPubSubAdapter()` (see graphql/pub-sub),
+    // the default 'memory' one doesn't deliver events between server instances
+    Adapter: Utils.tryReadEnv('PUBSUB_ADAPTER', 'memory')
+};
+
+export const GraphQL = {
+    // may be turned off in production in order not to reveal the schema
+    Introspection:        Utils.tryReadEnv('GRAPHQL_INTROSPECTION', 'true') === 'true',
+    Playground:           Utils.tryReadEnv('GRAPHQL_PLAYGROUND', 'true') === 'true',
+    // rejects operations, that are not listed in `PersistedQueries.ManifestPath`
+    PersistedQueriesOnly: Utils.tryReadEnv('GRAPHQL_PERSISTED_QUERIES_ONLY', 'false') === 'true',
+    // maximum number of nested field selections, introspection fields are not counted
+    MaxDepth:             Number(Utils.tryReadEnv('GRAPHQL_MAX_DEPTH', '10')),
+    // maximum total cost of an operation (see `Cost()` in graphql/query-limits)
+    MaxCost:              Number(Utils.tryReadEnv('GRAPHQL_MAX_COST', '5000')),
+    // cost of the fields without declared one
+    DefaultFieldCost:     1
+};
+
+export const PersistedQueries = {
+    // 'memory' or 'mongo', the latter is needed when running multiple server instances
+    Store:             Utils.tryReadEnv('PERSISTED_QUERIES_STORE', 'memory'),
+    // operations of the frontend, which are hashed by `npm run build-persisted-queries`
+    DocumentsPath:     pathFromRoot('src/frontend/graphql/documents.graphql'),
+    ManifestPath:      Utils.tryReadEnv(
+        'PERSISTED_QUERIES_MANIFEST', pathFromRoot('src/common/persisted-queries.json')
+    ),
+    // queries registered by clients are cached apart from the manifest ones,
+    // maximum total length of their texts
+    RegisteredMaxSize: 10 * 1024 * 1024,
+    // expressed in seconds
+    RegisteredTtl:     24 * 60 * 60
+};
+
+export const Audit = {
+    // expressed in seconds, applies to events recorded after the change
+    RetentionPeriod: Number(Utils.tryReadEnv('AUDIT_RETENTION_DAYS', '365')) * 24 * 60 * 60,
+    // values of these fields are never revealed in recorded changes
+    RedactedFields:  ['password']
+};
+
+export const DataExport = {
+    // served by `apiRouter`
+    UrlPath:            '/api/v1/data-export',
+    // expressed in seconds
+    LinkExpirationTime: 15 * 60
+};
+
+// all durations are expressed in seconds
+export const SoftDelete = {
+    // soft-deleted documents are removed permanently after this period
+    GracePeriod:   Number(Utils.tryReadEnv('SOFT_DELETE_GRACE_DAYS', '30')) * 24 * 60 * 60,
+    PurgeInterval: 60 * 60
 };
 
+export const Migrations = {
+    // compiled migrations, which are applied by `npm run migrate -- up`
+    Dir:          Path.join(__dirname, 'migrations'),
+    // where `npm run migrate -- create <title>` puts new migrations
+    SourceDir:    pathFromRoot('src/migrations'),
+    // applies pending migrations in `bootstrap()` before the server starts listening
+    RunOnStartup: Utils.tryReadEnv('MIGRATE_ON_STARTUP', 'false') === 'true',
+    // expressed in seconds, see `MigrationLockOptions` in modules/migrations
+    LockTtl:      60 * 60,
+    LockTimeout:  60 * 60
+};
 
+export const Matching = {
+    // expressed in seconds, match scores of a user are recomputed after they
+    // stop answering questions for this time
+    RefreshDelay: 10
+};
 
+// maps user roles to granted permissions (see `Permission` in modules/permissions),
+// `<prefix>:*` grants all permissions starting with `<prefix>:`, `*` grants all ones
+export const RolePermissions: Readonly<Record<string, ReadonlyArray<string>>> = {
+    admin:   ['*'],
+    regular: [
+        'user:read', 'user:update:self', 'user:block', 'question:read', 'question:answer',
+        'match:read', 'match:swipe', 'report:create', 'profile:read', 'profile:update:self',
+        'message:send', 'message:read', 'photo:update:self'
+    ],
+    guest:   [
+        'user:read', 'user:update:self', 'user:block', 'question:read', 'report:create',
+        'profile:read'
+    ]
+};
 
 
 
 
 
 
+
+
+
+/**
+ * Converts `TRUST_PROXY` to the value of Express 'trust proxy' setting:
+ * boolean, number of hops or comma-separated addresses and subnets.
+ */
+function parseTrustProxy(value: string): boolean | number | string {
+    if (value === 'true' || value === 'false') {
+        return value === 'true';
+    }
+    return /^\d+$/.test(value) ? Number(value) : value;
+}
+
 function pathFromRoot(relativePath: string) {
     return Path.normalize(Path.join(__dirname, '../../', relativePath));
 }
+
+/**
+ * Loads keys from `JWT_KEYS` environment variable (JSON array of
+ * `{ kid, publicKey, privateKey? }`) if it is defined, otherwise from
+ * `JWT_KEYS_DIR` directory.
+ */
+function loadJwtKeys(keysDir: string) {
+    const keysJson = Utils.tryReadEnv('JWT_KEYS', '');
+    return keysJson !== '' ? JwtKeyStore.fromJson(keysJson) : JwtKeyStore.fromDir(keysDir);
+}
@@ -0,0 +1,14 @@
+import { AuditEventPaginator } from 'domains/audit/model';
+import { makeFieldsEnum, makePaginateInputTypes } from 'graphql/pagination';
+
+export const AuditEventField = makeFieldsEnum(
+    'AuditEventField',
+    AuditEventPaginator.publicFields,
+    'Defines audit event fields available for sorting and filtering'
+);
+
+export const {
+    PaginateInputType: AuditEventPaginateRequestType
+} = makePaginateInputTypes('AuditEvent', AuditEventField);
+
+export type AuditEventPaginateRequestType = InstanceType<typeof AuditEventPaginateRequestType>;
@@ -0,0 +1,5 @@
+import { AuditEventType } from 'domains/audit/model';
+import { makePaginatedType } from 'graphql/pagination';
+
+export const AuditEventPaginateResponseType = makePaginatedType('AuditEventPage', AuditEventType);
+export type  AuditEventPaginateResponseType = InstanceType<typeof AuditEventPaginateResponseType>;
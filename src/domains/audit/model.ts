@@ -0,0 +1,159 @@
+import * as Config from "/config";
+import * as Utils from "/modules/utils";
+import * as I from "/modules/interfaces";
+import * as Vts from "vee-type-safe";
+
+import { Typegoose, prop, arrayProp, staticMethod, index as compoundIndex, Ref } from "typegoose";
+import { Field, ObjectType } from "type-graphql";
+import { required, index, nullable } from "/modules/flags";
+import { Paginator } from "/modules/mongoose-utils/paginate";
+import { diffObjects } from "/modules/object-diff";
+import { registerPersonalDataHandler } from "/modules/personal-data";
+import { UserType, User } from "/domains/users/model";
+
+@ObjectType("AuditChange", { description: "Change of one top-level field of the target document" })
+export class AuditChangeType {
+  @Field()
+  @prop({ required })
+  field!: string;
+
+  @Field(_type => String, { nullable, description: "JSON of the value, null if there was none" })
+  @prop()
+  before?: I.Maybe<string>;
+
+  @Field(_type => String, { nullable, description: "JSON of the value, null if there is none" })
+  @prop()
+  after?: I.Maybe<string>;
+}
+
+export interface AuditEventProps {
+  actor?:       I.Maybe<I.ObjectId>;
+  /**
+   * Dot-separated name of the action, e.g. `'user.change_role'`.
+   */
+  action:       string;
+  targetModel?: I.Maybe<string>;
+  targetId?:    I.Maybe<I.ObjectId>;
+  /**
+   * States of the target document, that are compared in order to
+   * record `changes`, `Config.Audit.RedactedFields` are never revealed.
+   */
+  before?:      I.Maybe<Vts.BasicObject>;
+  after?:       I.Maybe<Vts.BasicObject>;
+  ip?:          I.Maybe<string>;
+  details?:     I.Maybe<string>;
+}
+
+/**
+ * Record of the privileged or security-relevant action, events are removed
+ * after `Config.Audit.RetentionPeriod`.
+ */
+@compoundIndex({ target_model: 1, target_id: 1 })
+@ObjectType("AuditEvent")
+export class AuditEventType extends Typegoose {
+  @Field()
+  @prop()
+  get id(this: AuditEvent): I.ObjectId {
+    // @ts-ignore
+    return this._id || this._doc._id;
+  }
+
+  @prop({ index, ref: UserType })
+  actor?: I.Maybe<Ref<UserType>>; // exposed via field resolver
+
+  @Field()
+  @prop({ required, index })
+  action!: string;
+
+  @Field(_type => String, { nullable, description: "Name of the model of the target document" })
+  @prop()
+  target_model?: I.Maybe<string>;
+
+  @Field(_type => I.ObjectId, { nullable })
+  @prop()
+  target_id?: I.Maybe<I.ObjectId>;
+
+  @Field(_type => [AuditChangeType])
+  @arrayProp({ items: AuditChangeType, default: [] })
+  changes!: AuditChangeType[];
+
+  @Field(_type => String, { nullable, description: "Remote address of the client" })
+  @prop()
+  ip?: I.Maybe<string>;
+
+  @Field(_type => String, { nullable })
+  @prop()
+  details?: I.Maybe<string>;
+
+  @Field()
+  @prop({ required, index, default: Date.now })
+  created_at!: Date;
+
+  @prop({ required, expires: 0 }) // TTL index, MongoDB removes expired events
+  expires_at!: Date;
+
+  /**
+   * Saves the event with the diff of `before` and `after` states.
+   *
+   * @param props Description of the event.
+   */
+  @staticMethod
+  static async record(
+    this: AuditEventModel,
+    { actor, action, targetModel, targetId, before, after, ip, details }: AuditEventProps
+  ) {
+    const changes = diffObjects(before, after, Config.Audit.RedactedFields)
+      .map(change => ({
+        field:  change.field,
+        before: change.before === undefined ? null : JSON.stringify(change.before),
+        after:  change.after  === undefined ? null : JSON.stringify(change.after)
+      }));
+    return AuditEvent.create({
+      actor,
+      action,
+      target_model: targetModel,
+      target_id:    targetId,
+      changes,
+      ip,
+      details,
+      expires_at:   new Date(Date.now() + Config.Audit.RetentionPeriod * 1000)
+    });
+  }
+
+  /**
+   * Unlinks events from the user with the given id, they are kept until
+   * retention period expires. Changes of the user document are cleared,
+   * as they contain the username and other personal data.
+   *
+   * @param userId Id of the user to erase data of.
+   */
+  @staticMethod
+  static async eraseUserData(this: AuditEventModel, userId: I.ObjectId) {
+    await AuditEvent.updateMany({ actor: userId }, { $unset: { actor: 1, ip: 1 } }).exec();
+    await AuditEvent.updateMany(
+      { target_model: User.modelName, target_id: userId },
+      { $set: { changes: [] } }
+    ).exec();
+  }
+}
+
+export const AuditEvent = Utils.getModelFromTypegoose(AuditEventType);
+
+registerPersonalDataHandler("audit_events", {
+  export: async userId => AuditEvent
+    .find({ actor: userId })
+    .select("action target_model target_id ip created_at")
+    .lean()
+    .exec(),
+  erase: async userId => AuditEvent.eraseUserData(userId)
+});
+
+export const AuditEventPaginator = new Paginator<AuditEventData, AuditEvent>({
+  model:   AuditEvent,
+  aliases: { _id: "id" },
+  hidden:  ["changes", "expires_at"]
+});
+
+export type AuditEvent = InstanceType<AuditEventModel>;
+export type AuditEventModel = typeof AuditEvent;
+export type AuditEventData = I.TypegooseDocProps<AuditEventType>;
@@ -0,0 +1,52 @@
+import _ from 'lodash';
+import * as I from 'modules/interfaces';
+import { AuditEventType, AuditEventData, AuditEventPaginator } from 'domains/audit/model';
+import { UserType, User } from 'domains/users/model';
+import {
+    Resolver,
+    Query,
+    Arg,
+    Ctx,
+    Root,
+    FieldResolver,
+    Authorized
+} from 'type-graphql';
+import { ResolveContext } from 'graphql/resolve-context';
+import { toPublicPaginateOptions, SortOrder } from 'graphql/pagination';
+import { Permission } from 'modules/permissions';
+import { nullable } from 'modules/flags';
+import { AuditEventPaginateRequestType } from 'domains/audit/audit-event-paginate-request-type';
+import { AuditEventPaginateResponseType } from 'domains/audit/audit-event-paginate-response-type';
+
+
+@Resolver(_of => AuditEventType)
+export class AuditResolver {
+
+    @Authorized(Permission.AuditRead)
+    @Query(_returns => AuditEventPaginateResponseType, {
+        description: 'Returns audit events, the newest ones go first, unless other sort order ' +
+                     'is specified, use `actor` and `action` filters to narrow them down'
+    })
+    async auditEvents(
+        @Arg('req', _type => AuditEventPaginateRequestType) req: AuditEventPaginateRequestType,
+        @Arg('from', _type => Date, { nullable, description: 'Inclusive' }) from: I.Maybe<Date>,
+        @Arg('to',   _type => Date, { nullable, description: 'Exclusive' }) to:   I.Maybe<Date>
+    ): Promise<AuditEventPaginateResponseType> {
+        const options = toPublicPaginateOptions(req);
+        return AuditEventPaginator.paginate(
+            _.isEmpty(options.sort) ? { ...options, sort: { created_at: SortOrder.Desc } } : options,
+            from == null && to == null ? null : { filter: { created_at: _.omitBy(
+                { $gte: from, $lt: to }, _.isNil
+            ) } }
+        );
+    }
+
+    @FieldResolver(_type => UserType, {
+        nullable,
+        description: 'Null for anonymous actions or if the user was deleted'
+    })
+    async actor(@Ctx() {loaders}: ResolveContext, @Root() { actor }: AuditEventData) {
+        return actor == null ? null : loaders.byId(User, { includeDeleted: true }).load(actor as I.ObjectId);
+    }
+
+}
@@ -8,9 +8,12 @@ import { UserType } from 'domains/users/model';
 
 @ObjectType()
 export class LoginResponseType {
-    @Field()
+    @Field({ description: 'Short-lived access token' })
     jwt!: string;
 
+    @Field({ description: 'Single-use token to get new `jwt` with `refreshToken` mutation' })
+    refreshToken!: string;
+
     @Field()
     user!: UserType;
 }
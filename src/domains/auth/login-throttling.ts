@@ -0,0 +1,63 @@
+import * as Config from 'config';
+import {
+    LoginThrottler,
+    FailedAttemptsStore,
+    MemoryFailedAttemptsStore
+} from 'modules/login-throttler';
+import { MongoFailedAttemptsStore } from 'domains/login-attempts/model';
+
+function makeStore(): FailedAttemptsStore {
+    switch (Config.LoginThrottling.Store) {
+        case 'memory': return new MemoryFailedAttemptsStore;
+        case 'mongo':  return new MongoFailedAttemptsStore;
+        default: throw new Error(
+            `unknown login throttling store '${Config.LoginThrottling.Store}'`
+        );
+    }
+}
+
+const store = makeStore();
+const usernameThrottler = new LoginThrottler(store, Config.LoginThrottling.PerUsername, 'username:');
+const ipThrottler       = new LoginThrottler(store, Config.LoginThrottling.PerIp, 'ip:');
+
+export interface LoginAttempt {
+    username: string;
+    ip:       string;
+}
+
+/**
+ * Registers the attempt as failed in advance, so that concurrent attempts
+ * can't bypass throttling, it must be followed by `registerLoginSuccess()`
+ * if the credentials are valid.
+ *
+ * @throws LoginThrottledError
+ * If there were too many failed attempts for the username or from the IP.
+ */
+export async function tryReserveLoginAttempt({ username, ip }: LoginAttempt) {
+    await usernameThrottler.tryReserveAttempt(username);
+    try {
+        await ipThrottler.tryReserveAttempt(ip);
+    } catch (err) {
+        await usernameThrottler.refund(username);
+        throw err;
+    }
+}
+
+/**
+ * Resets username failures counter and refunds the reserved IP attempt only,
+ * so that logging into one's own account doesn't allow to continue
+ * brute-forcing others from the same IP.
+ */
+export async function registerLoginSuccess({ username, ip }: LoginAttempt) {
+    await Promise.all([
+        usernameThrottler.reset(username),
+        ipThrottler.refund(ip)
+    ]);
+}
+
+/**
+ * Lifts the lockout and backoff delay from the account with the given username.
+ */
+export async function unlockAccount(username: string) {
+    await usernameThrottler.reset(username);
+}
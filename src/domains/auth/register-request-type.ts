@@ -0,0 +1,21 @@
+import {
+    Field,
+    InputType
+} from 'type-graphql';
+
+import { UserPropLimits, Credentials } from 'domains/users/model';
+import { LengthRange    } from 'modules/decorators/length-range';
+
+
+@InputType()
+export class RegisterRequestType implements Credentials {
+
+    @Field()
+    @LengthRange(UserPropLimits.UsernameLength)
+    username!: string;
+
+    @Field()
+    @LengthRange(UserPropLimits.PasswordLength)
+    password!: string;
+
+}
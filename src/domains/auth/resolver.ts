@@ -1,26 +1,122 @@
 import * as I from 'modules/interfaces';
-import { User } from 'domains/users/model';
+import { User, UserType, UserTryCrud, getAccessDenialReason } from 'domains/users/model';
+import { Session } from 'domains/sessions/model';
 
 import {
     Resolver,
     Arg,
-    Mutation
+    Ctx,
+    Mutation,
+    Authorized
 } from 'type-graphql';
-import { LoginRequestType  } from 'domains/auth/login-request-type';
-import { LoginResponseType } from 'domains/auth/login-response-type';
+import { LoginRequestType    } from 'domains/auth/login-request-type';
+import { LoginResponseType   } from 'domains/auth/login-response-type';
+import { RegisterRequestType } from 'domains/auth/register-request-type';
+import { ResolveContext      } from 'graphql/resolve-context';
+import { ForbiddenError      } from 'modules/statused-error';
+import { Permission          } from 'modules/permissions';
 import { nullable } from 'modules/flags';
+import { Audited, recordAuditEvent } from 'graphql/audit';
+import { RateLimit } from 'graphql/rate-limit';
+import {
+    tryReserveLoginAttempt,
+    registerLoginSuccess,
+    unlockAccount
+} from 'domains/auth/login-throttling';
 
 
 @Resolver()
 export class AuthResolver {
 
+    /**
+     * Returns `null` if credentials are invalid.
+     *
+     * @throws LoginThrottledError
+     * If there were too many failed attempts for the username or from the client IP.
+     */
     @Mutation(_type => LoginResponseType, {nullable})
-    async login(@Arg('req') credentials: LoginRequestType): Promise<I.Maybe<LoginResponseType>> {
+    async login(
+        @Arg('req') credentials: LoginRequestType,
+        @Ctx() context: ResolveContext
+    ): Promise<I.Maybe<LoginResponseType>> {
 
+        const attempt = { username: credentials.username, ip: context.ip };
+        await tryReserveLoginAttempt(attempt);
         const user = await User.findByCredentials(credentials);
+        if (user == null) {
+            // the username isn't recorded, as failed attempts have no actor to erase it by
+            await recordAuditEvent(context, { action: 'auth.login_failed' });
+            return null;
+        }
+        await registerLoginSuccess(attempt);
+        await recordAuditEvent(context, {
+            action: 'auth.login', actor: user._id, targetModel: User.modelName, targetId: user._id
+        });
+        return startSession(user);
+    }
+
+    /**
+     * Creates a new regular user and returns its jwt, so that the client
+     * is logged in right away.
+     *
+     * @throws UsernameTakenError | RateLimitedError
+     * If user with the given `username` already exists or too many users
+     * were registered from the client IP.
+     */
+    @RateLimit({ algorithm: 'sliding-window', limit: 10, window: 60 * 60, by: 'ip' })
+    @Mutation(_type => LoginResponseType)
+    async register(@Arg('req') { username, password }: RegisterRequestType): Promise<LoginResponseType> {
+
+        const user = await User.tryCreate({ username, password });
+
+        return startSession(user);
+    }
+
+    /**
+     * Exchanges refresh token for the new pair of access and refresh tokens.
+     * Reusing refresh token revokes the whole session.
+     *
+     * @throws InvalidRefreshTokenError | ForbiddenError
+     * If refresh token is invalid or the user was disabled, banned or suspended.
+     */
+    @Mutation(_type => LoginResponseType)
+    async refreshToken(@Arg('refreshToken') oldRefreshToken: string): Promise<LoginResponseType> {
 
-        return user == null ? null : { jwt: user.makeJWT(), user };
+        const { session, refreshToken } = await Session.rotate(oldRefreshToken);
+        const user = await UserTryCrud.tryFindById(session.user as I.ObjectId);
+        const denialReason = getAccessDenialReason(user);
+        if (denialReason != null) {
+            throw new ForbiddenError(denialReason);
+        }
+        return { jwt: User.hydrate(user).makeJWT(session._id), refreshToken, user };
+    }
+
+    @Authorized()
+    @Mutation(_type => Boolean, { description: 'Revokes current session' })
+    async logout(@Ctx() {sessionId}: ResolveContext) {
+        await Session.revoke(sessionId!);
+        return true;
+    }
+
+    @Authorized()
+    @Mutation(_type => Boolean, { description: 'Revokes all sessions of the current user' })
+    async logoutAllSessions(@Ctx() {user}: ResolveContext) {
+        await Session.revokeAllOf(user!._id);
+        return true;
+    }
+
+    @Authorized(Permission.UserUnlock)
+    @Audited({ action: 'auth.unlock', targetModel: User.modelName, getTargetId: ({args}) => args.id })
+    @Mutation(_type => UserType, { description: 'Lifts login lockout from the user account' })
+    async unlockUser(@Arg('id') id: I.ObjectId) {
+        const user = await UserTryCrud.tryFindById(id);
+        await unlockAccount(user.username);
+        return user;
     }
 
 }
 
+async function startSession(user: User): Promise<LoginResponseType> {
+    const { session, refreshToken } = await Session.start(user._id);
+    return { jwt: user.makeJWT(session._id), refreshToken, user };
+}
@@ -0,0 +1,116 @@
+import * as Utils from "/modules/utils";
+import * as I from "/modules/interfaces";
+
+import { Typegoose, prop } from "typegoose";
+import { required, index, unique } from "/modules/flags";
+import { FailedAttemptsStore, FailedAttempts } from "/modules/login-throttler";
+import { isDuplicateKeyError } from "/modules/mongoose-utils/mongo-errors";
+
+/**
+ * Failed login attempts counter of one throttling key, that is shared
+ * between all server instances.
+ */
+export class LoginAttemptsType extends Typegoose {
+  @prop({ required, index, unique })
+  key!: string;
+
+  @prop({ required })
+  count!: number;
+
+  @prop({ required })
+  last_at!: Date;
+
+  @prop({ required, expires: 0 }) // TTL index, MongoDB removes expired counters
+  expires_at!: Date;
+}
+
+export const LoginAttempts = Utils.getModelFromTypegoose(LoginAttemptsType);
+
+export type LoginAttempts = InstanceType<LoginAttemptsModel>;
+export type LoginAttemptsModel = typeof LoginAttempts;
+export type LoginAttemptsData = I.TypegooseDocProps<LoginAttemptsType>;
+
+const MaxIncrementAttempts = 3;
+
+/**
+ * Keeps counters in `LoginAttempts` collection, it is suitable for
+ * multi-instance deployments. Counters are incremented atomically, an
+ * expired counter is restarted if the upsert conflicts with it. Conditional
+ * increments compare the counter with the expected one in the update filter.
+ */
+export class MongoFailedAttemptsStore implements FailedAttemptsStore {
+  async get(key: string) {
+    const attempts = await LoginAttempts
+      .findOne({ key, expires_at: { $gt: new Date } })
+      .lean()
+      .exec() as I.Maybe<LoginAttemptsData>;
+    return attempts == null ? null : { count: attempts.count, lastAt: attempts.last_at };
+  }
+
+  async increment(key: string, ttl: number) {
+    for (let attempt = 1; ; ++attempt) {
+      const lastAt = new Date;
+      const prolongation = { last_at: lastAt, expires_at: new Date(lastAt.getTime() + ttl * 1000) };
+      try {
+        // TTL monitor removes documents with a delay, so expired ones must be skipped explicitly
+        const attempts = await LoginAttempts.findOneAndUpdate(
+          { key, expires_at: { $gt: lastAt } },
+          { $inc: { count: 1 }, $set: prolongation },
+          { new: true, upsert: true }
+        ).exec();
+        return { count: attempts.count, lastAt };
+      } catch (err) {
+        if (!isDuplicateKeyError(err) || attempt === MaxIncrementAttempts) {
+          throw err;
+        }
+      }
+      // upsert conflicted with an expired counter or with a concurrent upsert
+      const restarted = await LoginAttempts.findOneAndUpdate(
+        { key, expires_at: { $lte: lastAt } },
+        { $set: { count: 1, ...prolongation } }
+      ).exec();
+      if (restarted != null) {
+        return { count: 1, lastAt };
+      }
+    }
+  }
+
+  async tryIncrement(key: string, ttl: number, expected: I.Maybe<FailedAttempts>) {
+    const lastAt       = new Date;
+    const prolongation = { last_at: lastAt, expires_at: new Date(lastAt.getTime() + ttl * 1000) };
+    if (expected != null) {
+      const { n } = await LoginAttempts.updateOne(
+        { key, count: expected.count, last_at: expected.lastAt, expires_at: { $gt: lastAt } },
+        { $inc: { count: 1 }, $set: prolongation }
+      ).exec();
+      return n > 0;
+    }
+    const restarted = await LoginAttempts.findOneAndUpdate(
+      { key, expires_at: { $lte: lastAt } },
+      { $set: { count: 1, ...prolongation } }
+    ).exec();
+    if (restarted != null) {
+      return true;
+    }
+    try {
+      await LoginAttempts.create({ key, count: 1, ...prolongation });
+      return true;
+    } catch (err) {
+      if (isDuplicateKeyError(err)) {
+        return false;
+      }
+      throw err;
+    }
+  }
+
+  async decrement(key: string) {
+    await LoginAttempts.updateOne(
+      { key, count: { $gt: 0 }, expires_at: { $gt: new Date } },
+      { $inc: { count: -1 } }
+    ).exec();
+  }
+
+  async reset(key: string) {
+    await LoginAttempts.deleteOne({ key }).exec();
+  }
+}
@@ -0,0 +1,74 @@
+import _ from 'lodash';
+
+/**
+ * Represents an answer to the choice or scale question, `question` is
+ * the question id string.
+ */
+export interface ComparableAnswer {
+    question:   string;
+    selected:   number[];
+    /**
+     * Options acceptable from the other user, empty if any answer is acceptable.
+     */
+    acceptable: number[];
+}
+
+export interface Compatibility {
+    /**
+     * Number from 0 to 1.
+     */
+    score:           number;
+    commonQuestions: number;
+}
+
+/**
+ * Computes compatibility of two users from their answers in the OkCupid way:
+ * each side's satisfaction is the weighted share of common questions, which
+ * the other side answered acceptably, and the score is the geometric mean of
+ * both satisfactions minus the margin of error `1 / commonQuestions`.
+ * Free text answers are not comparable, so they are ignored.
+ *
+ * @param answersA Answers of the first user.
+ * @param answersB Answers of the second user.
+ * @param weights  Maps question ids to their weights, missing weights are 1.
+ */
+export function computeCompatibility(
+    answersA: ReadonlyArray<ComparableAnswer>,
+    answersB: ReadonlyArray<ComparableAnswer>,
+    weights:  ReadonlyMap<string, number>
+): Compatibility {
+    const comparableB = _.keyBy(answersB.filter(isComparable), answer => answer.question);
+    const pairs = answersA
+        .filter(answer => isComparable(answer) && answer.question in comparableB)
+        .map(answer => [answer, comparableB[answer.question]]);
+
+    if (pairs.length === 0) {
+        return { score: 0, commonQuestions: 0 };
+    }
+    const satisfaction = (isSatisfied: (a: ComparableAnswer, b: ComparableAnswer) => boolean) => (
+        _.sumBy(pairs, ([a, b]) => isSatisfied(a, b) ? getWeight(weights, a.question) : 0) /
+        _.sumBy(pairs, ([a]) => getWeight(weights, a.question))
+    );
+    const satisfactionA = satisfaction((a, b) => isAcceptable(b, a.acceptable));
+    const satisfactionB = satisfaction((a, b) => isAcceptable(a, b.acceptable));
+    return {
+        score:           Math.max(0, Math.sqrt(satisfactionA * satisfactionB) - 1 / pairs.length),
+        commonQuestions: pairs.length
+    };
+}
+
+function isComparable({ selected }: ComparableAnswer) {
+    return selected.length > 0;
+}
+
+/**
+ * Returns true if any of the `answer` selected options is `acceptable`.
+ */
+function isAcceptable({ selected }: ComparableAnswer, acceptable: number[]) {
+    return acceptable.length === 0 || selected.some(option => acceptable.includes(option));
+}
+
+function getWeight(weights: ReadonlyMap<string, number>, question: string) {
+    const weight = weights.get(question);
+    return weight == null ? 1 : weight;
+}
@@ -0,0 +1,14 @@
+import { MatchScorePaginator } from 'domains/matching/model';
+import { makeFieldsEnum, makePaginateInputTypes } from 'graphql/pagination';
+
+export const MatchScoreField = makeFieldsEnum(
+    'MatchScoreField',
+    MatchScorePaginator.publicFields,
+    'Defines match score fields available for sorting and filtering'
+);
+
+export const {
+    PaginateInputType: MatchScorePaginateRequestType
+} = makePaginateInputTypes('MatchScore', MatchScoreField);
+
+export type MatchScorePaginateRequestType = InstanceType<typeof MatchScorePaginateRequestType>;
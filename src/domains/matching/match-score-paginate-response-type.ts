@@ -0,0 +1,5 @@
+import { MatchScoreType } from 'domains/matching/model';
+import { makePaginatedType } from 'graphql/pagination';
+
+export const MatchScorePaginateResponseType = makePaginatedType('MatchScorePage', MatchScoreType);
+export type  MatchScorePaginateResponseType = InstanceType<typeof MatchScorePaginateResponseType>;
@@ -0,0 +1,258 @@
+import _ from "lodash";
+import * as Config from "/config";
+import * as Utils from "/modules/utils";
+import * as I from "/modules/interfaces";
+
+import { Typegoose, prop, staticMethod, index as compoundIndex, Ref } from "typegoose";
+import { Field, ObjectType, Int, Float } from "type-graphql";
+import { required, index, unique } from "/modules/flags";
+import { Paginator } from "/modules/mongoose-utils/paginate";
+import { Log } from "/modules/debug";
+import { registerPersonalDataHandler } from "/modules/personal-data";
+import { UserType, User, registerHiddenUntilMirror } from "/domains/users/model";
+import { Question, QuestionData } from "/domains/questions/model";
+import { Answer, AnswerData } from "/domains/questions/answer-model";
+import {
+  computeCompatibility,
+  ComparableAnswer,
+  Compatibility
+} from "/domains/matching/compatibility";
+
+/**
+ * Cached compatibility score of `user` with `candidate`. Each pair of users has
+ * two documents, one for each direction, so that candidates of the user may
+ * be ranked with a single indexed query.
+ */
+@compoundIndex({ user: 1, candidate: 1 }, { unique })
+@compoundIndex({ user: 1, score: -1 })
+@ObjectType("MatchScore")
+export class MatchScoreType extends Typegoose {
+  @Field()
+  @prop()
+  get id(this: MatchScore): I.ObjectId {
+    // @ts-ignore
+    return this._id || this._doc._id;
+  }
+
+  @prop({ required, ref: UserType })
+  user!: Ref<UserType>;
+
+  @prop({ required, index, ref: UserType })
+  candidate!: Ref<UserType>; // exposed via field resolver
+
+  @prop({ index })
+  candidate_hidden_until?: I.Maybe<Date>; // mirror of `User.hidden_until`
+
+  @Field(_type => Float, { description: "Compatibility from 0 to 1" })
+  @prop({ required })
+  score!: number;
+
+  @Field(_type => Int, { description: "Number of questions answered by both users" })
+  @prop({ required })
+  common_questions!: number;
+
+  @Field()
+  @prop({ required, default: Date.now })
+  computed_at!: Date;
+
+  /**
+   * Recomputes and caches scores of the user with the given id against
+   * all users, who answered at least one common question. Scores with users
+   * having no common questions anymore are removed.
+   *
+   * @param userId Target user id.
+   */
+  @staticMethod
+  static async refreshScoresOf(this: MatchScoreModel, userId: I.ObjectId) {
+    const startedAt  = new Date;
+    const ownAnswers = await findComparableAnswers({ user: userId });
+    const weights    = await getQuestionWeights(ownAnswers.map(answer => answer.question));
+    const scores: CandidateScore[] = [];
+    const addScore = async ({ candidateId, answers }: CandidateAnswers) => {
+      scores.push({ candidateId, compatibility: computeCompatibility(ownAnswers, answers, weights) });
+      if (scores.length >= BulkWriteBatchSize) {
+        await writeScores(userId, scores.splice(0));
+      }
+    };
+    // answers are sorted by user, so each candidate's answers come in a row
+    const state: { candidate: I.Maybe<CandidateAnswers> } = { candidate: null };
+    await Answer
+      .find({
+        question:     { $in: ownAnswers.map(answer => answer.question) },
+        user:         { $ne: userId },
+        "selected.0": { $exists: true }
+      })
+      .sort({ user: 1 })
+      .lean()
+      .cursor()
+      .eachAsync(async (answer: AnswerData & { user: I.ObjectId }) => {
+        if (state.candidate == null || !state.candidate.candidateId.equals(answer.user)) {
+          if (state.candidate != null) {
+            await addScore(state.candidate);
+          }
+          state.candidate = { candidateId: answer.user, answers: [] };
+        }
+        state.candidate.answers.push(toComparable(answer));
+      });
+    if (state.candidate != null) {
+      await addScore(state.candidate);
+    }
+    await writeScores(userId, scores);
+
+    await MatchScore.deleteMany({
+      $or: [{ user: userId }, { candidate: userId }],
+      computed_at: { $lt: startedAt }
+    }).exec();
+  }
+
+  /**
+   * Returns the cached score of the user with `candidate`, computes and
+   * caches it if there is no one.
+   *
+   * @param userId      Id of the user, who the score is requested by.
+   * @param candidateId Id of the user to compute compatibility with.
+   */
+  @staticMethod
+  static async getScore(this: MatchScoreModel, userId: I.ObjectId, candidateId: I.ObjectId) {
+    const filter = { user: userId, candidate: candidateId };
+    const cached = await MatchScore.findOne(filter).lean().exec();
+    if (cached != null) {
+      return cached as MatchScoreData;
+    }
+    const [userAnswers, candidateAnswers] = await Promise.all([
+      findComparableAnswers({ user: userId }),
+      findComparableAnswers({ user: candidateId })
+    ]);
+    const weights = await getQuestionWeights(userAnswers.map(answer => answer.question));
+    await writeScores(userId, [{
+      candidateId, compatibility: computeCompatibility(userAnswers, candidateAnswers, weights)
+    }]);
+    return await MatchScore.findOne(filter).lean().exec() as MatchScoreData;
+  }
+
+  /**
+   * Returns true if the user with the given id has no cached scores.
+   */
+  @staticMethod
+  static async hasNoScores(this: MatchScoreModel, userId: I.ObjectId) {
+    return await MatchScore.findOne({ user: userId }).select("_id").lean().exec() == null;
+  }
+}
+
+/**
+ * Number of scores to write at once, each one is written in both directions.
+ */
+const BulkWriteBatchSize = 250;
+
+interface CandidateAnswers {
+  candidateId: I.ObjectId;
+  answers:     ComparableAnswer[];
+}
+
+interface CandidateScore {
+  candidateId:   I.ObjectId;
+  compatibility: Compatibility;
+}
+
+const pendingRefreshes = new Map<string, NodeJS.Timer>();
+
+/**
+ * Schedules `refreshScoresOf()` for the user with the given id after
+ * `Config.Matching.RefreshDelay`, so that answering several questions
+ * in a row triggers only one refresh.
+ *
+ * @param userId Target user id.
+ */
+export function scheduleScoresRefresh(userId: I.ObjectId) {
+  const key = String(userId);
+  const pending = pendingRefreshes.get(key);
+  if (pending != null) {
+    clearTimeout(pending);
+  }
+  pendingRefreshes.set(key, setTimeout(() => {
+    pendingRefreshes.delete(key);
+    MatchScore.refreshScoresOf(userId).catch(
+      err => Log.error(err, `failed to refresh match scores of user ${key}`)
+    );
+  }, Config.Matching.RefreshDelay * 1000));
+}
+
+function toComparable({ question, selected, acceptable }: AnswerData): ComparableAnswer {
+  return { question: String(question), selected, acceptable };
+}
+
+async function findComparableAnswers(filter: object) {
+  const answers: AnswerData[] = await Answer
+    .find({ ...filter, "selected.0": { $exists: true } })
+    .select("question selected acceptable")
+    .lean()
+    .exec();
+  return answers.map(toComparable);
+}
+
+async function getQuestionWeights(questionIds: string[]) {
+  const questions: Array<Pick<QuestionData, "weight"> & { _id: I.ObjectId }> = await Question
+    .find({ _id: { $in: questionIds } })
+    .select("weight")
+    .lean()
+    .exec();
+  return new Map(questions.map(({ _id, weight }) => [String(_id), weight] as [string, number]));
+}
+
+/**
+ * Upserts scores of the user with the candidates in both directions, along
+ * with the mirrors of `User.hidden_until`.
+ */
+async function writeScores(userId: I.ObjectId, scores: CandidateScore[]) {
+  if (scores.length === 0) {
+    return;
+  }
+  const hiddenUntil = await User.getHiddenUntilOf([userId, ...scores.map(score => score.candidateId)]);
+  await MatchScore.bulkWrite(_.flatMap(scores, ({ candidateId, compatibility }) => (
+    makeUpsertOperations(userId, candidateId, compatibility, hiddenUntil)
+  )));
+}
+
+function makeUpsertOperations(
+  userId:      I.ObjectId,
+  candidateId: I.ObjectId,
+  { score, commonQuestions }: Compatibility,
+  hiddenUntil: Map<string, I.Maybe<Date>>
+) {
+  const update = { score, common_questions: commonQuestions, computed_at: new Date };
+  return [[userId, candidateId], [candidateId, userId]].map(([user, candidate]) => ({
+    updateOne: {
+      filter: { user, candidate },
+      update: { ...update, candidate_hidden_until: hiddenUntil.get(String(candidate)) || null },
+      upsert: true
+    }
+  }));
+}
+
+export const MatchScore = Utils.getModelFromTypegoose(MatchScoreType);
+
+export const MatchScorePaginator = new Paginator<MatchScoreData, MatchScore>({
+  model:   MatchScore,
+  aliases: { _id: "id" },
+  hidden:  ["user", "candidate_hidden_until"]
+});
+
+registerHiddenUntilMirror({
+  model: MatchScore, userPath: "candidate", hiddenUntilPath: "candidate_hidden_until"
+});
+
+// scores are derived from answers, so they are not exported
+registerPersonalDataHandler("match_scores", {
+  erase: async userId => {
+    const pending = pendingRefreshes.get(String(userId));
+    if (pending != null) {
+      clearTimeout(pending);
+      pendingRefreshes.delete(String(userId));
+    }
+    await MatchScore.deleteMany({ $or: [{ user: userId }, { candidate: userId }] }).exec();
+  }
+});
+
+export type MatchScore = InstanceType<MatchScoreModel>;
+export type MatchScoreModel = typeof MatchScore;
+export type MatchScoreData = I.TypegooseDocProps<MatchScoreType>;
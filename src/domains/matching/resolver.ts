@@ -0,0 +1,73 @@
+import _ from 'lodash';
+import * as I from 'modules/interfaces';
+import { MatchScoreType, MatchScore, MatchScoreData, MatchScorePaginator } from 'domains/matching/model';
+import { UserType, User, UserTryCrud, makeNotHiddenCondition } from 'domains/users/model';
+import { Block } from 'domains/social/block-model';
+import {
+    Resolver,
+    Query,
+    Arg,
+    Ctx,
+    Root,
+    FieldResolver,
+    Authorized
+} from 'type-graphql';
+import { ResolveContext } from 'graphql/resolve-context';
+import { Cost } from 'graphql/query-limits';
+import { toPublicPaginateOptions, SortOrder } from 'graphql/pagination';
+import { Permission } from 'modules/permissions';
+import { BadRequestError } from 'modules/statused-error';
+import { MatchScorePaginateRequestType } from 'domains/matching/match-score-paginate-request-type';
+import { MatchScorePaginateResponseType } from 'domains/matching/match-score-paginate-response-type';
+
+
+@Resolver(_of => MatchScoreType)
+export class MatchingResolver {
+
+    /**
+     * @throws IdNotFoundError | BadRequestError
+     * If there is no such user or it is the current user.
+     */
+    @Authorized(Permission.MatchRead)
+    @Cost(10)
+    @Query(_returns => MatchScoreType, {
+        description: 'Returns compatibility of the current user with the given one'
+    })
+    async matchScore(@Ctx() {user}: ResolveContext, @Arg('userId') userId: I.ObjectId) {
+        if (user!._id.equals(userId)) {
+            throw new BadRequestError('match score with oneself is meaningless');
+        }
+        await UserTryCrud.tryFindById(userId);
+        return MatchScore.getScore(user!._id, userId);
+    }
+
+    @Authorized(Permission.MatchRead)
+    @Cost(5)
+    @Query(_returns => MatchScorePaginateResponseType, {
+        description: 'Returns candidates ranked by compatibility with the current user, ' +
+                     'unless other sort order is specified'
+    })
+    async suggestedMatches(
+        @Ctx() {user}: ResolveContext,
+        @Arg('req', _type => MatchScorePaginateRequestType) req: MatchScorePaginateRequestType
+    ): Promise<MatchScorePaginateResponseType> {
+        if (await MatchScore.hasNoScores(user!._id)) {
+            await MatchScore.refreshScoresOf(user!._id);
+        }
+        const options = toPublicPaginateOptions(req);
+        return MatchScorePaginator.paginate(
+            _.isEmpty(options.sort) ? { ...options, sort: { score: SortOrder.Desc } } : options,
+            { filter: {
+                user:      user!._id,
+                candidate:              await Block.makeVisibleUsersFilter(user!._id),
+                candidate_hidden_until: makeNotHiddenCondition()
+            }}
+        );
+    }
+
+    @FieldResolver(_type => UserType)
+    async candidate(@Ctx() {loaders}: ResolveContext, @Root() { candidate }: MatchScoreData) {
+        return loaders.tryFindById(User, candidate as I.ObjectId);
+    }
+
+}
@@ -0,0 +1,58 @@
+import * as Utils from "/modules/utils";
+import * as I from "/modules/interfaces";
+
+import { Typegoose, prop, arrayProp, staticMethod, Ref } from "typegoose";
+import { required, index, unique } from "/modules/flags";
+import { UserType } from "/domains/users/model";
+
+/**
+ * Groups messages between two users.
+ */
+export class ConversationType extends Typegoose {
+  @arrayProp({ itemsRef: UserType, required, index })
+  participants!: Ref<UserType>[];
+
+  // ids of the participants in ascending order, there is only one conversation per pair
+  @prop({ required, unique })
+  key!: string;
+
+  @prop({ required, default: Date.now })
+  created_at!: Date;
+
+  @prop()
+  last_message_at?: I.Maybe<Date>;
+
+  /**
+   * Returns the conversation of the two users, creates it if there is no one.
+   */
+  @staticMethod
+  static async getOrCreateBetween(this: ConversationModel, userId: I.ObjectId, otherId: I.ObjectId) {
+    const participants = [userId, otherId].sort((a, b) => String(a).localeCompare(String(b)));
+    return Conversation.findOneAndUpdate(
+      { key: makeKey(userId, otherId) },
+      { $setOnInsert: { participants } },
+      { new: true, upsert: true, setDefaultsOnInsert: true }
+    ).lean().exec() as Promise<ConversationData & { _id: I.ObjectId }>;
+  }
+
+  /**
+   * Returns the conversation of the two users or `null` if there is no one.
+   */
+  @staticMethod
+  static async findBetween(this: ConversationModel, userId: I.ObjectId, otherId: I.ObjectId) {
+    return Conversation
+      .findOne({ key: makeKey(userId, otherId) })
+      .lean()
+      .exec() as Promise<I.Maybe<ConversationData & { _id: I.ObjectId }>>;
+  }
+}
+
+function makeKey(userId: I.ObjectId, otherId: I.ObjectId) {
+  return [String(userId), String(otherId)].sort().join(":");
+}
+
+export const Conversation = Utils.getModelFromTypegoose(ConversationType);
+
+export type Conversation = InstanceType<ConversationModel>;
+export type ConversationModel = typeof Conversation;
+export type ConversationData = I.TypegooseDocProps<ConversationType>;
@@ -0,0 +1,105 @@
+import * as Utils from "/modules/utils";
+import * as I from "/modules/interfaces";
+
+import { Typegoose, prop, staticMethod, index as compoundIndex, Ref } from "typegoose";
+import { Field, ObjectType } from "type-graphql";
+import { required, index, nullable } from "/modules/flags";
+import { TryCrud } from "/modules/mongoose-utils/try-crud";
+import { Paginator } from "/modules/mongoose-utils/paginate";
+import { IntegerRange } from "/modules/integer-range";
+import { registerPersonalDataHandler } from "/modules/personal-data";
+import { UserType } from "/domains/users/model";
+import {
+  ConversationType,
+  Conversation,
+  ConversationData
+} from "/domains/messaging/conversation-model";
+
+export namespace MessagePropLimits {
+  export const TextLength = new IntegerRange(1, 4001);
+}
+
+@compoundIndex({ conversation: 1, sent_at: 1 })
+@ObjectType("Message")
+export class MessageType extends Typegoose {
+  @Field()
+  @prop()
+  get id(this: Message): I.ObjectId {
+    // @ts-ignore
+    return this._id || this._doc._id;
+  }
+
+  @prop({ required, ref: ConversationType })
+  conversation!: Ref<ConversationType>;
+
+  @prop({ required, index, ref: UserType })
+  sender!: Ref<UserType>; // exposed via field resolver
+
+  @Field()
+  @prop({ required })
+  text!: string;
+
+  @Field()
+  @prop({ required, default: Date.now })
+  sent_at!: Date;
+
+  @Field(_type => Date, { nullable, description: "Time when the recipient read the message" })
+  @prop()
+  read_at?: I.Maybe<Date>;
+
+  /**
+   * Marks all unread messages of the conversation sent by `senderId`
+   * as read. Returns the number of marked messages.
+   */
+  @staticMethod
+  static async markReadFrom(
+    this: MessageModel,
+    conversationId: I.ObjectId,
+    senderId:       I.ObjectId
+  ) {
+    const { nModified } = await Message.updateMany(
+      { conversation: conversationId, sender: senderId, read_at: null },
+      { read_at: new Date }
+    ).exec();
+    return nModified as number;
+  }
+}
+
+export const Message = Utils.getModelFromTypegoose(MessageType);
+
+export const MessageTryCrud = new TryCrud(Message);
+
+export const MessagePaginator = new Paginator<MessageData, Message>({
+  model:   Message,
+  aliases: { _id: "id" },
+  hidden:  ["conversation"]
+});
+
+export type Message = InstanceType<MessageModel>;
+export type MessageModel = typeof Message;
+export type MessageData = I.TypegooseDocProps<MessageType>;
+
+// conversations are removed entirely, as they make no sense without one of participants
+registerPersonalDataHandler("conversations", {
+  export: async userId => {
+    const conversations = await Conversation
+      .find({ participants: userId })
+      .select("-key -__v")
+      .lean()
+      .exec() as Array<ConversationData & { _id: I.ObjectId }>;
+    return Promise.all(conversations.map(async conversation => ({
+      ...conversation,
+      messages: await Message
+        .find({ conversation: conversation._id })
+        .select("-conversation -__v")
+        .sort({ sent_at: 1 })
+        .lean()
+        .exec()
+    })));
+  },
+  erase: async userId => {
+    const conversationIds = await Conversation.find({ participants: userId }).distinct("_id").exec();
+    await Message.deleteMany({ conversation: { $in: conversationIds } }).exec();
+    await Conversation.deleteMany({ _id: { $in: conversationIds } }).exec();
+  }
+});
@@ -0,0 +1,19 @@
+import { MessagePaginator } from 'domains/messaging/message-model';
+import { makeFieldsEnum, makePaginateInputTypes } from 'graphql/pagination';
+
+export const MessageField = makeFieldsEnum(
+    'MessageField',
+    MessagePaginator.publicFields,
+    'Defines message fields available for sorting and filtering'
+);
+export const MessageSearchField = makeFieldsEnum(
+    'MessageSearchField',
+    MessagePaginator.searchableFields,
+    'Defines message fields available for searching'
+);
+
+export const {
+    CursorPaginateInputType: MessageCursorPaginateRequestType
+} = makePaginateInputTypes('Message', MessageField, MessageSearchField);
+
+export type MessageCursorPaginateRequestType = InstanceType<typeof MessageCursorPaginateRequestType>;
@@ -0,0 +1,5 @@
+import { MessageType } from 'domains/messaging/message-model';
+import { makeConnectionType } from 'graphql/pagination';
+
+export const MessageConnectionType = makeConnectionType('MessageConnection', MessageType);
+export type  MessageConnectionType = InstanceType<typeof MessageConnectionType>;
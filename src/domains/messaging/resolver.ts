@@ -0,0 +1,199 @@
+import * as I from 'modules/interfaces';
+import {
+    MessageType,
+    Message,
+    MessageData,
+    MessageTryCrud,
+    MessagePaginator
+} from 'domains/messaging/message-model';
+import { Conversation } from 'domains/messaging/conversation-model';
+import { Match } from 'domains/social/match-model';
+import { UserType, User, UserTryCrud } from 'domains/users/model';
+import {
+    Resolver,
+    Query,
+    Arg,
+    Ctx,
+    Root,
+    Mutation,
+    Subscription,
+    FieldResolver,
+    Authorized,
+    PubSub,
+    PubSubEngine,
+    Int,
+    ResolverFilterData
+} from 'type-graphql';
+import { ResolveContext } from 'graphql/resolve-context';
+import { RateLimit } from 'graphql/rate-limit';
+import { toPublicCursorPaginateOptions } from 'graphql/pagination';
+import { Permission, hasPermission } from 'modules/permissions';
+import { reauthenticate } from 'modules/authentication';
+import { ForbiddenError } from 'modules/statused-error';
+import { SendMessageRequestType } from 'domains/messaging/send-message-request-type';
+import {
+    MessageCursorPaginateRequestType
+} from 'domains/messaging/message-paginate-request-type';
+import { MessageConnectionType } from 'domains/messaging/message-paginate-response-type';
+
+enum Topic {
+    MessageReceived = 'MESSAGE_RECEIVED',
+    Typing          = 'TYPING'
+}
+
+/**
+ * Payloads contain only ids, as they may be serialized by pub/sub adapters.
+ */
+interface MessageReceivedPayload {
+    messageId:   string;
+    recipientId: string;
+}
+
+interface TypingPayload {
+    userId:      string;
+    recipientId: string;
+}
+
+type SubscriptionFilterData = ResolverFilterData<{ recipientId: string }, {}, ResolveContext>;
+
+/**
+ * Subscriptions are authorized only on connection, so the session and the
+ * permissions of the recipient are rechecked for each event.
+ */
+const isAuthorizedRecipient = async ({ payload, context }: SubscriptionFilterData) => {
+    if (!context.user!._id.equals(payload.recipientId)) {
+        return false;
+    }
+    const recipient = await reauthenticate({ user: context.user!, sessionId: context.sessionId! });
+    return recipient != null && hasPermission(recipient.role, Permission.MessageRead);
+};
+
+
+@Resolver(_of => MessageType)
+export class MessagingResolver {
+
+    /**
+     * @throws ForbiddenError | RateLimitedError
+     * If the users are not matched or the current user sends messages too often.
+     */
+    @Authorized(Permission.MessageSend)
+    @RateLimit({ algorithm: 'token-bucket', limit: 30, window: 60, by: 'user' })
+    @Mutation(_type => MessageType)
+    async sendMessage(
+        @Ctx() {user}: ResolveContext,
+        @Arg('req') { userId, text }: SendMessageRequestType,
+        @PubSub() pubSub: PubSubEngine
+    ) {
+        await tryEnsureMatched(user!._id, userId);
+        const conversation = await Conversation.getOrCreateBetween(user!._id, userId);
+        const message = await Message.create({
+            conversation: conversation._id,
+            sender:       user!._id,
+            text
+        });
+        await Conversation.updateOne(
+            { _id: conversation._id }, { last_message_at: message.sent_at }
+        ).exec();
+        const payload: MessageReceivedPayload = {
+            messageId:   String(message._id),
+            recipientId: String(userId)
+        };
+        await pubSub.publish(Topic.MessageReceived, payload);
+        return message;
+    }
+
+    /**
+     * @throws ForbiddenError
+     * If the users are not matched.
+     */
+    @Authorized(Permission.MessageSend)
+    @Mutation(_type => Int, {
+        description: 'Marks all messages received from the user as read, ' +
+                     'returns the number of marked messages'
+    })
+    async markRead(@Ctx() {user}: ResolveContext, @Arg('userId') userId: I.ObjectId) {
+        await tryEnsureMatched(user!._id, userId);
+        const conversation = await Conversation.findBetween(user!._id, userId);
+        return conversation == null ? 0 : Message.markReadFrom(conversation._id, userId);
+    }
+
+    /**
+     * @throws ForbiddenError
+     * If the users are not matched.
+     */
+    @Authorized(Permission.MessageSend)
+    @Mutation(_type => Boolean, { description: 'Notifies the user, that a message is being typed' })
+    async notifyTyping(
+        @Ctx() {user}: ResolveContext,
+        @Arg('userId') userId: I.ObjectId,
+        @PubSub() pubSub: PubSubEngine
+    ) {
+        await tryEnsureMatched(user!._id, userId);
+        const payload: TypingPayload = {
+            userId:      String(user!._id),
+            recipientId: String(userId)
+        };
+        await pubSub.publish(Topic.Typing, payload);
+        return true;
+    }
+
+    /**
+     * @throws ForbiddenError
+     * If the users are not matched.
+     */
+    @Authorized(Permission.MessageRead)
+    @Query(_returns => MessageConnectionType, {
+        description: 'Returns messages of the conversation with the user, ' +
+                     'ordered by the time they were sent unless other sort order is specified'
+    })
+    async messages(
+        @Ctx() {user}: ResolveContext,
+        @Arg('userId') userId: I.ObjectId,
+        @Arg('req', _type => MessageCursorPaginateRequestType) req: MessageCursorPaginateRequestType
+    ): Promise<MessageConnectionType> {
+        await tryEnsureMatched(user!._id, userId);
+        const conversation = await Conversation.findBetween(user!._id, userId);
+        return MessagePaginator.paginateByCursor(
+            toPublicCursorPaginateOptions(req),
+            // there are no messages until the conversation is created
+            { filter: { conversation: conversation == null ? { $in: [] } : conversation._id } }
+        );
+    }
+
+    @Authorized(Permission.MessageRead)
+    @Subscription(_returns => MessageType, {
+        topics:      Topic.MessageReceived,
+        filter:      isAuthorizedRecipient,
+        description: 'Notifies about messages sent to the current user'
+    })
+    async messageReceived(@Root() { messageId }: MessageReceivedPayload) {
+        return MessageTryCrud.tryFindById(new I.ObjectId(messageId));
+    }
+
+    @Authorized(Permission.MessageRead)
+    @Subscription(_returns => UserType, {
+        topics:      Topic.Typing,
+        filter:      isAuthorizedRecipient,
+        description: 'Notifies about matched users typing a message to the current user'
+    })
+    async typing(@Root() { userId }: TypingPayload) {
+        return UserTryCrud.tryFindById(new I.ObjectId(userId));
+    }
+
+    @FieldResolver(_type => UserType)
+    async sender(@Ctx() {loaders}: ResolveContext, @Root() { sender }: MessageData) {
+        // messages of deleted users stay in the conversation until they are purged
+        return loaders.tryFindById(User, sender as I.ObjectId, { includeDeleted: true });
+    }
+
+}
+
+/**
+ * @throws ForbiddenError
+ * If the users are not matched.
+ */
+async function tryEnsureMatched(userId: I.ObjectId, partnerId: I.ObjectId) {
+    if (await Match.findOne({ user: userId, partner: partnerId }).select('_id').lean().exec() == null) {
+        throw new ForbiddenError('only matched users may talk to each other');
+    }
+}
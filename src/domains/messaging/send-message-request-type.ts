@@ -0,0 +1,21 @@
+import * as I from 'modules/interfaces';
+import {
+    Field,
+    InputType
+} from 'type-graphql';
+
+import { MessagePropLimits } from 'domains/messaging/message-model';
+import { LengthRange } from 'modules/decorators/length-range';
+
+
+@InputType()
+export class SendMessageRequestType {
+
+    @Field({ description: 'Id of the matched user to send the message to' })
+    userId!: I.ObjectId;
+
+    @Field()
+    @LengthRange(MessagePropLimits.TextLength)
+    text!: string;
+
+}
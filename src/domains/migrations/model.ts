@@ -0,0 +1,90 @@
+import * as Utils from "/modules/utils";
+import * as I from "/modules/interfaces";
+
+import { Typegoose, prop } from "typegoose";
+import { required, index, unique } from "/modules/flags";
+import { MigrationStore, AppliedMigration } from "/modules/migrations";
+import { isDuplicateKeyError } from "/modules/mongoose-utils/mongo-errors";
+
+/**
+ * Migration, that was applied to the database.
+ */
+export class MigrationType extends Typegoose {
+  @prop({ required, index, unique })
+  name!: string;
+
+  @prop({ required })
+  applied_at!: Date;
+}
+
+/**
+ * Lock, that is held while migrations are applied or reverted, there is
+ * at most one document with `MigrationLockName`.
+ */
+export class MigrationLockType extends Typegoose {
+  @prop({ required, index, unique })
+  name!: string;
+
+  @prop({ required })
+  owner!: string;
+
+  @prop({ required, expires: 0 }) // TTL index, MongoDB removes locks of crashed instances
+  expires_at!: Date;
+}
+
+export const Migration     = Utils.getModelFromTypegoose(MigrationType);
+export const MigrationLock = Utils.getModelFromTypegoose(MigrationLockType);
+
+export type Migration = InstanceType<MigrationModel>;
+export type MigrationModel = typeof Migration;
+export type MigrationData = I.TypegooseDocProps<MigrationType>;
+
+const MigrationLockName = "migrations";
+
+/**
+ * Keeps applied migrations in `Migration` collection and the lock in
+ * `MigrationLock` collection, so that concurrent server instances don't
+ * apply the same migrations.
+ */
+export class MongoMigrationStore implements MigrationStore {
+  async getApplied() {
+    const applied = await Migration
+      .find()
+      .sort({ name: 1 })
+      .lean()
+      .exec() as MigrationData[];
+    return applied.map(({ name, applied_at }): AppliedMigration => ({ name, appliedAt: applied_at }));
+  }
+
+  async markApplied({ name, appliedAt }: AppliedMigration) {
+    await Migration.updateOne(
+      { name }, { $set: { applied_at: appliedAt } }, { upsert: true }
+    ).exec();
+  }
+
+  async markReverted(name: string) {
+    await Migration.deleteOne({ name }).exec();
+  }
+
+  async tryLock(owner: string, ttl: number) {
+    const now = new Date;
+    try {
+      // matches only expired or own lock, otherwise the upsert violates unique index
+      await MigrationLock.updateOne(
+        { name: MigrationLockName, $or: [{ expires_at: { $lte: now } }, { owner }] },
+        { $set: { owner, expires_at: new Date(now.getTime() + ttl * 1000) } },
+        { upsert: true }
+      ).exec();
+      return true;
+    } catch (err) {
+      if (isDuplicateKeyError(err)) {
+        return false;
+      }
+      throw err;
+    }
+  }
+
+  async unlock(owner: string) {
+    await MigrationLock.deleteOne({ name: MigrationLockName, owner }).exec();
+  }
+}
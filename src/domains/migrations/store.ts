@@ -0,0 +1,16 @@
+import * as Config from 'config';
+import Mongoose from 'mongoose';
+import { Migrator, loadMigrations } from 'modules/migrations';
+import { MongoMigrationStore } from 'domains/migrations/model';
+
+export const migrationStore = new MongoMigrationStore;
+
+/**
+ * Returns `Migrator` of the migrations from `Config.Migrations.Dir`.
+ * Mongoose must be connected before running them.
+ */
+export function makeMigrator() {
+    return new Migrator(
+        migrationStore, Mongoose.connection, loadMigrations(Config.Migrations.Dir), Config.Migrations
+    );
+}
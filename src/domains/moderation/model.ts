@@ -0,0 +1,85 @@
+import * as Utils from "/modules/utils";
+import * as I from "/modules/interfaces";
+
+import { Typegoose, prop, index as compoundIndex, Ref } from "typegoose";
+import { Field, ObjectType, registerEnumType } from "type-graphql";
+import { required, index, nullable } from "/modules/flags";
+import { IntegerRange } from "/modules/integer-range";
+import { Paginator } from "/modules/mongoose-utils/paginate";
+import { registerPersonalDataHandler } from "/modules/personal-data";
+import { UserType } from "/domains/users/model";
+import { ReportType } from "/domains/reports/model";
+
+export namespace ModerationActionPropLimits {
+  export const NoteLength = new IntegerRange(0, 2001);
+}
+
+export enum ModerationActionKind {
+  DismissReport = "dismiss_report",
+  Warn          = "warn",
+  Suspend       = "suspend",
+  Ban           = "ban",
+  RemoveContent = "remove_content"
+}
+
+registerEnumType(ModerationActionKind, { name: "ModerationActionKind" });
+
+/**
+ * Audit trail record of the action taken by `moderator` against `user`.
+ */
+@compoundIndex({ user: 1, created_at: -1 })
+@ObjectType("ModerationAction")
+export class ModerationActionType extends Typegoose {
+  @Field()
+  @prop()
+  get id(this: ModerationAction): I.ObjectId {
+    // @ts-ignore
+    return this._id || this._doc._id;
+  }
+
+  @prop({ required, index, ref: UserType })
+  moderator!: Ref<UserType>; // exposed via field resolver
+
+  @prop({ required, ref: UserType })
+  user!: Ref<UserType>; // exposed via field resolver
+
+  @prop({ index, ref: ReportType })
+  report?: I.Maybe<Ref<ReportType>>; // exposed via field resolver
+
+  @Field(_type => ModerationActionKind)
+  @prop({ required, enum: Object.values(ModerationActionKind) })
+  kind!: ModerationActionKind;
+
+  @Field(_type => String, { nullable, description: "Explanation of the action" })
+  @prop()
+  note?: I.Maybe<string>;
+
+  @Field(_type => Date, { nullable, description: "End of the suspension for `Suspend` actions" })
+  @prop()
+  suspended_until?: I.Maybe<Date>;
+
+  @Field()
+  @prop({ required, default: Date.now })
+  created_at!: Date;
+}
+
+export const ModerationAction = Utils.getModelFromTypegoose(ModerationActionType);
+
+// actions taken by the user as a moderator are kept, as they are not about the user
+registerPersonalDataHandler("moderation_actions", {
+  export: async userId => ModerationAction
+    .find({ user: userId })
+    .select("-moderator -report -__v")
+    .lean()
+    .exec(),
+  erase: async userId => { await ModerationAction.deleteMany({ user: userId }).exec(); }
+});
+
+export const ModerationActionPaginator = new Paginator<ModerationActionData, ModerationAction>({
+  model:   ModerationAction,
+  aliases: { _id: "id" }
+});
+
+export type ModerationAction = InstanceType<ModerationActionModel>;
+export type ModerationActionModel = typeof ModerationAction;
+export type ModerationActionData = I.TypegooseDocProps<ModerationActionType>;
@@ -0,0 +1,16 @@
+import { ModerationActionPaginator } from 'domains/moderation/model';
+import { makeFieldsEnum, makePaginateInputTypes } from 'graphql/pagination';
+
+export const ModerationActionField = makeFieldsEnum(
+    'ModerationActionField',
+    ModerationActionPaginator.publicFields,
+    'Defines moderation action fields available for sorting and filtering'
+);
+
+export const {
+    PaginateInputType: ModerationActionPaginateRequestType
+} = makePaginateInputTypes('ModerationAction', ModerationActionField);
+
+export type ModerationActionPaginateRequestType = InstanceType<
+    typeof ModerationActionPaginateRequestType
+>;
@@ -0,0 +1,9 @@
+import { ModerationActionType } from 'domains/moderation/model';
+import { makePaginatedType } from 'graphql/pagination';
+
+export const ModerationActionPaginateResponseType = makePaginatedType(
+    'ModerationActionPage', ModerationActionType
+);
+export type ModerationActionPaginateResponseType = InstanceType<
+    typeof ModerationActionPaginateResponseType
+>;
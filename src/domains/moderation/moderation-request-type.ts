@@ -0,0 +1,33 @@
+import * as I from 'modules/interfaces';
+import {
+    Field,
+    InputType
+} from 'type-graphql';
+import { IsOptional } from 'class-validator';
+
+import { ModerationActionPropLimits } from 'domains/moderation/model';
+import { LengthRange } from 'modules/decorators/length-range';
+import { nullable    } from 'modules/flags';
+
+
+/**
+ * Defines common options of moderation actions against the user.
+ */
+@InputType()
+export class ModerationRequestType {
+
+    @Field({ description: 'Id of the user to take the action against' })
+    userId!: I.ObjectId;
+
+    @Field(_type => I.ObjectId, {
+        nullable,
+        description: 'Id of the open report about the user, that is resolved by the action'
+    })
+    reportId?: I.Maybe<I.ObjectId>;
+
+    @Field(_type => String, { nullable, description: 'Explanation of the action' })
+    @IsOptional()
+    @LengthRange(ModerationActionPropLimits.NoteLength)
+    note?: I.Maybe<string>;
+
+}
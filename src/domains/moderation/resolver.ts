@@ -0,0 +1,275 @@
+import _ from 'lodash';
+import * as I from 'modules/interfaces';
+import {
+    ModerationActionType,
+    ModerationAction,
+    ModerationActionData,
+    ModerationActionKind,
+    ModerationActionPaginator
+} from 'domains/moderation/model';
+import {
+    ReportType,
+    Report,
+    ReportData,
+    ReportStatus,
+    ReportTargetType,
+    ReportTryCrud,
+    ReportResolvedError
+} from 'domains/reports/model';
+import { UserType, User, UserTryCrud } from 'domains/users/model';
+import { Session } from 'domains/sessions/model';
+import { Photo } from 'domains/photos/model';
+import { Message } from 'domains/messaging/message-model';
+import {
+    Resolver,
+    Query,
+    Arg,
+    Ctx,
+    Root,
+    Mutation,
+    FieldResolver,
+    Authorized
+} from 'type-graphql';
+import { ResolveContext } from 'graphql/resolve-context';
+import { Restricted } from 'graphql/auth-checker';
+import { Audited, auditMutation } from 'graphql/audit';
+import { toPublicPaginateOptions, SortOrder } from 'graphql/pagination';
+import { Permission } from 'modules/permissions';
+import { BadRequestError } from 'modules/statused-error';
+import { nullable } from 'modules/flags';
+import { ModerationRequestType } from 'domains/moderation/moderation-request-type';
+import {
+    ModerationActionPaginateRequestType
+} from 'domains/moderation/moderation-action-paginate-request-type';
+import {
+    ModerationActionPaginateResponseType
+} from 'domains/moderation/moderation-action-paginate-response-type';
+
+
+@Resolver(_of => ModerationActionType)
+export class ModerationResolver {
+
+    /**
+     * @throws IdNotFoundError | ReportResolvedError
+     * If there is no such report or it is not open.
+     */
+    @Authorized(Permission.ReportManage)
+    @Audited({ action: 'report.dismiss', targetModel: Report.modelName, getTargetId: ({args}) => args.id })
+    @Mutation(_type => ModerationActionType, { description: 'Closes the report without any action' })
+    async dismissReport(
+        @Ctx() {user}: ResolveContext,
+        @Arg('id') id: I.ObjectId,
+        @Arg('note', _type => String, { nullable }) note: I.Maybe<string>
+    ) {
+        const report = await Report.tryClose(id, ReportStatus.Dismissed);
+        return ModerationAction.create({
+            moderator: user!._id,
+            user:      report.reported,
+            report:    id,
+            kind:      ModerationActionKind.DismissReport,
+            note
+        });
+    }
+
+    /**
+     * @throws IdNotFoundError | BadRequestError | ReportResolvedError
+     * If there is no such user or report, the report is about another user
+     * or is not open.
+     */
+    @Authorized(Permission.UserModerate)
+    @Audited({ action: 'user.warn', targetModel: User.modelName, getTargetId: ({args}) => args.req.userId })
+    @Mutation(_type => ModerationActionType, { description: 'Warning is visible to the user' })
+    async warnUser(@Ctx() {user}: ResolveContext, @Arg('req') req: ModerationRequestType) {
+        await tryPrepareAction(req);
+        return resolveReportOf(await ModerationAction.create({
+            ...toActionProps(user!._id, req), kind: ModerationActionKind.Warn
+        }));
+    }
+
+    /**
+     * @throws IdNotFoundError | BadRequestError | ReportResolvedError
+     * If there is no such user or report, the report is about another user
+     * or is not open, or `until` is not in the future.
+     */
+    @Authorized(Permission.UserModerate)
+    @Mutation(_type => ModerationActionType, {
+        description: 'Revokes all sessions of the user and rejects logins until the given time'
+    })
+    async suspendUser(
+        @Ctx() context: ResolveContext,
+        @Arg('req') req: ModerationRequestType,
+        @Arg('until') until: Date
+    ) {
+        if (until <= new Date) {
+            throw new BadRequestError('suspension must end in the future');
+        }
+        await tryPrepareAction(req);
+        await UserTryCrud.tryUpdateById(
+            req.userId, { suspended_until: until }, auditMutation(context, 'user.suspend')
+        );
+        await Session.revokeAllOf(req.userId);
+        await User.syncHiddenUntil(req.userId);
+        return resolveReportOf(await ModerationAction.create({
+            ...toActionProps(context.user!._id, req),
+            kind:            ModerationActionKind.Suspend,
+            suspended_until: until
+        }));
+    }
+
+    /**
+     * @throws IdNotFoundError | BadRequestError | ReportResolvedError
+     * If there is no such user or report, the report is about another user
+     * or is not open.
+     */
+    @Authorized(Permission.UserModerate)
+    @Mutation(_type => ModerationActionType, {
+        description: 'Revokes all sessions of the user and rejects logins forever'
+    })
+    async banUser(@Ctx() context: ResolveContext, @Arg('req') req: ModerationRequestType) {
+        await tryPrepareAction(req);
+        await UserTryCrud.tryUpdateById(req.userId, { banned: true }, auditMutation(context, 'user.ban'));
+        await Session.revokeAllOf(req.userId);
+        await User.syncHiddenUntil(req.userId);
+        return resolveReportOf(await ModerationAction.create({
+            ...toActionProps(context.user!._id, req), kind: ModerationActionKind.Ban
+        }));
+    }
+
+    /**
+     * @throws IdNotFoundError | BadRequestError | ReportResolvedError
+     * If there is no such report, it is not about a photo or a message or
+     * it is not open.
+     */
+    @Authorized(Permission.UserModerate)
+    @Audited({
+        action:      'report.remove_content',
+        targetModel: Report.modelName,
+        getTargetId: ({args}) => args.reportId
+    })
+    @Mutation(_type => ModerationActionType, {
+        description: 'Deletes the reported photo or message and resolves the report'
+    })
+    async removeContent(
+        @Ctx() {user}: ResolveContext,
+        @Arg('reportId') reportId: I.ObjectId,
+        @Arg('note', _type => String, { nullable }) note: I.Maybe<string>
+    ) {
+        const { type, status, photo, message }: ReportData = await ReportTryCrud.tryFindById(reportId);
+        if (type === ReportTargetType.User) {
+            throw new BadRequestError('report is not about a photo or a message');
+        }
+        if (status !== ReportStatus.Open) {
+            throw new ReportResolvedError(reportId);
+        }
+        if (photo != null) {
+            await Photo.tryDeleteById(photo as I.ObjectId).catch(_.noop); // may be already deleted
+        }
+        if (message != null) {
+            await Message.deleteOne({ _id: message }).exec();
+        }
+        const report = await Report.tryClose(reportId, ReportStatus.Resolved);
+        return ModerationAction.create({
+            moderator: user!._id,
+            user:      report.reported,
+            report:    reportId,
+            kind:      ModerationActionKind.RemoveContent,
+            note
+        });
+    }
+
+    @Authorized(Permission.ReportManage)
+    @Query(_returns => ModerationActionPaginateResponseType, {
+        description: 'Returns the audit trail of moderation actions, the newest ones go first, ' +
+                     'unless other sort order is specified'
+    })
+    async moderationActions(
+        @Arg('req', _type => ModerationActionPaginateRequestType) req: ModerationActionPaginateRequestType
+    ): Promise<ModerationActionPaginateResponseType> {
+        const options = toPublicPaginateOptions(req);
+        return ModerationActionPaginator.paginate(
+            _.isEmpty(options.sort) ? { ...options, sort: { created_at: SortOrder.Desc } } : options
+        );
+    }
+
+    @Authorized()
+    @Query(_returns => [ModerationActionType], { description: 'Returns warnings of the current user' })
+    async myWarnings(@Ctx() {user}: ResolveContext) {
+        return ModerationAction
+            .find({ user: user!._id, kind: ModerationActionKind.Warn })
+            .sort({ created_at: -1 })
+            .lean()
+            .exec();
+    }
+
+    @FieldResolver(_type => UserType, {
+        nullable,
+        description: 'Visible only with `report:manage` permission'
+    })
+    @Restricted(Permission.ReportManage)
+    async moderator(@Ctx() {loaders}: ResolveContext, @Root() { moderator }: ModerationActionData) {
+        return loaders.tryFindById(User, moderator as I.ObjectId, { includeDeleted: true });
+    }
+
+    @FieldResolver(_type => UserType)
+    async user(@Ctx() {loaders}: ResolveContext, @Root() { user }: ModerationActionData) {
+        return loaders.tryFindById(User, user as I.ObjectId, { includeDeleted: true });
+    }
+
+    @FieldResolver(_type => ReportType, {
+        nullable,
+        description: 'Visible only with `report:manage` permission'
+    })
+    @Restricted(Permission.ReportManage)
+    async report(@Ctx() {loaders}: ResolveContext, @Root() { report }: ModerationActionData) {
+        return report == null ? null : loaders.byId(Report).load(report as I.ObjectId);
+    }
+
+}
+
+/**
+ * Ensures the target user exists and the report, if it is specified,
+ * is open and is about the user.
+ *
+ * @throws IdNotFoundError | BadRequestError | ReportResolvedError
+ * If there is no such user or report, the report is about another user
+ * or is not open.
+ */
+async function tryPrepareAction({ userId, reportId }: ModerationRequestType) {
+    await UserTryCrud.tryFindById(userId);
+    if (reportId == null) {
+        return;
+    }
+    const report: ReportData = await ReportTryCrud.tryFindById(reportId);
+    if (!userId.equals(report.reported as I.ObjectId)) {
+        throw new BadRequestError(`report '${reportId}' is about another user`);
+    }
+    if (report.status !== ReportStatus.Open) {
+        throw new ReportResolvedError(reportId);
+    }
+}
+
+/**
+ * Resolves the report of the action if it is specified, it is called once
+ * the action is applied and recorded, so that the report stays open if the
+ * action failed. If the report was closed by another moderator in the meantime,
+ * the applied action stays recorded without the report. Returns the action.
+ */
+async function resolveReportOf(action: ModerationAction) {
+    if (action.report == null) {
+        return action;
+    }
+    try {
+        await Report.tryClose(action.report as I.ObjectId, ReportStatus.Resolved);
+    } catch (err) {
+        if (!(err instanceof ReportResolvedError)) {
+            throw err;
+        }
+        action.report = null;
+        await action.save();
+    }
+    return action;
+}
+
+function toActionProps(moderatorId: I.ObjectId, { userId, reportId, note }: ModerationRequestType) {
+    return { moderator: moderatorId, user: userId, report: reportId, note };
+}
@@ -0,0 +1,84 @@
+import * as Utils from "/modules/utils";
+import * as I from "/modules/interfaces";
+
+import { Typegoose, prop } from "typegoose";
+import { required, index, unique } from "/modules/flags";
+import { PersistedQueryStore } from "/modules/persisted-queries";
+
+/**
+ * Query, that is registered by automatic persisted queries or loaded from
+ * the manifest, along with its usage counter.
+ */
+export class PersistedQueryType extends Typegoose {
+  @prop({ required, index, unique })
+  hash!: string;
+
+  @prop({ required })
+  query!: string;
+
+  @prop()
+  operation_name?: I.Maybe<string>;
+
+  @prop({ required, default: 0 })
+  usage_count!: number;
+
+  @prop()
+  last_used_at?: I.Maybe<Date>;
+}
+
+export const PersistedQuery = Utils.getModelFromTypegoose(PersistedQueryType);
+
+export type PersistedQuery = InstanceType<PersistedQueryModel>;
+export type PersistedQueryModel = typeof PersistedQuery;
+export type PersistedQueryData = I.TypegooseDocProps<PersistedQueryType>;
+
+/**
+ * Keeps queries in `PersistedQuery` collection, it is suitable for
+ * multi-instance deployments.
+ */
+export class MongoPersistedQueryStore implements PersistedQueryStore {
+  async get(hash: string) {
+    const persisted = await PersistedQuery
+      .findOne({ hash })
+      .select("query")
+      .lean()
+      .exec() as I.Maybe<PersistedQueryData>;
+    return persisted == null ? null : persisted.query;
+  }
+
+  async set(hash: string, query: string, operationName?: I.Maybe<string>) {
+    await PersistedQuery.updateOne(
+      { hash },
+      { $set: { query, ...(operationName == null ? {} : { operation_name: operationName }) } },
+      { upsert: true }
+    ).exec();
+  }
+
+  async recordUsage(hash: string, operationName: I.Maybe<string>) {
+    await PersistedQuery.updateOne(
+      { hash },
+      { $inc: { usage_count: 1 }, $set: { last_used_at: new Date } }
+    ).exec();
+    if (operationName != null) {
+      await PersistedQuery.updateOne(
+        { hash, operation_name: null },
+        { $set: { operation_name: operationName } }
+      ).exec();
+    }
+  }
+
+  async getUsage() {
+    const persisted = await PersistedQuery
+      .find()
+      .select("hash operation_name usage_count last_used_at")
+      .sort({ usage_count: -1 })
+      .lean()
+      .exec() as PersistedQueryData[];
+    return persisted.map(({ hash, operation_name, usage_count, last_used_at }) => ({
+      hash,
+      operationName: operation_name,
+      count:         usage_count,
+      lastUsedAt:    last_used_at
+    }));
+  }
+}
@@ -0,0 +1,23 @@
+import * as I from 'modules/interfaces';
+import {
+    Field,
+    Int,
+    ObjectType
+} from 'type-graphql';
+import { nullable } from 'modules/flags';
+
+
+@ObjectType('OperationUsage', { description: 'Usage counter of the persisted operation' })
+export class OperationUsageType {
+    @Field({ description: 'SHA-256 hash of the operation text' })
+    hash!: string;
+
+    @Field(_type => String, { nullable })
+    operationName?: I.Maybe<string>;
+
+    @Field(_type => Int)
+    count!: number;
+
+    @Field(_type => Date, { nullable })
+    lastUsedAt?: I.Maybe<Date>;
+}
@@ -0,0 +1,22 @@
+import {
+    Resolver,
+    Query,
+    Authorized
+} from 'type-graphql';
+import { Permission } from 'modules/permissions';
+import { persistedQueryStore } from 'domains/persisted-queries/store';
+import { OperationUsageType } from 'domains/persisted-queries/operation-usage-type';
+
+
+@Resolver()
+export class PersistedQueryResolver {
+
+    @Authorized(Permission.MetricsRead)
+    @Query(_returns => [OperationUsageType], {
+        description: 'Returns usage counters of persisted operations, the most used ones go first'
+    })
+    async operationUsage(): Promise<OperationUsageType[]> {
+        return persistedQueryStore.getUsage();
+    }
+
+}
@@ -0,0 +1,15 @@
+import * as Config from 'config';
+import { PersistedQueryStore, MemoryPersistedQueryStore } from 'modules/persisted-queries';
+import { MongoPersistedQueryStore } from 'domains/persisted-queries/model';
+
+function makeStore(): PersistedQueryStore {
+    switch (Config.PersistedQueries.Store) {
+        case 'memory': return new MemoryPersistedQueryStore;
+        case 'mongo':  return new MongoPersistedQueryStore;
+        default: throw new Error(
+            `unknown persisted queries store '${Config.PersistedQueries.Store}'`
+        );
+    }
+}
+
+export const persistedQueryStore = makeStore();
@@ -0,0 +1,14 @@
+import {
+    Field,
+    ObjectType
+} from 'type-graphql';
+
+
+@ObjectType('DataExport')
+export class DataExportResponseType {
+    @Field({ description: 'Relative url of the JSON archive, it requires no authorization header' })
+    url!: string;
+
+    @Field()
+    expires_at!: Date;
+}
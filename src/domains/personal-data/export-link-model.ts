@@ -0,0 +1,85 @@
+import * as Config from "/config";
+import * as Crypto from "crypto";
+import * as Utils from "/modules/utils";
+import * as I from "/modules/interfaces";
+
+import { Typegoose, prop, staticMethod, Ref } from "typegoose";
+import { required, index, unique } from "/modules/flags";
+import { UnAuthorizedError } from "/modules/statused-error";
+import { registerPersonalDataHandler } from "/modules/personal-data";
+import { UserType } from "/domains/users/model";
+
+/**
+ * One-time link to download personal data of the user. Only the hash of its
+ * token is stored, and the token is useless once the link was followed, so
+ * it may appear in access logs.
+ */
+export class DataExportLinkType extends Typegoose {
+  @prop({ required, index, unique })
+  token_hash!: string; // sha256 of the raw token
+
+  @prop({ required, index, ref: UserType })
+  user!: Ref<UserType>;
+
+  @prop({ required, expires: 0 }) // TTL index, MongoDB removes expired links
+  expires_at!: Date;
+
+  /**
+   * Creates the link for the user, that expires after
+   * `Config.DataExport.LinkExpirationTime`.
+   * Returns url of the link and its expiration date.
+   *
+   * @param userId Id of the user to export data of.
+   */
+  @staticMethod
+  static async issue(this: DataExportLinkModel, userId: I.ObjectId) {
+    const token = Crypto.randomBytes(24).toString("hex");
+    const link = await DataExportLink.create({
+      token_hash: hashToken(token),
+      user:       userId,
+      expires_at: new Date(Date.now() + Config.DataExport.LinkExpirationTime * 1000)
+    });
+    return {
+      url:        `${Config.DataExport.UrlPath}?token=${token}`,
+      expires_at: link.expires_at
+    };
+  }
+
+  /**
+   * Removes the link, so that it can't be followed again.
+   * Returns id of the user, that the link was issued for.
+   *
+   * @param token `token` query parameter of the link made by `issue()`.
+   *
+   * @throws UnAuthorizedError
+   * If there is no token, or the link was already followed or expired.
+   */
+  @staticMethod
+  static async tryRedeem(this: DataExportLinkModel, token: unknown) {
+    if (typeof token !== "string") {
+      throw new UnAuthorizedError("export link has no token");
+    }
+    const link = await DataExportLink.findOneAndDelete({
+      token_hash: hashToken(token),
+      expires_at: { $gt: new Date }
+    }).lean().exec() as I.Maybe<DataExportLinkData>;
+    if (link == null) {
+      throw new UnAuthorizedError("export link is invalid, expired or was already used");
+    }
+    return link.user as I.ObjectId;
+  }
+}
+
+function hashToken(token: string) {
+  return Crypto.createHash("sha256").update(token).digest("hex");
+}
+
+export const DataExportLink = Utils.getModelFromTypegoose(DataExportLinkType);
+
+export type DataExportLink = InstanceType<DataExportLinkModel>;
+export type DataExportLinkModel = typeof DataExportLink;
+export type DataExportLinkData = I.TypegooseDocProps<DataExportLinkType>;
+
+registerPersonalDataHandler("data_export_links", {
+  erase: async userId => { await DataExportLink.deleteMany({ user: userId }).exec(); }
+});
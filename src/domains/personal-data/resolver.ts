@@ -0,0 +1,59 @@
+import { User } from 'domains/users/model';
+import { Session } from 'domains/sessions/model';
+import { AuditEvent } from 'domains/audit/model';
+import { DataExportLink } from 'domains/personal-data/export-link-model';
+import {
+    Resolver,
+    Arg,
+    Ctx,
+    Mutation,
+    Authorized
+} from 'type-graphql';
+import { ResolveContext } from 'graphql/resolve-context';
+import { recordAuditEvent } from 'graphql/audit';
+import { RateLimit } from 'graphql/rate-limit';
+import { ForbiddenError } from 'modules/statused-error';
+import { erasePersonalData } from 'modules/personal-data';
+import { DataExportResponseType } from 'domains/personal-data/data-export-response-type';
+
+
+@Resolver()
+export class PersonalDataResolver {
+
+    @Authorized()
+    @RateLimit({ algorithm: 'sliding-window', limit: 5, window: 24 * 60 * 60, by: 'user' })
+    @Mutation(_type => DataExportResponseType, {
+        description: 'Returns short-lived one-time link to the JSON archive with all data ' +
+                     'of the current user'
+    })
+    async exportMyData(@Ctx() context: ResolveContext): Promise<DataExportResponseType> {
+        const { user } = context;
+        await recordAuditEvent(context, {
+            action: 'user.export_data', targetModel: User.modelName, targetId: user!._id
+        });
+        return DataExportLink.issue(user!._id);
+    }
+
+    /**
+     * @throws ForbiddenError
+     * If `password` is invalid.
+     */
+    @Authorized()
+    @Mutation(_type => Boolean, {
+        description: 'Revokes all sessions of the current user and permanently removes ' +
+                     'or anonymises all their data'
+    })
+    async deleteMyAccount(@Ctx() {user}: ResolveContext, @Arg('password') password: string) {
+        if (await User.findByCredentials({ username: user!.username, password }) == null) {
+            throw new ForbiddenError('password is invalid');
+        }
+        await Session.revokeAllOf(user!._id);
+        await erasePersonalData(user!._id);
+        // neither actor nor IP is recorded, as they are personal data too
+        await AuditEvent.record({
+            action: 'user.erase', targetModel: User.modelName, targetId: user!._id
+        });
+        return true;
+    }
+
+}
@@ -0,0 +1,242 @@
+import _ from "lodash";
+import * as Crypto from "crypto";
+import * as Config from "/config";
+import * as Utils from "/modules/utils";
+import * as I from "/modules/interfaces";
+
+import { Typegoose, prop, staticMethod, index as compoundIndex, Ref } from "typegoose";
+import { Field, ObjectType, Int, registerEnumType } from "type-graphql";
+import { required, index } from "/modules/flags";
+import { TryCrud } from "/modules/mongoose-utils/try-crud";
+import { Paginator } from "/modules/mongoose-utils/paginate";
+import { BadRequestError } from "/modules/statused-error";
+import { getImageInfo } from "/modules/image-info";
+import { makeMediaStorage } from "/modules/media-storage";
+import { registerPersonalDataHandler } from "/modules/personal-data";
+import { UserType, User } from "/domains/users/model";
+
+export enum PhotoModerationStatus {
+  Pending  = "pending",
+  Approved = "approved",
+  Rejected = "rejected"
+}
+
+registerEnumType(PhotoModerationStatus, {
+  name: "PhotoModerationStatus",
+  description: "Only approved photos are visible to users other than the owner"
+});
+
+const FileExtensions: Readonly<Record<string, string>> = {
+  "image/jpeg": "jpg",
+  "image/png":  "png",
+  "image/webp": "webp"
+};
+
+export const mediaStorage = makeMediaStorage();
+
+@compoundIndex({ user: 1, position: 1 })
+@ObjectType("Photo")
+export class PhotoType extends Typegoose {
+  @Field()
+  @prop()
+  get id(this: Photo): I.ObjectId {
+    // @ts-ignore
+    return this._id || this._doc._id;
+  }
+
+  @prop({ required, ref: UserType })
+  user!: Ref<UserType>;
+
+  @prop({ required, index })
+  key!: string; // media storage key, exposed as url via field resolver
+
+  @Field()
+  @prop({ required })
+  content_type!: string;
+
+  @Field(_type => Int)
+  @prop({ required })
+  width!: number;
+
+  @Field(_type => Int)
+  @prop({ required })
+  height!: number;
+
+  @Field(_type => Int, { description: "Size of the file in bytes" })
+  @prop({ required })
+  size!: number;
+
+  @Field(_type => Int, { description: "0-based position among the photos of the owner" })
+  @prop({ required })
+  position!: number;
+
+  @Field(_type => PhotoModerationStatus)
+  @prop({
+    required,
+    index,
+    enum:    Object.values(PhotoModerationStatus),
+    default: PhotoModerationStatus.Pending
+  })
+  moderation_status!: PhotoModerationStatus;
+
+  @Field()
+  @prop({ required, default: Date.now })
+  uploaded_at!: Date;
+
+  /**
+   * Saves the image to the media storage and appends it to the photos of
+   * the user. Returns the created photo. The photo is counted in
+   * `photo_count` of the user beforehand, so that concurrent uploads can't
+   * exceed the limit.
+   *
+   * @param userId      Id of the photo owner.
+   * @param data        Contents of the image file.
+   * @param contentType MIME type of the file, declared by the client.
+   *
+   * @throws BadRequestError
+   * If the user has too many photos, the content type is not allowed or doesn't
+   * match the file contents, or the image dimensions are out of the limits.
+   */
+  @staticMethod
+  static async tryCreateOf(this: PhotoModel, userId: I.ObjectId, data: Buffer, contentType: string) {
+    const { MaxCount, ContentTypes, MinDimension, MaxDimension } = Config.Photos;
+    if (!ContentTypes.includes(contentType)) {
+      throw new BadRequestError(`content type must be one of: ${ContentTypes.join(", ")}`);
+    }
+    const image = getImageInfo(data);
+    if (image == null || image.contentType !== contentType) {
+      throw new BadRequestError(`file contents don't match '${contentType}' content type`);
+    }
+    if ([image.width, image.height].some(dim => dim < MinDimension || dim > MaxDimension)) {
+      throw new BadRequestError(
+        `image width and height must be from ${MinDimension} to ${MaxDimension} pixels`
+      );
+    }
+    const owner: I.Maybe<Pick<UserType, "photo_count">> = await User
+      .findOneAndUpdate(
+        { _id: userId, photo_count: { $lt: MaxCount } },
+        { $inc: { photo_count: 1 } },
+        { new: true }
+      )
+      .select("photo_count")
+      .lean()
+      .exec();
+    if (owner == null) {
+      throw new BadRequestError(`user may have at most ${MaxCount} photos`);
+    }
+    const key = `photos/${userId}/${Crypto.randomBytes(16).toString("hex")}.${FileExtensions[contentType]}`;
+    return mediaStorage
+      .save(key, data, contentType)
+      .then(() => Photo.create({
+        user:         userId,
+        key,
+        content_type: contentType,
+        width:        image.width,
+        height:       image.height,
+        size:         data.length,
+        // concurrent deletions may leave a gap before it, which doesn't break the order
+        position:     owner.photo_count - 1
+      }))
+      .catch(async (err: unknown) => {
+        await mediaStorage.remove(key);
+        await User.updateOne({ _id: userId }, { $inc: { photo_count: -1 } }).exec();
+        throw err;
+      });
+  }
+
+  /**
+   * Sets the order of the user's photos. Returns the reordered photos.
+   *
+   * @param userId   Id of the photos owner.
+   * @param photoIds Ids of all the user's photos in the desired order.
+   *
+   * @throws BadRequestError
+   * If `photoIds` doesn't contain all the user's photos exactly once.
+   */
+  @staticMethod
+  static async tryReorderOf(this: PhotoModel, userId: I.ObjectId, photoIds: I.ObjectId[]) {
+    const photos: Array<{ _id: I.ObjectId }> = await Photo
+      .find({ user: userId })
+      .select("_id")
+      .lean()
+      .exec();
+    const toStrings = (ids: I.ObjectId[]) => ids.map(String).sort();
+    if (!_.isEqual(toStrings(photos.map(photo => photo._id)), toStrings(photoIds))) {
+      throw new BadRequestError("ids of all user's photos must be specified exactly once");
+    }
+    if (photoIds.length > 0) {
+      await Photo.bulkWrite(photoIds.map((_id, position) => ({
+        updateOne: { filter: { _id }, update: { position } }
+      })));
+    }
+    return Photo.findOrderedOf(userId);
+  }
+
+  /**
+   * Deletes the photo from the database and the media storage, positions of
+   * the next photos of the owner are shifted. Returns the deleted photo.
+   *
+   * @throws IdNotFoundError
+   * If there is no such photo.
+   */
+  @staticMethod
+  static async tryDeleteById(this: PhotoModel, id: I.ObjectId) {
+    const photo: PhotoData = await PhotoTryCrud.tryFindById(id);
+    const { n } = await Photo.deleteOne({ _id: id }).exec();
+    // it may be deleted concurrently, which must not release its count twice
+    if (n === 1) {
+      await Photo.updateMany(
+        { user: photo.user, position: { $gt: photo.position } },
+        { $inc: { position: -1 } }
+      ).exec();
+      await User.updateOne({ _id: photo.user }, { $inc: { photo_count: -1 } }).exec();
+    }
+    await mediaStorage.remove(photo.key);
+    return photo;
+  }
+
+  /**
+   * Returns photos of the user ordered by position.
+   *
+   * @param userId       Id of the photos owner.
+   * @param onlyApproved Whether to return only approved photos.
+   */
+  @staticMethod
+  static async findOrderedOf(this: PhotoModel, userId: I.ObjectId, onlyApproved = false) {
+    return Photo
+      .find({
+        user: userId,
+        ...(onlyApproved ? { moderation_status: PhotoModerationStatus.Approved } : {})
+      })
+      .sort({ position: 1 })
+      .lean()
+      .exec() as Promise<PhotoData[]>;
+  }
+}
+
+export const Photo = Utils.getModelFromTypegoose(PhotoType);
+
+export const PhotoTryCrud = new TryCrud(Photo);
+
+export const PhotoPaginator = new Paginator<PhotoData, Photo>({
+  model:   Photo,
+  aliases: { _id: "id" },
+  hidden:  ["key"]
+});
+
+export type Photo = InstanceType<PhotoModel>;
+export type PhotoModel = typeof Photo;
+export type PhotoData = I.TypegooseDocProps<PhotoType>;
+
+registerPersonalDataHandler("photos", {
+  export: async userId => (await Photo.findOrderedOf(userId)).map(({ key, ...photo }) => ({
+    ...photo, url: mediaStorage.getUrl(key)
+  })),
+  erase: async userId => {
+    for (const { key } of await Photo.findOrderedOf(userId)) {
+      await mediaStorage.remove(key);
+    }
+    await Photo.deleteMany({ user: userId }).exec();
+    await User.updateOne({ _id: userId }, { photo_count: 0 }).exec();
+  }
+});
@@ -0,0 +1,14 @@
+import { PhotoPaginator } from 'domains/photos/model';
+import { makeFieldsEnum, makePaginateInputTypes } from 'graphql/pagination';
+
+export const PhotoField = makeFieldsEnum(
+    'PhotoField',
+    PhotoPaginator.publicFields,
+    'Defines photo fields available for sorting and filtering'
+);
+
+export const {
+    PaginateInputType: PhotoPaginateRequestType
+} = makePaginateInputTypes('Photo', PhotoField);
+
+export type PhotoPaginateRequestType = InstanceType<typeof PhotoPaginateRequestType>;
@@ -0,0 +1,5 @@
+import { PhotoType } from 'domains/photos/model';
+import { makePaginatedType } from 'graphql/pagination';
+
+export const PhotoPaginateResponseType = makePaginatedType('PhotoPage', PhotoType);
+export type  PhotoPaginateResponseType = InstanceType<typeof PhotoPaginateResponseType>;
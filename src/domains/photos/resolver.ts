@@ -0,0 +1,123 @@
+import * as Config from 'config';
+import * as I from 'modules/interfaces';
+import {
+    PhotoType,
+    Photo,
+    PhotoData,
+    PhotoTryCrud,
+    PhotoPaginator,
+    PhotoModerationStatus,
+    mediaStorage
+} from 'domains/photos/model';
+import { UserType, User } from 'domains/users/model';
+import {
+    Resolver,
+    Query,
+    Arg,
+    Ctx,
+    Root,
+    Mutation,
+    FieldResolver,
+    Authorized
+} from 'type-graphql';
+import { ResolveContext } from 'graphql/resolve-context';
+import { AuthorizedOwner } from 'graphql/auth-checker';
+import { toPublicPaginateOptions } from 'graphql/pagination';
+import { auditMutation, recordAuditEvent } from 'graphql/audit';
+import { GqlUploadScalar, FileUpload, readUpload } from 'graphql/upload';
+import { Permission } from 'modules/permissions';
+import { PhotoPaginateRequestType } from 'domains/photos/photo-paginate-request-type';
+import { PhotoPaginateResponseType } from 'domains/photos/photo-paginate-response-type';
+
+
+@Resolver(_of => PhotoType)
+export class PhotoResolver {
+
+    @Authorized(Permission.PhotoUpdateSelf)
+    @Query(_returns => [PhotoType], { description: 'Returns photos of the current user ordered by position' })
+    async myPhotos(@Ctx() {user}: ResolveContext) {
+        return Photo.findOrderedOf(user!._id);
+    }
+
+    @Authorized(Permission.PhotoModerate)
+    @Query(_returns => PhotoPaginateResponseType)
+    async photos(
+        @Arg('req', _type => PhotoPaginateRequestType) req: PhotoPaginateRequestType
+    ): Promise<PhotoPaginateResponseType> {
+        return PhotoPaginator.paginate(toPublicPaginateOptions(req));
+    }
+
+    /**
+     * @throws BadRequestError
+     * If the file is too large, is not an allowed image, the image dimensions
+     * are out of the limits or the user has too many photos.
+     */
+    @Authorized(Permission.PhotoUpdateSelf)
+    @Mutation(_type => PhotoType, {
+        description: 'Appends the photo to the current user\'s ones, it is visible to ' +
+                     'other users only after it is approved by moderators'
+    })
+    async uploadPhoto(
+        @Ctx() {user}: ResolveContext,
+        @Arg('file', _type => GqlUploadScalar) file: Promise<FileUpload>
+    ) {
+        const upload = await file;
+        const data   = await readUpload(upload, Config.Photos.MaxFileSize);
+        return Photo.tryCreateOf(user!._id, data, upload.mimetype);
+    }
+
+    /**
+     * @throws BadRequestError
+     * If `ids` doesn't contain all the user's photos exactly once.
+     */
+    @Authorized(Permission.PhotoUpdateSelf)
+    @Mutation(_type => [PhotoType])
+    async reorderPhotos(
+        @Ctx() {user}: ResolveContext,
+        @Arg('ids', _type => [I.ObjectId], { description: 'Ids of all the user\'s photos in the new order' })
+        ids: I.ObjectId[]
+    ) {
+        return Photo.tryReorderOf(user!._id, ids);
+    }
+
+    @AuthorizedOwner({
+        any:        Permission.PhotoModerate,
+        own:        Permission.PhotoUpdateSelf,
+        getOwnerId: async ({args}) => {
+            const photo: I.Maybe<PhotoData> = await Photo.findById(args.id).lean().exec();
+            return photo == null ? null : photo.user as I.ObjectId;
+        }
+    })
+    @Mutation(_type => PhotoType)
+    async deletePhoto(@Ctx() context: ResolveContext, @Arg('id') id: I.ObjectId) {
+        const photo = await Photo.tryDeleteById(id);
+        await recordAuditEvent(context, {
+            action: 'photo.delete', targetModel: Photo.modelName, targetId: id, before: photo
+        });
+        return photo;
+    }
+
+    @Authorized(Permission.PhotoModerate)
+    @Mutation(_type => PhotoType)
+    async moderatePhoto(
+        @Ctx() context: ResolveContext,
+        @Arg('id') id: I.ObjectId,
+        @Arg('status', _type => PhotoModerationStatus) status: PhotoModerationStatus
+    ) {
+        return PhotoTryCrud.tryUpdateById(
+            id, { moderation_status: status }, auditMutation(context, 'photo.moderate')
+        );
+    }
+
+    @FieldResolver(_type => String)
+    url(@Root() { key }: PhotoData) {
+        return mediaStorage.getUrl(key);
+    }
+
+    @FieldResolver(_type => UserType)
+    async user(@Ctx() {loaders}: ResolveContext, @Root() { user }: PhotoData) {
+        // photos of deleted users are still listed to moderators until they are purged
+        return loaders.tryFindById(User, user as I.ObjectId, { includeDeleted: true });
+    }
+
+}
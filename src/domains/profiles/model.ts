@@ -0,0 +1,204 @@
+import _ from "lodash";
+import * as Utils from "/modules/utils";
+import * as I from "/modules/interfaces";
+
+import { Typegoose, prop, arrayProp, staticMethod, index as compoundIndex, Ref } from "typegoose";
+import { Field, ObjectType, Int, registerEnumType } from "type-graphql";
+import { required, index, unique } from "/modules/flags";
+import { TryCrud } from "/modules/mongoose-utils/try-crud";
+import { IntegerRange } from "/modules/integer-range";
+import { BadRequestError } from "/modules/statused-error";
+import { UserType, registerHiddenUntilMirror } from "/domains/users/model";
+import { registerPersonalDataHandler } from "/modules/personal-data";
+
+export namespace ProfilePropLimits {
+  export const DisplayNameLength = new IntegerRange(1, 65);
+  export const BioLength         = new IntegerRange(0, 2001);
+  export const Age               = new IntegerRange(18, 121);
+}
+
+export enum Gender {
+  Male      = "male",
+  Female    = "female",
+  NonBinary = "non_binary"
+}
+
+registerEnumType(Gender, { name: "Gender" });
+
+/**
+ * GeoJSON point, note that `coordinates` are `[longitude, latitude]`.
+ */
+export class GeoPoint {
+  @prop({ required, enum: ["Point"], default: "Point" })
+  type!: "Point";
+
+  @arrayProp({ items: Number, required })
+  coordinates!: number[];
+}
+
+export interface ProfileUpdate {
+  display_name?:  I.Maybe<string>;
+  birth_date?:    I.Maybe<Date>;
+  gender?:        I.Maybe<Gender>;
+  interested_in?: I.Maybe<Gender[]>;
+  bio?:           I.Maybe<string>;
+  latitude?:      I.Maybe<number>;
+  longitude?:     I.Maybe<number>;
+}
+
+@compoundIndex({ location: "2dsphere" })
+@ObjectType("Profile")
+export class ProfileType extends Typegoose {
+  @Field()
+  @prop()
+  get id(this: Profile): I.ObjectId {
+    // @ts-ignore
+    return this._id || this._doc._id;
+  }
+
+  @prop({ required, index, unique, ref: UserType })
+  user!: Ref<UserType>; // exposed via field resolver
+
+  @Field()
+  @prop({ required })
+  display_name!: string;
+
+  @prop({ required })
+  birth_date!: Date; // only age is exposed
+
+  @Field(_type => Int)
+  get age(): number {
+    return getAge(this.birth_date);
+  }
+
+  @Field(_type => Gender)
+  @prop({ required, enum: Object.values(Gender) })
+  gender!: Gender;
+
+  @Field(_type => [Gender])
+  @arrayProp({ items: String, enum: Object.values(Gender), default: [] })
+  interested_in!: Gender[];
+
+  @Field()
+  @prop({ required, default: "" })
+  bio!: string;
+
+  @prop({ _id: false })
+  location?: I.Maybe<GeoPoint>; // exact location is never exposed
+
+  @prop({ index })
+  user_hidden_until?: I.Maybe<Date>; // mirror of `User.hidden_until`
+
+  /**
+   * Updates the profile of the user with the given id, creates it if there
+   * is no one. Returns the updated profile.
+   *
+   * @param userId Id of the profile owner.
+   * @param update Properties to update, nullish ones are left unchanged.
+   *
+   * @throws BadRequestError
+   * If the age is invalid, only one of coordinates is specified or the profile
+   * doesn't exist and required properties are missing.
+   */
+  @staticMethod
+  static async tryUpsertOf(
+    this: ProfileModel,
+    userId: I.ObjectId,
+    { latitude, longitude, ...props }: ProfileUpdate
+  ) {
+    if ((latitude == null) !== (longitude == null)) {
+      throw new BadRequestError("latitude and longitude must be specified together");
+    }
+    if (props.birth_date != null) {
+      Profile.ensureValidBirthDate(props.birth_date);
+    }
+    const update = _.omitBy({
+      ...props,
+      location: latitude == null ? null : makeGeoPoint(latitude, longitude!)
+    }, _.isNil);
+    const exists = await Profile.findOne({ user: userId }).select("_id").lean().exec() != null;
+    if (!exists && (props.display_name == null || props.birth_date == null || props.gender == null)) {
+      throw new BadRequestError("display_name, birth_date and gender are required to create profile");
+    }
+    // profiles are created by their owners, who are active, so `user_hidden_until` is left unset
+    return Profile.findOneAndUpdate(
+      { user: userId },
+      update,
+      { new: true, upsert: true, setDefaultsOnInsert: true }
+    ).lean().exec();
+  }
+
+  /**
+   * Returns `$geoNear` aggregation stage, that selects profiles within `radiusKm`
+   * from `center` into `distance` field (in meters) ordered by the distance.
+   *
+   * @param center   Location to search around.
+   * @param radiusKm Maximum distance in kilometers.
+   * @param query    Additional filter of the profiles.
+   */
+  @staticMethod
+  static makeGeoNearStage(this: ProfileModel, center: GeoPoint, radiusKm: number, query: object) {
+    return {
+      $geoNear: {
+        near:          center,
+        distanceField: "distance",
+        maxDistance:   radiusKm * 1000,
+        spherical:     true,
+        query
+      }
+    };
+  }
+
+  /**
+   * Returns mongoose filter for `birth_date`, so that the age is within `ageRange`.
+   */
+  @staticMethod
+  static makeAgeFilter(this: ProfileModel, { min, max }: IntegerRange) {
+    const now = new Date;
+    const yearsAgo = (years: number) => new Date(
+      now.getFullYear() - years, now.getMonth(), now.getDate()
+    );
+    // those, who are `max` years old, were born `max` years ago or earlier
+    return { $gt: yearsAgo(max), $lte: yearsAgo(min) };
+  }
+
+  /**
+   * @throws BadRequestError
+   * If the age of a person born on `birthDate` is out of `ProfilePropLimits.Age`.
+   */
+  @staticMethod
+  static ensureValidBirthDate(this: ProfileModel, birthDate: Date) {
+    const { min, max } = ProfilePropLimits.Age;
+    if (!ProfilePropLimits.Age.includes(getAge(birthDate))) {
+      throw new BadRequestError(`age must be from ${min} to ${max - 1} years`);
+    }
+  }
+}
+
+function getAge(birthDate: Date) {
+  const now = new Date;
+  const age = now.getFullYear() - birthDate.getFullYear();
+  const hadBirthdayThisYear = now.getMonth() > birthDate.getMonth() || (
+    now.getMonth() === birthDate.getMonth() && now.getDate() >= birthDate.getDate()
+  );
+  return hadBirthdayThisYear ? age : age - 1;
+}
+
+export function makeGeoPoint(latitude: number, longitude: number): GeoPoint {
+  return { type: "Point", coordinates: [longitude, latitude] };
+}
+
+export const Profile = Utils.getModelFromTypegoose(ProfileType);
+
+export const ProfileTryCrud = new TryCrud(Profile);
+
+registerHiddenUntilMirror({ model: Profile, userPath: "user", hiddenUntilPath: "user_hidden_until" });
+
+registerPersonalDataHandler("profiles", {
+  export: async userId => Profile.findOne({ user: userId }).select("-__v").lean().exec(),
+  erase:  async userId => { await Profile.deleteOne({ user: userId }).exec(); }
+});
+
+export type Profile = InstanceType<ProfileModel>;
+export type ProfileModel = typeof Profile;
+export type ProfileData = I.TypegooseDocProps<ProfileType>;
@@ -0,0 +1,21 @@
+import {
+    Field,
+    Float,
+    ObjectType
+} from 'type-graphql';
+
+import { ProfileType } from 'domains/profiles/model';
+import { makePaginatedType } from 'graphql/pagination';
+
+
+@ObjectType('NearbyProfile')
+export class NearbyProfileType {
+    @Field()
+    profile!: ProfileType;
+
+    @Field(_type => Float, { description: 'Distance rounded to kilometers' })
+    distance_km!: number;
+}
+
+export const NearbyProfilePaginateResponseType = makePaginatedType('NearbyProfilePage', NearbyProfileType);
+export type  NearbyProfilePaginateResponseType = InstanceType<typeof NearbyProfilePaginateResponseType>;
@@ -0,0 +1,35 @@
+import {
+    Field,
+    InputType,
+    Float,
+    Int
+} from 'type-graphql';
+import { Min, Max } from 'class-validator';
+
+import { PaginationLimits } from 'graphql/pagination';
+import { IntegerRangeInputType } from 'graphql/integer-range-input';
+
+
+export namespace ProfilesNearbyLimits {
+    export const MaxRadiusKm = 500;
+}
+
+@InputType()
+export class ProfilesNearbyRequestType {
+
+    @Field(_type => Float)
+    @Min(0) @Max(ProfilesNearbyLimits.MaxRadiusKm)
+    radiusKm!: number;
+
+    @Field({ description: 'Range of ages in years, max is exclusive' })
+    ageRange!: IntegerRangeInputType;
+
+    @Field(_type => Int, { defaultValue: 0 })
+    @Min(0)
+    offset!: number;
+
+    @Field(_type => Int)
+    @Min(0) @Max(PaginationLimits.MaxLimit)
+    limit!: number;
+
+}
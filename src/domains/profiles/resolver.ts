@@ -0,0 +1,107 @@
+import _ from 'lodash';
+import * as I from 'modules/interfaces';
+import { ProfileType, Profile, ProfileData } from 'domains/profiles/model';
+import { UserType, User, makeNotHiddenCondition } from 'domains/users/model';
+import { Block } from 'domains/social/block-model';
+import { PhotoType, Photo, PhotoData, PhotoModerationStatus } from 'domains/photos/model';
+import {
+    Resolver,
+    Query,
+    Arg,
+    Ctx,
+    Root,
+    Mutation,
+    FieldResolver,
+    Authorized
+} from 'type-graphql';
+import { ResolveContext } from 'graphql/resolve-context';
+import { toIntegerRange } from 'graphql/integer-range-input';
+import { Permission } from 'modules/permissions';
+import { BadRequestError } from 'modules/statused-error';
+import { nullable } from 'modules/flags';
+import { UpdateProfileRequestType } from 'domains/profiles/update-profile-request-type';
+import { ProfilesNearbyRequestType } from 'domains/profiles/profiles-nearby-request-type';
+import {
+    NearbyProfilePaginateResponseType
+} from 'domains/profiles/nearby-profile-response-type';
+
+interface NearbyProfilesFacet {
+    total: Array<{ count: number }>;
+    data:  Array<ProfileData & { distance: number }>;
+}
+
+
+@Resolver(_of => ProfileType)
+export class ProfileResolver {
+
+    @Authorized(Permission.ProfileRead)
+    @Query(_returns => ProfileType, { nullable })
+    async myProfile(@Ctx() {user}: ResolveContext) {
+        return Profile.findOne({ user: user!._id }).lean().exec();
+    }
+
+    @Authorized(Permission.ProfileUpdateSelf)
+    @Mutation(_type => ProfileType, { description: 'Creates the profile if it doesn\'t exist' })
+    async updateMyProfile(@Ctx() {user}: ResolveContext, @Arg('req') req: UpdateProfileRequestType) {
+        return Profile.tryUpsertOf(user!._id, req);
+    }
+
+    /**
+     * @throws BadRequestError
+     * If the current user has no profile or location.
+     */
+    @Authorized(Permission.ProfileRead)
+    @Query(_returns => NearbyProfilePaginateResponseType, {
+        description: 'Returns mutually interesting profiles ordered by distance from the current user'
+    })
+    async profilesNearby(
+        @Ctx() {user}: ResolveContext,
+        @Arg('req') { radiusKm, ageRange, offset, limit }: ProfilesNearbyRequestType
+    ): Promise<NearbyProfilePaginateResponseType> {
+        const me: I.Maybe<ProfileData> = await Profile.findOne({ user: user!._id }).lean().exec();
+        if (me == null || me.location == null) {
+            throw new BadRequestError('profile with location is required to search nearby');
+        }
+        const query = {
+            user:              { ...await Block.makeVisibleUsersFilter(user!._id), $ne: user!._id },
+            user_hidden_until: makeNotHiddenCondition(),
+            birth_date:        Profile.makeAgeFilter(toIntegerRange(ageRange)),
+            ...(me.interested_in.length === 0 ? {} : { gender: { $in: me.interested_in } }),
+            $or: [{ interested_in: me.gender }, { interested_in: { $size: 0 } }]
+        };
+        const [{ total, data }]: NearbyProfilesFacet[] = await Profile.aggregate([
+            Profile.makeGeoNearStage(me.location, radiusKm, query),
+            { $facet: {
+                total: [{ $count: 'count' }],
+                data:  [{ $skip: offset }, { $limit: limit }]
+            }}
+        ]).exec();
+        return {
+            total: total.length === 0 ? 0 : total[0].count,
+            data:  data.map(({ distance, ...profile }) => ({
+                profile:     profile as ProfileType,
+                distance_km: Math.round(distance / 1000)
+            }))
+        };
+    }
+
+    @FieldResolver(_type => [PhotoType], {
+        description: 'Photos ordered by position, only approved ones are visible to other users'
+    })
+    async photos(@Ctx() {user, loaders}: ResolveContext, @Root() profile: ProfileData) {
+        const ownerId = profile.user as I.ObjectId;
+        const photos: PhotoData[] = await loaders.byField(Photo, 'user').load(ownerId);
+        return _.sortBy(
+            user != null && user._id.equals(ownerId)
+                ? photos
+                : photos.filter(photo => photo.moderation_status === PhotoModerationStatus.Approved),
+            photo => photo.position
+        );
+    }
+
+    @FieldResolver(_type => UserType)
+    async user(@Ctx() {loaders}: ResolveContext, @Root() { user }: ProfileData) {
+        return loaders.tryFindById(User, user as I.ObjectId);
+    }
+
+}
@@ -0,0 +1,51 @@
+import * as I from 'modules/interfaces';
+import {
+    Field,
+    InputType,
+    Float
+} from 'type-graphql';
+import { IsOptional, Min, Max } from 'class-validator';
+
+import { ProfilePropLimits, Gender } from 'domains/profiles/model';
+import { LengthRange } from 'modules/decorators/length-range';
+import { nullable    } from 'modules/flags';
+
+
+/**
+ * Defines profile properties to update, omitted ones are left unchanged.
+ * `display_name`, `birth_date` and `gender` are required to create the profile,
+ * `latitude` and `longitude` must be specified together.
+ */
+@InputType()
+export class UpdateProfileRequestType {
+
+    @Field(_type => String, { nullable })
+    @IsOptional()
+    @LengthRange(ProfilePropLimits.DisplayNameLength)
+    display_name?: I.Maybe<string>;
+
+    @Field(_type => Date, { nullable })
+    birth_date?: I.Maybe<Date>;
+
+    @Field(_type => Gender, { nullable })
+    gender?: I.Maybe<Gender>;
+
+    @Field(_type => [Gender], { nullable })
+    interested_in?: I.Maybe<Gender[]>;
+
+    @Field(_type => String, { nullable })
+    @IsOptional()
+    @LengthRange(ProfilePropLimits.BioLength)
+    bio?: I.Maybe<string>;
+
+    @Field(_type => Float, { nullable })
+    @IsOptional()
+    @Min(-90) @Max(90)
+    latitude?: I.Maybe<number>;
+
+    @Field(_type => Float, { nullable })
+    @IsOptional()
+    @Min(-180) @Max(180)
+    longitude?: I.Maybe<number>;
+
+}
@@ -0,0 +1,161 @@
+import _ from "lodash";
+import * as Utils from "/modules/utils";
+import * as I from "/modules/interfaces";
+
+import { Typegoose, prop, arrayProp, staticMethod, index as compoundIndex, Ref } from "typegoose";
+import { Field, ObjectType, Int } from "type-graphql";
+import { required, index, unique, nullable } from "/modules/flags";
+import { BadRequestError } from "/modules/statused-error";
+import { UserType } from "/domains/users/model";
+import { registerPersonalDataHandler } from "/modules/personal-data";
+import {
+  QuestionType,
+  Question,
+  QuestionData,
+  QuestionTryCrud,
+  AnswerFormat
+} from "/domains/questions/model";
+
+/**
+ * Represents user's answer to the question. For choice and scale questions
+ * `selected` and `acceptable` contain indexes of the question options.
+ */
+export interface AnswerValue {
+  selected:   number[];
+  text?:      I.Maybe<string>;
+  acceptable: number[];
+}
+
+@compoundIndex({ user: 1, question: 1 }, { unique })
+@ObjectType("Answer")
+export class AnswerType extends Typegoose implements AnswerValue {
+  @Field()
+  @prop()
+  get id(this: Answer): I.ObjectId {
+    // @ts-ignore
+    return this._id || this._doc._id;
+  }
+
+  @prop({ required, index, ref: UserType })
+  user!: Ref<UserType>;
+
+  @Field(_type => QuestionType)
+  @prop({ required, index, ref: QuestionType })
+  question!: Ref<QuestionType>;
+
+  @Field(_type => [Int], { description: "Indexes of the chosen options" })
+  @arrayProp({ items: Number, default: [] })
+  selected!: number[];
+
+  @Field(_type => String, { nullable, description: "Answer to the free text question" })
+  @prop()
+  text?: I.Maybe<string>;
+
+  @Field(_type => [Int], {
+    description: "Indexes of the options, that are acceptable to be answered " +
+                 "by a match, empty if any answer is acceptable"
+  })
+  @arrayProp({ items: Number, default: [] })
+  acceptable!: number[];
+
+  @Field()
+  @prop({ required, default: Date.now })
+  answered_at!: Date;
+
+  /**
+   * Creates or replaces user's answer to the active question and marks it
+   * as answered, so that its format may no longer change.
+   * Returns the answer with populated `question`.
+   *
+   * @param userId     Id of the answering user.
+   * @param questionId Id of the question to answer.
+   * @param value      Answer value, that must conform to the question format.
+   *
+   * @throws NotFoundError | BadRequestError
+   * If there is no such active question or `value` doesn't conform to its format.
+   */
+  @staticMethod
+  static async tryAnswer(
+    this: AnswerModel,
+    userId:     I.ObjectId,
+    questionId: I.ObjectId,
+    value:      AnswerValue
+  ) {
+    await tryMarkAnswered(questionId, value);
+    return Answer.findOneAndUpdate(
+      { user: userId, question: questionId },
+      {
+        selected:    _.uniq(value.selected),
+        text:        value.text,
+        acceptable:  _.uniq(value.acceptable),
+        answered_at: new Date
+      },
+      { new: true, upsert: true, setDefaultsOnInsert: true }
+    ).populate("question").lean().exec();
+  }
+}
+
+/**
+ * Marks the active question as answered unless it was changed since `value`
+ * was checked to conform to it. Returns the question.
+ *
+ * @throws NotFoundError | BadRequestError
+ * If there is no such active question or `value` doesn't conform to its format.
+ */
+async function tryMarkAnswered(questionId: I.ObjectId, value: AnswerValue): Promise<QuestionData> {
+  const question: QuestionData = await QuestionTryCrud.tryFindOne({
+    _id: questionId, active: true
+  });
+  ensureValidAnswer(question, value);
+  const { n } = await Question.updateOne(
+    { _id: questionId, active: true, answer_format: question.answer_format, options: question.options },
+    { answered: true }
+  ).exec();
+  return n === 1 ? question : tryMarkAnswered(questionId, value);
+}
+
+/**
+ * @throws BadRequestError
+ * If `value` doesn't conform to the `question` format.
+ */
+function ensureValidAnswer(
+  { answer_format, options }: Pick<QuestionData, "answer_format" | "options">,
+  { selected, text, acceptable }: AnswerValue
+) {
+  if (answer_format === AnswerFormat.FreeText) {
+    if (text == null || text.trim() === "") {
+      throw new BadRequestError("free text question requires text answer");
+    }
+    if (selected.length > 0 || acceptable.length > 0) {
+      throw new BadRequestError("free text question has no options to select");
+    }
+    return;
+  }
+  if (text != null) {
+    throw new BadRequestError(`${answer_format} question requires selecting options`);
+  }
+  const isValidOption = (option: number) => Number.isInteger(option) &&
+    option >= 0 && option < options.length;
+  if (!selected.every(isValidOption) || !acceptable.every(isValidOption)) {
+    throw new BadRequestError(`options must be indexes from 0 to ${options.length - 1}`);
+  }
+  const selectedCount = _.uniq(selected).length;
+  if (answer_format === AnswerFormat.Multi ? selectedCount === 0 : selectedCount !== 1) {
+    throw new BadRequestError(
+      answer_format === AnswerFormat.Multi
+        ? "at least one option must be selected"
+        : "exactly one option must be selected"
+    );
+  }
+}
+
+export const Answer = Utils.getModelFromTypegoose(AnswerType);
+
+registerPersonalDataHandler("answers", {
+  export: async userId => Answer.find({ user: userId }).select("-__v").lean().exec(),
+  erase:  async userId => { await Answer.deleteMany({ user: userId }).exec(); }
+});
+
+export type Answer = InstanceType<AnswerModel>;
+export type AnswerModel = typeof Answer;
+export type AnswerData = I.TypegooseDocProps<AnswerType>;
@@ -0,0 +1,33 @@
+import * as I from 'modules/interfaces';
+import {
+    Field,
+    InputType,
+    Int
+} from 'type-graphql';
+
+import { AnswerValue } from 'domains/questions/answer-model';
+import { nullable    } from 'modules/flags';
+
+
+@InputType()
+export class AnswerQuestionRequestType implements AnswerValue {
+
+    @Field()
+    questionId!: I.ObjectId;
+
+    @Field(_type => [Int], {
+        defaultValue: [],
+        description:  'Indexes of the chosen options, must be empty for free text questions'
+    })
+    selected!: number[];
+
+    @Field(_type => String, { nullable, description: 'Answer to the free text question' })
+    text?: I.Maybe<string>;
+
+    @Field(_type => [Int], {
+        defaultValue: [],
+        description:  'Indexes of the options acceptable from a match, empty means any'
+    })
+    acceptable!: number[];
+
+}
@@ -0,0 +1,42 @@
+import {
+    Field,
+    InputType,
+    Int
+} from 'type-graphql';
+import { Length, Min, Max } from 'class-validator';
+
+import { QuestionPropLimits, AnswerFormat } from 'domains/questions/model';
+import { LengthRange } from 'modules/decorators/length-range';
+
+
+@InputType()
+export class CreateQuestionRequestType {
+
+    @Field()
+    @LengthRange(QuestionPropLimits.TextLength)
+    text!: string;
+
+    @Field(_type => AnswerFormat)
+    answer_format!: AnswerFormat;
+
+    @Field(_type => [String], { defaultValue: [] })
+    @Length(
+        QuestionPropLimits.OptionLength.min,
+        QuestionPropLimits.OptionLength.max - 1,
+        { each: true }
+    )
+    options!: string[];
+
+    @Field()
+    @LengthRange(QuestionPropLimits.CategoryLength)
+    category!: string;
+
+    @Field(_type => Int, { defaultValue: 1 })
+    @Min(QuestionPropLimits.Weight.min)
+    @Max(QuestionPropLimits.Weight.max - 1)
+    weight!: number;
+
+    @Field({ defaultValue: true })
+    active!: boolean;
+
+}
@@ -0,0 +1,168 @@
+import _ from "lodash";
+import * as Utils from "/modules/utils";
+import * as I from "/modules/interfaces";
+
+import { Typegoose, prop, arrayProp, staticMethod } from "typegoose";
+import { Field, ObjectType, Int, registerEnumType } from "type-graphql";
+import { required, index } from "/modules/flags";
+import { TryCrud, MutationAuditor } from "/modules/mongoose-utils/try-crud";
+import { Paginator } from "/modules/mongoose-utils/paginate";
+import { IntegerRange } from "/modules/integer-range";
+import { BadRequestError, ConflictError } from "/modules/statused-error";
+
+export namespace QuestionPropLimits {
+  export const TextLength     = new IntegerRange(3, 1001);
+  export const CategoryLength = new IntegerRange(1, 101);
+  export const OptionLength   = new IntegerRange(1, 256);
+  export const OptionsCount   = new IntegerRange(2, 21);
+  export const Weight         = new IntegerRange(1, 101);
+}
+
+export enum AnswerFormat {
+  Single   = "single",
+  Multi    = "multi",
+  Scale    = "scale",
+  FreeText = "free_text"
+}
+
+export class QuestionAnsweredError extends ConflictError {
+  constructor(id: I.ObjectId) {
+    super(`answer format and options of question '${id}' may not be changed, as it was answered`);
+  }
+}
+
+registerEnumType(AnswerFormat, {
+  name: "AnswerFormat",
+  description: "Defines how a question is answered: by choosing one or several " +
+               "options, a point on the scale or with a free text"
+});
+
+@ObjectType("Question")
+export class QuestionType extends Typegoose {
+  @Field()
+  @prop()
+  get id(this: Question): I.ObjectId {
+    // @ts-ignore
+    return this._id || this._doc._id;
+  }
+
+  @Field()
+  @prop({ required })
+  text!: string;
+
+  @Field(_type => AnswerFormat)
+  @prop({ required, enum: Object.values(AnswerFormat) })
+  answer_format!: AnswerFormat;
+
+  @Field(_type => [String], {
+    description: "Options to choose from, scale options are ordered from the lowest " +
+                 "to the highest point, free text questions have no options"
+  })
+  @arrayProp({ items: String, default: [] })
+  options!: string[];
+
+  @Field()
+  @prop({ required, index })
+  category!: string;
+
+  @Field(_type => Int, { description: "Relative importance of the question for matching" })
+  @prop({ required, default: 1 })
+  weight!: number;
+
+  @Field({ description: "Inactive questions are hidden from regular users" })
+  @prop({ required, index, default: true })
+  active!: boolean;
+
+  @Field()
+  @prop({ required, default: Date.now })
+  init_date!: Date;
+
+  @prop({ required, default: false })
+  answered!: boolean; // set by `Answer.tryAnswer()`, freezes answer format and options
+
+  /**
+   * Checks that `options` conform to `answer_format`.
+   *
+   * @throws BadRequestError
+   * If free text question has options or other questions have invalid number of options.
+   */
+  @staticMethod
+  static ensureValidOptions(
+    this: QuestionModel,
+    { answer_format, options }: Pick<QuestionData, "answer_format" | "options">
+  ) {
+    if (answer_format === AnswerFormat.FreeText) {
+      if (options.length > 0) {
+        throw new BadRequestError("free text question must have no options");
+      }
+    } else if (!QuestionPropLimits.OptionsCount.includes(options.length)) {
+      const { min, max } = QuestionPropLimits.OptionsCount;
+      throw new BadRequestError(`question must have from ${min} to ${max - 1} options`);
+    }
+  }
+
+  /**
+   * Updates the question. Answer format and options may be changed only while
+   * the question is not answered, which is checked by the update itself, so
+   * that answers submitted meanwhile keep the format they conform to.
+   * Returns the updated question.
+   *
+   * @param id     Id of the question to update.
+   * @param update Properties of the question to update.
+   * @param audit  Auditor to notify about the update.
+   *
+   * @throws IdNotFoundError | BadRequestError | QuestionAnsweredError
+   * If there is no such question, options don't conform to the answer format
+   * or they are changed after the question was answered.
+   */
+  @staticMethod
+  static async tryUpdateById(
+    this:   QuestionModel,
+    id:     I.ObjectId,
+    update: Partial<QuestionData>,
+    audit?: I.Maybe<MutationAuditor>
+  ): Promise<QuestionData> {
+    const question: QuestionData = await QuestionTryCrud.tryFindById(id);
+    Question.ensureValidOptions({ ...question, ...update });
+    const isFormatChanged =
+      (update.answer_format != null && update.answer_format !== question.answer_format) ||
+      (update.options != null && !_.isEqual(update.options, question.options));
+    if (isFormatChanged && question.answered) {
+      throw new QuestionAnsweredError(id);
+    }
+    const updated: I.Maybe<QuestionData> = await Question
+      .findOneAndUpdate(
+        {
+          _id:           id,
+          answer_format: question.answer_format,
+          options:       question.options,
+          ...(isFormatChanged ? { answered: { $ne: true } } : {})
+        },
+        update,
+        { new: true }
+      )
+      .lean()
+      .exec();
+    if (updated == null) {
+      // it was answered or changed since it was checked
+      return Question.tryUpdateById(id, update, audit);
+    }
+    if (audit != null) {
+      await audit.record({ modelName: Question.modelName, id, before: question, after: updated });
+    }
+    return updated;
+  }
+}
+
+export const Question = Utils.getModelFromTypegoose(QuestionType);
+
+export const QuestionTryCrud = new TryCrud(Question);
+export const QuestionPaginator = new Paginator<QuestionData, Question>({
+  model:   Question,
+  aliases: { _id: "id" },
+  hidden:  ["answered"]
+});
+
+export type Question = InstanceType<QuestionModel>;
+export type QuestionModel = typeof Question;
+export type QuestionData = I.TypegooseDocProps<QuestionType>;
@@ -0,0 +1,19 @@
+import { QuestionPaginator } from 'domains/questions/model';
+import { makeFieldsEnum, makePaginateInputTypes } from 'graphql/pagination';
+
+export const QuestionField = makeFieldsEnum(
+    'QuestionField',
+    QuestionPaginator.publicFields,
+    'Defines question fields available for sorting and filtering'
+);
+export const QuestionSearchField = makeFieldsEnum(
+    'QuestionSearchField',
+    QuestionPaginator.searchableFields,
+    'Defines question fields available for searching'
+);
+
+export const {
+    PaginateInputType: QuestionPaginateRequestType
+} = makePaginateInputTypes('Question', QuestionField, QuestionSearchField);
+
+export type QuestionPaginateRequestType = InstanceType<typeof QuestionPaginateRequestType>;
@@ -0,0 +1,5 @@
+import { QuestionType } from 'domains/questions/model';
+import { makePaginatedType } from 'graphql/pagination';
+
+export const QuestionPaginateResponseType = makePaginatedType('QuestionPage', QuestionType);
+export type  QuestionPaginateResponseType = InstanceType<typeof QuestionPaginateResponseType>;
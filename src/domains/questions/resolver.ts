@@ -0,0 +1,138 @@
+import _ from 'lodash';
+import * as I from 'modules/interfaces';
+import {
+    QuestionType,
+    Question,
+    QuestionData,
+    QuestionTryCrud,
+    QuestionPaginator
+} from 'domains/questions/model';
+import { AnswerType, Answer } from 'domains/questions/answer-model';
+import { scheduleScoresRefresh } from 'domains/matching/model';
+import {
+    Resolver,
+    Query,
+    Arg,
+    Ctx,
+    Mutation,
+    Authorized
+} from 'type-graphql';
+import { ResolveContext } from 'graphql/resolve-context';
+import { toPublicPaginateOptions } from 'graphql/pagination';
+import { auditMutation, recordAuditEvent } from 'graphql/audit';
+import { Permission, hasPermission } from 'modules/permissions';
+import { IdNotFoundError } from 'modules/mongoose-utils/try-crud';
+import { QuestionPaginateRequestType } from 'domains/questions/question-paginate-request-type';
+import { QuestionPaginateResponseType } from 'domains/questions/question-paginate-response-type';
+import { CreateQuestionRequestType } from 'domains/questions/create-question-request-type';
+import { UpdateQuestionRequestType } from 'domains/questions/update-question-request-type';
+import { AnswerQuestionRequestType } from 'domains/questions/answer-question-request-type';
+
+
+@Resolver()
+export class QuestionResolver {
+
+    /**
+     * @throws IdNotFoundError
+     * If there is no such question or it is inactive and the user may not manage questions.
+     */
+    @Authorized(Permission.QuestionRead)
+    @Query(_returns => QuestionType)
+    async getQuestion(@Ctx() {user}: ResolveContext, @Arg('id') id: I.ObjectId) {
+        const question: QuestionData = await QuestionTryCrud.tryFindById(id);
+        if (!question.active && !hasPermission(user!.role, Permission.QuestionManage)) {
+            throw new IdNotFoundError(id);
+        }
+        return question;
+    }
+
+    @Authorized(Permission.QuestionRead)
+    @Query(_returns => QuestionPaginateResponseType, {
+        description: 'Inactive questions are returned only to users, who may manage questions'
+    })
+    async questions(
+        @Ctx() {user}: ResolveContext,
+        @Arg('req', _type => QuestionPaginateRequestType) req: QuestionPaginateRequestType
+    ): Promise<QuestionPaginateResponseType> {
+        return QuestionPaginator.paginate(
+            toPublicPaginateOptions(req),
+            hasPermission(user!.role, Permission.QuestionManage) ? null : { filter: { active: true } }
+        );
+    }
+
+    @Authorized(Permission.QuestionManage)
+    @Mutation(_type => QuestionType)
+    async createQuestion(@Ctx() context: ResolveContext, @Arg('req') req: CreateQuestionRequestType) {
+        Question.ensureValidOptions(req);
+        const question = await Question.create(req);
+        await recordAuditEvent(context, {
+            action:      'question.create',
+            targetModel: Question.modelName,
+            targetId:    question._id,
+            after:       question.toObject()
+        });
+        return question;
+    }
+
+    /**
+     * @throws IdNotFoundError | BadRequestError | QuestionAnsweredError
+     * If there is no such question, options don't conform to the answer format
+     * or they are changed after the question was answered.
+     */
+    @Authorized(Permission.QuestionManage)
+    @Mutation(_type => QuestionType)
+    async updateQuestion(
+        @Ctx() context: ResolveContext,
+        @Arg('id') id: I.ObjectId,
+        @Arg('req') req: UpdateQuestionRequestType
+    ) {
+        const question: QuestionData = await QuestionTryCrud.tryFindById(id);
+        const update  = _.omitBy(req, _.isNil) as Partial<QuestionData>;
+        const updated = await Question.tryUpdateById(id, update, auditMutation(context, 'question.update'));
+        if (update.weight != null && update.weight !== question.weight) {
+            await scheduleScoresRefreshOfAnswerers(id);
+        }
+        return updated;
+    }
+
+    @Authorized(Permission.QuestionManage)
+    @Mutation(_type => QuestionType, { description: 'Deletes the question with all its answers' })
+    async deleteQuestion(@Ctx() context: ResolveContext, @Arg('id') id: I.ObjectId) {
+        const question = await QuestionTryCrud.tryDeleteById(id, auditMutation(context, 'question.delete'));
+        await scheduleScoresRefreshOfAnswerers(id);
+        await Answer.deleteMany({ question: id }).exec();
+        return question;
+    }
+
+    @Authorized(Permission.QuestionAnswer)
+    @Mutation(_type => AnswerType, { description: 'Creates or replaces the answer to the question' })
+    async answerQuestion(
+        @Ctx() {user}: ResolveContext,
+        @Arg('req') { questionId, ...value }: AnswerQuestionRequestType
+    ) {
+        const answer = await Answer.tryAnswer(user!._id, questionId, value);
+        scheduleScoresRefresh(user!._id);
+        return answer;
+    }
+
+    @Authorized(Permission.QuestionAnswer)
+    @Query(_returns => [AnswerType])
+    async myAnswers(@Ctx() {user}: ResolveContext) {
+        return Answer
+            .find({ user: user!._id })
+            .sort({ answered_at: -1 })
+            .populate('question')
+            .lean()
+            .exec();
+    }
+
+}
+
+/**
+ * Schedules refresh of match scores of all users, who answered the question,
+ * as scores depend on its weight and answers.
+ */
+async function scheduleScoresRefreshOfAnswerers(questionId: I.ObjectId) {
+    const userIds: I.ObjectId[] = await Answer.find({ question: questionId }).distinct('user').exec();
+    userIds.forEach(userId => scheduleScoresRefresh(userId));
+}
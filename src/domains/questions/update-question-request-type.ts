@@ -0,0 +1,53 @@
+import * as I from 'modules/interfaces';
+import {
+    Field,
+    InputType,
+    Int
+} from 'type-graphql';
+import { IsOptional, Length, Min, Max } from 'class-validator';
+
+import { QuestionPropLimits, AnswerFormat } from 'domains/questions/model';
+import { LengthRange } from 'modules/decorators/length-range';
+import { nullable    } from 'modules/flags';
+
+
+/**
+ * Defines question properties to update, omitted ones are left unchanged.
+ * `answer_format` and `options` may be changed only until the question is
+ * answered, as answers refer to options by their indices.
+ */
+@InputType()
+export class UpdateQuestionRequestType {
+
+    @Field(_type => String, { nullable })
+    @IsOptional()
+    @LengthRange(QuestionPropLimits.TextLength)
+    text?: I.Maybe<string>;
+
+    @Field(_type => AnswerFormat, { nullable })
+    answer_format?: I.Maybe<AnswerFormat>;
+
+    @Field(_type => [String], { nullable })
+    @IsOptional()
+    @Length(
+        QuestionPropLimits.OptionLength.min,
+        QuestionPropLimits.OptionLength.max - 1,
+        { each: true }
+    )
+    options?: I.Maybe<string[]>;
+
+    @Field(_type => String, { nullable })
+    @IsOptional()
+    @LengthRange(QuestionPropLimits.CategoryLength)
+    category?: I.Maybe<string>;
+
+    @Field(_type => Int, { nullable })
+    @IsOptional()
+    @Min(QuestionPropLimits.Weight.min)
+    @Max(QuestionPropLimits.Weight.max - 1)
+    weight?: I.Maybe<number>;
+
+    @Field(_type => Boolean, { nullable })
+    active?: I.Maybe<boolean>;
+
+}
@@ -0,0 +1,107 @@
+import * as Utils from "/modules/utils";
+import * as I from "/modules/interfaces";
+
+import { Typegoose, prop } from "typegoose";
+import { required, index, unique } from "/modules/flags";
+import {
+  RateLimitStore,
+  RateLimitState,
+  RateLimitUpdate,
+  RateLimitContentionError
+} from "/modules/rate-limiter";
+import { isDuplicateKeyError } from "/modules/mongoose-utils/mongo-errors";
+
+/**
+ * State of one rate limiting key, that is shared between all server instances.
+ */
+export class RateLimitRecordType extends Typegoose {
+  @prop({ required, index, unique })
+  key!: string;
+
+  @prop({ required })
+  count!: number;
+
+  @prop({ required })
+  previous_count!: number;
+
+  @prop({ required })
+  since!: number;
+
+  @prop({ required, default: 0 }) // incremented on each update to detect concurrent ones
+  version!: number;
+
+  @prop({ required, expires: 0 }) // TTL index, MongoDB removes expired states
+  expires_at!: Date;
+}
+
+export const RateLimitRecord = Utils.getModelFromTypegoose(RateLimitRecordType);
+
+export type RateLimitRecord = InstanceType<RateLimitRecordModel>;
+export type RateLimitRecordModel = typeof RateLimitRecord;
+export type RateLimitRecordData = I.TypegooseDocProps<RateLimitRecordType>;
+
+const MaxUpdateAttempts = 10;
+
+/**
+ * Keeps states in `RateLimitRecord` collection, it is suitable for
+ * multi-instance deployments. Concurrent updates of the same key are
+ * retried up to `MaxUpdateAttempts` times, as the state is replaced only
+ * if its version is unchanged.
+ */
+export class MongoRateLimitStore implements RateLimitStore {
+  async update<TResult>(
+    key:    string,
+    ttl:    number,
+    update: (state: I.Maybe<RateLimitState>) => RateLimitUpdate<TResult>
+  ) {
+    for (let attempt = 1; ; ++attempt) {
+      const now      = new Date;
+      const previous = await RateLimitRecord.findOne({ key }).lean().exec() as I.Maybe<RateLimitRecordData>;
+      // TTL monitor removes documents with a delay, so expired ones must be ignored explicitly
+      const isActual = previous != null && previous.expires_at > now;
+      const { state, result } = update(isActual ? {
+        count:         previous!.count,
+        previousCount: previous!.previous_count,
+        since:         previous!.since
+      } : null);
+      const replacement = {
+        count:          state.count,
+        previous_count: state.previousCount,
+        since:          state.since,
+        expires_at:     new Date(now.getTime() + ttl * 1000)
+      };
+      if (await this.tryReplace(key, previous, replacement)) {
+        return result;
+      }
+      if (attempt === MaxUpdateAttempts) {
+        throw new RateLimitContentionError(key);
+      }
+    }
+  }
+
+  /**
+   * Returns false if the state was changed since `previous` was read.
+   */
+  private async tryReplace(
+    key:         string,
+    previous:    I.Maybe<RateLimitRecordData>,
+    replacement: Pick<RateLimitRecordData, "count" | "previous_count" | "since" | "expires_at">
+  ) {
+    if (previous == null) {
+      try {
+        await RateLimitRecord.create({ key, ...replacement, version: 0 });
+        return true;
+      } catch (err) {
+        if (isDuplicateKeyError(err)) {
+          return false;
+        }
+        throw err;
+      }
+    }
+    const { n } = await RateLimitRecord.updateOne(
+      { key, version: previous.version },
+      { $set: replacement, $inc: { version: 1 } }
+    ).exec();
+    return n > 0;
+  }
+}
@@ -0,0 +1,15 @@
+import * as Config from 'config';
+import { RateLimitStore, MemoryRateLimitStore } from 'modules/rate-limiter';
+import { MongoRateLimitStore } from 'domains/rate-limits/model';
+
+function makeStore(): RateLimitStore {
+    switch (Config.RateLimits.Store) {
+        case 'memory': return new MemoryRateLimitStore;
+        case 'mongo':  return new MongoRateLimitStore;
+        default: throw new Error(
+            `unknown rate limits store '${Config.RateLimits.Store}'`
+        );
+    }
+}
+
+export const rateLimitStore = makeStore();
@@ -0,0 +1,153 @@
+import * as Utils from "/modules/utils";
+import * as I from "/modules/interfaces";
+
+import { Typegoose, prop, staticMethod, index as compoundIndex, Ref } from "typegoose";
+import { Field, ObjectType, registerEnumType } from "type-graphql";
+import { required, index, nullable } from "/modules/flags";
+import { IntegerRange } from "/modules/integer-range";
+import { TryCrud } from "/modules/mongoose-utils/try-crud";
+import { Paginator } from "/modules/mongoose-utils/paginate";
+import { ConflictError } from "/modules/statused-error";
+import { registerPersonalDataHandler } from "/modules/personal-data";
+import { UserType } from "/domains/users/model";
+import { PhotoType } from "/domains/photos/model";
+import { MessageType } from "/domains/messaging/message-model";
+
+export namespace ReportPropLimits {
+  export const CommentLength = new IntegerRange(0, 2001);
+}
+
+export enum ReportReason {
+  Spam                 = "spam",
+  FakeProfile          = "fake_profile",
+  Harassment           = "harassment",
+  InappropriateContent = "inappropriate_content",
+  Underage             = "underage",
+  Other                = "other"
+}
+
+export enum ReportTargetType {
+  User    = "user",
+  Photo   = "photo",
+  Message = "message"
+}
+
+export enum ReportStatus {
+  Open      = "open",
+  Dismissed = "dismissed",
+  Resolved  = "resolved"
+}
+
+registerEnumType(ReportReason, { name: "ReportReason" });
+registerEnumType(ReportTargetType, {
+  name: "ReportTargetType",
+  description: "Defines whether the user or their photo or message was reported"
+});
+registerEnumType(ReportStatus, {
+  name: "ReportStatus",
+  description: "Open reports await moderation, dismissed ones required no action"
+});
+
+export class ReportResolvedError extends ConflictError {
+  constructor(id: I.ObjectId) {
+    super(`report '${id}' is already resolved`);
+  }
+}
+
+/**
+ * Complaint of `reporter` about `reported` user or their content.
+ */
+@compoundIndex({ status: 1, created_at: 1 })
+@ObjectType("Report")
+export class ReportType extends Typegoose {
+  @Field()
+  @prop()
+  get id(this: Report): I.ObjectId {
+    // @ts-ignore
+    return this._id || this._doc._id;
+  }
+
+  @prop({ index, ref: UserType })
+  reporter?: I.Maybe<Ref<UserType>>; // exposed via field resolver, unset if the reporter was erased
+
+  @prop({ required, index, ref: UserType })
+  reported!: Ref<UserType>; // exposed via field resolver
+
+  @Field(_type => ReportTargetType)
+  @prop({ required, enum: Object.values(ReportTargetType), default: ReportTargetType.User })
+  type!: ReportTargetType;
+
+  @prop({ ref: PhotoType })
+  photo?: I.Maybe<Ref<PhotoType>>; // exposed via field resolver
+
+  @prop({ ref: MessageType })
+  message?: I.Maybe<Ref<MessageType>>; // exposed via field resolver
+
+  @Field(_type => ReportReason)
+  @prop({ required, enum: Object.values(ReportReason) })
+  reason!: ReportReason;
+
+  @Field(_type => String, { nullable })
+  @prop()
+  comment?: I.Maybe<string>;
+
+  @Field(_type => ReportStatus)
+  @prop({ required, enum: Object.values(ReportStatus), default: ReportStatus.Open })
+  status!: ReportStatus;
+
+  @Field()
+  @prop({ required, default: Date.now })
+  created_at!: Date;
+
+  @Field(_type => Date, { nullable })
+  @prop()
+  resolved_at?: I.Maybe<Date>;
+
+  /**
+   * Closes the open report. Returns the updated report.
+   *
+   * @param id     Id of the report to close.
+   * @param status Either `Dismissed` or `Resolved` status.
+   *
+   * @throws IdNotFoundError | ReportResolvedError
+   * If there is no such report or it is already closed.
+   */
+  @staticMethod
+  static async tryClose(this: ReportModel, id: I.ObjectId, status: ReportStatus) {
+    const closed = await Report.findOneAndUpdate(
+      { _id: id, status: ReportStatus.Open },
+      { status, resolved_at: new Date },
+      { new: true }
+    ).lean().exec();
+    if (closed == null) {
+      await ReportTryCrud.tryFindById(id);
+      throw new ReportResolvedError(id);
+    }
+    return closed as ReportData;
+  }
+}
+
+export const Report = Utils.getModelFromTypegoose(ReportType);
+
+export const ReportTryCrud = new TryCrud(Report);
+
+export const ReportPaginator = new Paginator<ReportData, Report>({
+  model:   Report,
+  aliases: { _id: "id" }
+});
+
+export type Report = InstanceType<ReportModel>;
+export type ReportModel = typeof Report;
+export type ReportData = I.TypegooseDocProps<ReportType>;
+
+// reports about the user are kept for the moderation history, their own reports are anonymized
+registerPersonalDataHandler("reports", {
+  export: async userId => Report
+    .find({ reporter: userId })
+    .select("-reporter -__v")
+    .lean()
+    .exec(),
+  erase: async userId => {
+    await Report.updateMany({ reporter: userId }, { $unset: { reporter: 1, comment: 1 } }).exec();
+  }
+});
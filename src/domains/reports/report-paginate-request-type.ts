@@ -0,0 +1,14 @@
+import { ReportPaginator } from 'domains/reports/model';
+import { makeFieldsEnum, makePaginateInputTypes } from 'graphql/pagination';
+
+export const ReportField = makeFieldsEnum(
+    'ReportField',
+    ReportPaginator.publicFields,
+    'Defines report fields available for sorting and filtering'
+);
+
+export const {
+    PaginateInputType: ReportPaginateRequestType
+} = makePaginateInputTypes('Report', ReportField);
+
+export type ReportPaginateRequestType = InstanceType<typeof ReportPaginateRequestType>;
@@ -0,0 +1,5 @@
+import { ReportType } from 'domains/reports/model';
+import { makePaginatedType } from 'graphql/pagination';
+
+export const ReportPaginateResponseType = makePaginatedType('ReportPage', ReportType);
+export type  ReportPaginateResponseType = InstanceType<typeof ReportPaginateResponseType>;
@@ -0,0 +1,40 @@
+import * as I from 'modules/interfaces';
+import {
+    Field,
+    InputType
+} from 'type-graphql';
+import { IsOptional } from 'class-validator';
+
+import { ReportPropLimits, ReportReason } from 'domains/reports/model';
+import { LengthRange } from 'modules/decorators/length-range';
+import { nullable    } from 'modules/flags';
+
+
+/**
+ * At most one of `photoId` and `messageId` may be specified to report the user's
+ * content instead of the user.
+ */
+@InputType()
+export class ReportRequestType {
+
+    @Field({ description: 'Id of the reported user' })
+    userId!: I.ObjectId;
+
+    @Field(_type => I.ObjectId, { nullable, description: 'Id of the reported photo of the user' })
+    photoId?: I.Maybe<I.ObjectId>;
+
+    @Field(_type => I.ObjectId, {
+        nullable,
+        description: 'Id of the reported message sent by the user to the current one'
+    })
+    messageId?: I.Maybe<I.ObjectId>;
+
+    @Field(_type => ReportReason)
+    reason!: ReportReason;
+
+    @Field(_type => String, { nullable })
+    @IsOptional()
+    @LengthRange(ReportPropLimits.CommentLength)
+    comment?: I.Maybe<string>;
+
+}
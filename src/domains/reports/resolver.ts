@@ -0,0 +1,150 @@
+import _ from 'lodash';
+import * as I from 'modules/interfaces';
+import {
+    ReportType,
+    Report,
+    ReportData,
+    ReportPaginator,
+    ReportTargetType
+} from 'domains/reports/model';
+import { Block } from 'domains/social/block-model';
+import { UserType, User, UserTryCrud } from 'domains/users/model';
+import { PhotoType, Photo, PhotoData } from 'domains/photos/model';
+import { MessageType, Message, MessageData } from 'domains/messaging/message-model';
+import { Conversation } from 'domains/messaging/conversation-model';
+import {
+    Resolver,
+    Query,
+    Arg,
+    Ctx,
+    Root,
+    Mutation,
+    FieldResolver,
+    Authorized
+} from 'type-graphql';
+import { ResolveContext } from 'graphql/resolve-context';
+import { toPublicPaginateOptions, SortOrder } from 'graphql/pagination';
+import { Permission } from 'modules/permissions';
+import { BadRequestError } from 'modules/statused-error';
+import { IdNotFoundError } from 'modules/mongoose-utils/try-crud';
+import { nullable } from 'modules/flags';
+import { ReportRequestType } from 'domains/reports/report-request-type';
+import { ReportPaginateRequestType } from 'domains/reports/report-paginate-request-type';
+import { ReportPaginateResponseType } from 'domains/reports/report-paginate-response-type';
+
+
+@Resolver(_of => ReportType)
+export class ReportResolver {
+
+    /**
+     * @throws BadRequestError | IdNotFoundError
+     * If the user reports oneself, both photo and message are specified, or
+     * there is no such user, photo of the user or message from the user to
+     * the current one.
+     */
+    @Authorized(Permission.ReportCreate)
+    @Mutation(_type => ReportType, {
+        description: 'Reports the user or their content to moderators and blocks the user ' +
+                     'for the current one'
+    })
+    async report(
+        @Ctx() {user}: ResolveContext,
+        @Arg('req') { userId, photoId, messageId, reason, comment }: ReportRequestType
+    ) {
+        if (user!._id.equals(userId)) {
+            throw new BadRequestError('reporting oneself is meaningless');
+        }
+        if (photoId != null && messageId != null) {
+            throw new BadRequestError('photo and message may not be reported at once');
+        }
+        await UserTryCrud.tryFindById(userId);
+        if (photoId != null) {
+            await tryEnsurePhotoOf(userId, photoId);
+        }
+        if (messageId != null) {
+            await tryEnsureMessageBetween(userId, user!._id, messageId);
+        }
+        const report = await Report.create({
+            reporter: user!._id,
+            reported: userId,
+            type:     photoId   != null ? ReportTargetType.Photo   :
+                      messageId != null ? ReportTargetType.Message :
+                      ReportTargetType.User,
+            photo:    photoId,
+            message:  messageId,
+            reason,
+            comment
+        });
+        await Block.blockUser(user!._id, userId);
+        return report;
+    }
+
+    @Authorized(Permission.ReportManage)
+    @Query(_returns => ReportPaginateResponseType, {
+        description: 'Moderation queue, the oldest reports go first, unless other sort order ' +
+                     'is specified, use `status` filter to get only open ones'
+    })
+    async reports(
+        @Arg('req', _type => ReportPaginateRequestType) req: ReportPaginateRequestType
+    ): Promise<ReportPaginateResponseType> {
+        const options = toPublicPaginateOptions(req);
+        return ReportPaginator.paginate(
+            _.isEmpty(options.sort) ? { ...options, sort: { created_at: SortOrder.Asc } } : options
+        );
+    }
+
+    @FieldResolver(_type => UserType, { nullable, description: 'Null if the reporter was erased' })
+    async reporter(@Ctx() {loaders}: ResolveContext, @Root() { reporter }: ReportData) {
+        return reporter == null
+            ? null
+            : loaders.byId(User, { includeDeleted: true }).load(reporter as I.ObjectId);
+    }
+
+    @FieldResolver(_type => UserType, { nullable, description: 'Null if the user was erased' })
+    async reported(@Ctx() {loaders}: ResolveContext, @Root() { reported }: ReportData) {
+        return loaders.byId(User, { includeDeleted: true }).load(reported as I.ObjectId);
+    }
+
+    @FieldResolver(_type => PhotoType, { nullable, description: 'Null if the photo was removed' })
+    async photo(@Ctx() {loaders}: ResolveContext, @Root() { photo }: ReportData) {
+        return photo == null ? null : loaders.byId(Photo).load(photo as I.ObjectId);
+    }
+
+    @FieldResolver(_type => MessageType, { nullable, description: 'Null if the message was removed' })
+    async message(@Ctx() {loaders}: ResolveContext, @Root() { message }: ReportData) {
+        return message == null ? null : loaders.byId(Message).load(message as I.ObjectId);
+    }
+
+}
+
+/**
+ * @throws IdNotFoundError
+ * If there is no such photo of the user.
+ */
+async function tryEnsurePhotoOf(userId: I.ObjectId, photoId: I.ObjectId) {
+    const photo: I.Maybe<PhotoData> = await Photo.findById(photoId).lean().exec();
+    if (photo == null || !userId.equals(photo.user as I.ObjectId)) {
+        throw new IdNotFoundError(photoId);
+    }
+}
+
+/**
+ * @throws IdNotFoundError
+ * If there is no such message sent by `senderId` to `recipientId`.
+ */
+async function tryEnsureMessageBetween(
+    senderId:    I.ObjectId,
+    recipientId: I.ObjectId,
+    messageId:   I.ObjectId
+) {
+    const message: I.Maybe<MessageData> = await Message.findById(messageId).lean().exec();
+    if (
+        message == null ||
+        !senderId.equals(message.sender as I.ObjectId) ||
+        await Conversation.findOne({
+            _id: message.conversation, participants: recipientId
+        }).select('_id').lean().exec() == null
+    ) {
+        throw new IdNotFoundError(messageId);
+    }
+}
@@ -0,0 +1,179 @@
+import * as Config from "/config";
+import * as Crypto from "crypto";
+import * as Utils from "/modules/utils";
+import * as I from "/modules/interfaces";
+
+import { Typegoose, prop, arrayProp, staticMethod, Ref } from "typegoose";
+import { required, index } from "/modules/flags";
+import { UnAuthorizedError } from "/modules/statused-error";
+import { UserType } from "/domains/users/model";
+import { registerPersonalDataHandler } from "/modules/personal-data";
+
+export class InvalidRefreshTokenError extends UnAuthorizedError {
+  constructor() {
+    super("refresh token is invalid, expired or revoked");
+  }
+}
+
+/**
+ * Maximum number of rotated-out refresh token hashes kept per session,
+ * reuse of older tokens is rejected without revoking the session.
+ */
+const MaxPreviousTokenHashes = 100;
+
+/**
+ * Session represents a family of rotating refresh tokens issued after one login.
+ * Only the latest refresh token may be rotated, presenting any previous token
+ * of the family means it was stolen, so the whole family is revoked.
+ */
+export class SessionType extends Typegoose {
+  @prop({ required, index, ref: UserType })
+  user!: Ref<UserType>;
+
+  @prop({ required })
+  token_hash!: string; // sha256 of the latest refresh token
+
+  @arrayProp({ items: String, default: [] })
+  previous_token_hashes!: string[]; // sha256 of the rotated-out refresh tokens
+
+  @prop({ required, default: false })
+  revoked!: boolean;
+
+  @prop({ required, default: Date.now })
+  init_date!: Date;
+
+  @prop({ required, expires: 0 }) // TTL index, MongoDB removes expired sessions
+  expires_at!: Date;
+
+  /**
+   * Starts new session for the user with the given id.
+   * Returns the session and its first raw refresh token.
+   *
+   * @param userId Id of the user to start session for.
+   */
+  @staticMethod
+  static async start(this: SessionModel, userId: I.ObjectId) {
+    const session = new Session({ user: userId, expires_at: makeExpirationDate() });
+    const refreshToken = makeRefreshToken(session._id);
+    session.token_hash = hashRefreshToken(refreshToken);
+    return { session: await session.save(), refreshToken };
+  }
+
+  /**
+   * Replaces the given refresh token with a new one. If the token was already
+   * rotated, the whole session is revoked, as the token was reused.
+   *
+   * @param refreshToken Raw refresh token, that was issued by `start()` or `rotate()`.
+   *
+   * @throws InvalidRefreshTokenError
+   * If the token is malformed, forged, expired, revoked or was reused.
+   */
+  @staticMethod
+  static async rotate(this: SessionModel, refreshToken: string) {
+    const sessionId = parseSessionId(refreshToken);
+    if (sessionId == null) {
+      throw new InvalidRefreshTokenError;
+    }
+    const tokenHash = hashRefreshToken(refreshToken);
+    const newRefreshToken = makeRefreshToken(sessionId);
+    const session = await Session.findOneAndUpdate(
+      {
+        _id:        sessionId,
+        token_hash: tokenHash,
+        revoked:    false,
+        expires_at: { $gt: new Date }
+      },
+      {
+        $set: {
+          token_hash: hashRefreshToken(newRefreshToken),
+          expires_at: makeExpirationDate()
+        },
+        $push: {
+          previous_token_hashes: { $each: [tokenHash], $slice: -MaxPreviousTokenHashes }
+        }
+      },
+      { new: true }
+    ).exec();
+    if (session == null) {
+      // session id is not a secret (it is in every access token), so only
+      // a token, that was really issued and rotated out, proves the theft
+      await Session.updateOne(
+        { _id: sessionId, previous_token_hashes: tokenHash }, { revoked: true }
+      ).exec();
+      throw new InvalidRefreshTokenError;
+    }
+    return { session, refreshToken: newRefreshToken };
+  }
+
+  /**
+   * Returns true if the session with the given id exists and is not revoked.
+   *
+   * @param sessionId Target session id.
+   */
+  @staticMethod
+  static async isActive(this: SessionModel, sessionId: I.ObjectId) {
+    const session = await Session.findOne({
+      _id:        sessionId,
+      revoked:    false,
+      expires_at: { $gt: new Date }
+    }).select("_id").lean().exec();
+    return session != null;
+  }
+
+  /**
+   * Revokes the session with the given id, so that its access and refresh
+   * tokens become invalid.
+   *
+   * @param sessionId Target session id.
+   */
+  @staticMethod
+  static async revoke(this: SessionModel, sessionId: I.ObjectId) {
+    await Session.updateOne({ _id: sessionId }, { revoked: true }).exec();
+  }
+
+  /**
+   * Revokes all sessions of the user with the given id.
+   *
+   * @param userId Target user id.
+   */
+  @staticMethod
+  static async revokeAllOf(this: SessionModel, userId: I.ObjectId) {
+    await Session.updateMany({ user: userId }, { revoked: true }).exec();
+  }
+}
+
+function makeExpirationDate() {
+  return new Date(Date.now() + Config.JWT.RefreshTokenExpirationTime * 1000);
+}
+
+/**
+ * Refresh token has the format `<sessionId>.<random base64 string>`.
+ */
+function makeRefreshToken(sessionId: I.ObjectId) {
+  return `${sessionId}.${Crypto.randomBytes(32).toString("base64")}`;
+}
+
+function parseSessionId(refreshToken: string) {
+  const [sessionId] = refreshToken.split(".");
+  return I.ObjectId.isValid(sessionId) ? new I.ObjectId(sessionId) : null;
+}
+
+function hashRefreshToken(refreshToken: string) {
+  return Crypto.createHash("sha256").update(refreshToken).digest("hex");
+}
+
+export const Session = Utils.getModelFromTypegoose(SessionType);
+
+// erasure revokes all refresh and access tokens of the user
+registerPersonalDataHandler("sessions", {
+  export: async userId => Session
+    .find({ user: userId })
+    .select("-token_hash -previous_token_hashes -__v")
+    .lean()
+    .exec(),
+  erase:  async userId => { await Session.deleteMany({ user: userId }).exec(); }
+});
+
+export type Session = InstanceType<SessionModel>;
+export type SessionModel = typeof Session;
+export type SessionData = I.TypegooseDocProps<SessionType>;
@@ -0,0 +1,90 @@
+import * as Utils from "/modules/utils";
+import * as I from "/modules/interfaces";
+
+import { Typegoose, prop, staticMethod, index as compoundIndex, Ref } from "typegoose";
+import { required, index, unique } from "/modules/flags";
+import { UserType } from "/domains/users/model";
+import { registerPersonalDataHandler } from "/modules/personal-data";
+import { Match } from "/domains/social/match-model";
+
+/**
+ * Represents the fact, that `user` blocked `blocked` user. Blocking is mutual
+ * in effect, neither of the users sees the other one in any list.
+ */
+@compoundIndex({ user: 1, blocked: 1 }, { unique })
+export class BlockType extends Typegoose {
+  @prop({ required, ref: UserType })
+  user!: Ref<UserType>;
+
+  @prop({ required, index, ref: UserType })
+  blocked!: Ref<UserType>;
+
+  @prop({ required, default: Date.now })
+  blocked_at!: Date;
+
+  /**
+   * Blocks the user with `blockedId` on behalf of the user with `userId`
+   * and deletes their match if there is one. Does nothing if the user
+   * is already blocked.
+   */
+  @staticMethod
+  static async blockUser(this: BlockModel, userId: I.ObjectId, blockedId: I.ObjectId) {
+    await Block.updateOne(
+      { user: userId, blocked: blockedId },
+      { $setOnInsert: { blocked_at: new Date } },
+      { upsert: true }
+    ).exec();
+    await Match.deleteBetween(userId, blockedId);
+  }
+
+  /**
+   * Returns ids of the users, that were blocked by the user with the given id
+   * or blocked that user.
+   */
+  @staticMethod
+  static async getHiddenUserIds(this: BlockModel, userId: I.ObjectId) {
+    const blocks: Array<{ user: I.ObjectId, blocked: I.ObjectId }> = await Block
+      .find({ $or: [{ user: userId }, { blocked: userId }] })
+      .select("user blocked")
+      .lean()
+      .exec();
+    return blocks.map(({ user, blocked }) => userId.equals(user) ? blocked : user);
+  }
+
+  /**
+   * Returns true if any of the two users blocked the other one.
+   */
+  @staticMethod
+  static async isBlockedBetween(this: BlockModel, userId: I.ObjectId, otherId: I.ObjectId) {
+    return await Block.findOne({ $or: [
+      { user: userId,  blocked: otherId },
+      { user: otherId, blocked: userId  }
+    ]}).select("_id").lean().exec() != null;
+  }
+
+  /**
+   * Returns mongoose condition for a user id field, that excludes users hidden
+   * from the user with the given id by blocking. It is meant to be used as
+   * a private filter of every query, that lists users to regular users, along
+   * with `makeNotHiddenCondition()` for the mirror of `User.hidden_until`.
+   *
+   * @param userId Id of the user, who the list is requested by.
+   */
+  @staticMethod
+  static async makeVisibleUsersFilter(this: BlockModel, userId: I.ObjectId) {
+    return { $nin: await Block.getHiddenUserIds(userId) };
+  }
+}
+
+export const Block = Utils.getModelFromTypegoose(BlockType);
+
+registerPersonalDataHandler("blocks", {
+  export: async userId => Block.find({ user: userId }).select("-__v").lean().exec(),
+  erase:  async userId => {
+    await Block.deleteMany({ $or: [{ user: userId }, { blocked: userId }] }).exec();
+  }
+});
+
+export type Block = InstanceType<BlockModel>;
+export type BlockModel = typeof Block;
+export type BlockData = I.TypegooseDocProps<BlockType>;
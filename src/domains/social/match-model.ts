@@ -0,0 +1,100 @@
+import * as Utils from "/modules/utils";
+import * as I from "/modules/interfaces";
+
+import { Typegoose, prop, staticMethod, index as compoundIndex, Ref } from "typegoose";
+import { Field, ObjectType } from "type-graphql";
+import { required, index, unique } from "/modules/flags";
+import { Paginator } from "/modules/mongoose-utils/paginate";
+import { UserType, User, registerHiddenUntilMirror } from "/domains/users/model";
+import { registerPersonalDataHandler } from "/modules/personal-data";
+import { Swipe } from "/domains/social/swipe-model";
+
+/**
+ * Mutual like of `user` and `partner`. Each match has two documents, one for
+ * each user, so that matches of the user may be listed with a single indexed query.
+ */
+@compoundIndex({ user: 1, partner: 1 }, { unique })
+@compoundIndex({ user: 1, matched_at: -1 })
+@ObjectType("Match")
+export class MatchType extends Typegoose {
+  @Field()
+  @prop()
+  get id(this: Match): I.ObjectId {
+    // @ts-ignore
+    return this._id || this._doc._id;
+  }
+
+  @prop({ required, ref: UserType })
+  user!: Ref<UserType>;
+
+  @prop({ required, index, ref: UserType })
+  partner!: Ref<UserType>; // exposed via field resolver
+
+  @prop({ index })
+  partner_hidden_until?: I.Maybe<Date>; // mirror of `User.hidden_until`
+
+  @Field()
+  @prop({ required, default: Date.now })
+  matched_at!: Date;
+
+  /**
+   * Creates the match of the two users if they like each other.
+   * Returns the match document of the user with `userId` or `null`
+   * if the like is not mutual.
+   *
+   * @param userId    Id of the user, who has just liked `partnerId`.
+   * @param partnerId Id of the liked user.
+   */
+  @staticMethod
+  static async tryCreateIfMutual(this: MatchModel, userId: I.ObjectId, partnerId: I.ObjectId) {
+    if (!await Swipe.likes(partnerId, userId)) {
+      return null;
+    }
+    const matched_at  = new Date;
+    const hiddenUntil = await User.getHiddenUntilOf([userId, partnerId]);
+    await Match.bulkWrite([[userId, partnerId], [partnerId, userId]].map(([user, partner]) => ({
+      updateOne: {
+        filter: { user, partner },
+        update: { $setOnInsert: {
+          matched_at, partner_hidden_until: hiddenUntil.get(String(partner)) || null
+        }},
+        upsert: true
+      }
+    })));
+    return await Match.findOne({ user: userId, partner: partnerId }).lean().exec() as MatchData;
+  }
+
+  /**
+   * Deletes the match of the two users in both directions.
+   * Returns true if there was a match.
+   */
+  @staticMethod
+  static async deleteBetween(this: MatchModel, userId: I.ObjectId, partnerId: I.ObjectId) {
+    const { n } = await Match.deleteMany({ $or: [
+      { user: userId,    partner: partnerId },
+      { user: partnerId, partner: userId    }
+    ]}).exec();
+    return n != null && n > 0;
+  }
+}
+
+export const Match = Utils.getModelFromTypegoose(MatchType);
+
+export const MatchPaginator = new Paginator<MatchData, Match>({
+  model:   Match,
+  aliases: { _id: "id" },
+  hidden:  ["user", "partner_hidden_until"]
+});
+
+registerHiddenUntilMirror({ model: Match, userPath: "partner", hiddenUntilPath: "partner_hidden_until" });
+
+registerPersonalDataHandler("matches", {
+  export: async userId => Match.find({ user: userId }).select("-__v").lean().exec(),
+  erase:  async userId => {
+    await Match.deleteMany({ $or: [{ user: userId }, { partner: userId }] }).exec();
+  }
+});
+
+export type Match = InstanceType<MatchModel>;
+export type MatchModel = typeof Match;
+export type MatchData = I.TypegooseDocProps<MatchType>;
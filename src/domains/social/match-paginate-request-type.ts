@@ -0,0 +1,14 @@
+import { MatchPaginator } from 'domains/social/match-model';
+import { makeFieldsEnum, makePaginateInputTypes } from 'graphql/pagination';
+
+export const MatchField = makeFieldsEnum(
+    'MatchField',
+    MatchPaginator.publicFields,
+    'Defines match fields available for sorting and filtering'
+);
+
+export const {
+    PaginateInputType: MatchPaginateRequestType
+} = makePaginateInputTypes('Match', MatchField);
+
+export type MatchPaginateRequestType = InstanceType<typeof MatchPaginateRequestType>;
@@ -0,0 +1,5 @@
+import { MatchType } from 'domains/social/match-model';
+import { makePaginatedType } from 'graphql/pagination';
+
+export const MatchPaginateResponseType = makePaginatedType('MatchPage', MatchType);
+export type  MatchPaginateResponseType = InstanceType<typeof MatchPaginateResponseType>;
@@ -0,0 +1,132 @@
+import _ from 'lodash';
+import * as I from 'modules/interfaces';
+import { MatchType, Match, MatchData, MatchPaginator } from 'domains/social/match-model';
+import { Swipe, SwipeAction } from 'domains/social/swipe-model';
+import { Block } from 'domains/social/block-model';
+import { UserType, User, UserTryCrud, makeNotHiddenCondition } from 'domains/users/model';
+import {
+    Resolver,
+    Query,
+    Arg,
+    Ctx,
+    Root,
+    Mutation,
+    FieldResolver,
+    Authorized
+} from 'type-graphql';
+import { ResolveContext } from 'graphql/resolve-context';
+import { toPublicPaginateOptions, SortOrder } from 'graphql/pagination';
+import { Permission } from 'modules/permissions';
+import { BadRequestError, NotFoundError } from 'modules/statused-error';
+import { IdNotFoundError } from 'modules/mongoose-utils/try-crud';
+import { nullable } from 'modules/flags';
+import { MatchPaginateRequestType } from 'domains/social/match-paginate-request-type';
+import { MatchPaginateResponseType } from 'domains/social/match-paginate-response-type';
+
+
+@Resolver(_of => MatchType)
+export class SocialResolver {
+
+    /**
+     * @throws BadRequestError | IdNotFoundError
+     * If the user likes oneself, there is no such user or it is blocked.
+     */
+    @Authorized(Permission.MatchSwipe)
+    @Mutation(_type => MatchType, {
+        nullable,
+        description: 'Returns the match if the like is mutual, null otherwise'
+    })
+    async like(@Ctx() {user}: ResolveContext, @Arg('userId') userId: I.ObjectId) {
+        await tryEnsureSwipeable(user!._id, userId);
+        await Swipe.swipe(user!._id, userId, SwipeAction.Like);
+        return Match.tryCreateIfMutual(user!._id, userId);
+    }
+
+    /**
+     * @throws BadRequestError | IdNotFoundError
+     * If the user passes oneself, there is no such user or it is blocked.
+     */
+    @Authorized(Permission.MatchSwipe)
+    @Mutation(_type => Boolean, { description: 'Replaces the like of the user if there is one' })
+    async pass(@Ctx() {user}: ResolveContext, @Arg('userId') userId: I.ObjectId) {
+        await tryEnsureSwipeable(user!._id, userId);
+        await Swipe.swipe(user!._id, userId, SwipeAction.Pass);
+        return true;
+    }
+
+    /**
+     * @throws NotFoundError
+     * If there is no match with the given user.
+     */
+    @Authorized(Permission.MatchSwipe)
+    @Mutation(_type => Boolean, {
+        description: 'Deletes the match, the user is considered passed, so they won\'t match again ' +
+                     'unless liked anew'
+    })
+    async unmatch(@Ctx() {user}: ResolveContext, @Arg('userId') userId: I.ObjectId) {
+        if (!await Match.deleteBetween(user!._id, userId)) {
+            throw new NotFoundError(`no match with user '${userId}' was found`);
+        }
+        await Swipe.swipe(user!._id, userId, SwipeAction.Pass);
+        return true;
+    }
+
+    /**
+     * @throws BadRequestError | IdNotFoundError
+     * If the user blocks oneself or there is no such user.
+     */
+    @Authorized(Permission.UserBlock)
+    @Mutation(_type => Boolean, {
+        description: 'Deletes the match with the user if there is one and hides both users ' +
+                     'from each other in all lists'
+    })
+    async block(@Ctx() {user}: ResolveContext, @Arg('userId') userId: I.ObjectId) {
+        if (user!._id.equals(userId)) {
+            throw new BadRequestError('blocking oneself is meaningless');
+        }
+        await UserTryCrud.tryFindById(userId);
+        await Block.blockUser(user!._id, userId);
+        return true;
+    }
+
+    @Authorized(Permission.MatchRead)
+    @Query(_returns => MatchPaginateResponseType, {
+        description: 'Returns matches of the current user, the newest ones go first, ' +
+                     'unless other sort order is specified'
+    })
+    async matches(
+        @Ctx() {user}: ResolveContext,
+        @Arg('req', _type => MatchPaginateRequestType) req: MatchPaginateRequestType
+    ): Promise<MatchPaginateResponseType> {
+        const options = toPublicPaginateOptions(req);
+        return MatchPaginator.paginate(
+            _.isEmpty(options.sort) ? { ...options, sort: { matched_at: SortOrder.Desc } } : options,
+            { filter: {
+                user:    user!._id,
+                partner:              await Block.makeVisibleUsersFilter(user!._id),
+                partner_hidden_until: makeNotHiddenCondition()
+            }}
+        );
+    }
+
+    @FieldResolver(_type => UserType)
+    async partner(@Ctx() {loaders}: ResolveContext, @Root() { partner }: MatchData) {
+        return loaders.tryFindById(User, partner as I.ObjectId);
+    }
+
+}
+
+/**
+ * @throws BadRequestError | IdNotFoundError
+ * If `targetId` equals `userId`, there is no such user or the users blocked
+ * one another.
+ */
+async function tryEnsureSwipeable(userId: I.ObjectId, targetId: I.ObjectId) {
+    if (userId.equals(targetId)) {
+        throw new BadRequestError('swiping oneself is meaningless');
+    }
+    if (await Block.isBlockedBetween(userId, targetId)) {
+        throw new IdNotFoundError(targetId);
+    }
+    await UserTryCrud.tryFindById(targetId);
+}
@@ -0,0 +1,70 @@
+import * as Utils from "/modules/utils";
+import * as I from "/modules/interfaces";
+
+import { Typegoose, prop, staticMethod, index as compoundIndex, Ref } from "typegoose";
+import { required, index, unique } from "/modules/flags";
+import { UserType } from "/domains/users/model";
+import { registerPersonalDataHandler } from "/modules/personal-data";
+
+export enum SwipeAction {
+  Like = "like",
+  Pass = "pass"
+}
+
+/**
+ * Represents the decision of `user` about `target`, the latest one wins.
+ */
+@compoundIndex({ user: 1, target: 1 }, { unique })
+export class SwipeType extends Typegoose {
+  @prop({ required, ref: UserType })
+  user!: Ref<UserType>;
+
+  @prop({ required, index, ref: UserType })
+  target!: Ref<UserType>;
+
+  @prop({ required, enum: Object.values(SwipeAction) })
+  action!: SwipeAction;
+
+  @prop({ required, default: Date.now })
+  swiped_at!: Date;
+
+  /**
+   * Creates or replaces the swipe of the user with `userId` on `targetId`.
+   */
+  @staticMethod
+  static async swipe(
+    this: SwipeModel,
+    userId:   I.ObjectId,
+    targetId: I.ObjectId,
+    action:   SwipeAction
+  ) {
+    await Swipe.updateOne(
+      { user: userId, target: targetId },
+      { action, swiped_at: new Date },
+      { upsert: true }
+    ).exec();
+  }
+
+  /**
+   * Returns true if the user with `userId` likes the user with `targetId`.
+   */
+  @staticMethod
+  static async likes(this: SwipeModel, userId: I.ObjectId, targetId: I.ObjectId) {
+    return await Swipe.findOne({
+      user: userId, target: targetId, action: SwipeAction.Like
+    }).select("_id").lean().exec() != null;
+  }
+}
+
+export const Swipe = Utils.getModelFromTypegoose(SwipeType);
+
+registerPersonalDataHandler("swipes", {
+  export: async userId => Swipe.find({ user: userId }).select("-__v").lean().exec(),
+  erase:  async userId => {
+    await Swipe.deleteMany({ $or: [{ user: userId }, { target: userId }] }).exec();
+  }
+});
+
+export type Swipe = InstanceType<SwipeModel>;
+export type SwipeModel = typeof Swipe;
+export type SwipeData = I.TypegooseDocProps<SwipeType>;
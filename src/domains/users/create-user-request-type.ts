@@ -0,0 +1,24 @@
+import {
+    Field,
+    InputType
+} from 'type-graphql';
+
+import { UserPropLimits, UserRole, Credentials } from 'domains/users/model';
+import { LengthRange } from 'modules/decorators/length-range';
+
+
+@InputType()
+export class CreateUserRequestType implements Credentials {
+
+    @Field()
+    @LengthRange(UserPropLimits.UsernameLength)
+    username!: string;
+
+    @Field()
+    @LengthRange(UserPropLimits.PasswordLength)
+    password!: string;
+
+    @Field(_type => UserRole, { defaultValue: UserRole.Regular })
+    role!: UserRole;
+
+}
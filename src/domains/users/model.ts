@@ -1,15 +1,27 @@
+import _ from "lodash";
 import * as Config from "/config";
-import * as Crypto from "crypto";
 import * as Utils from "/modules/utils";
 import * as I from "/modules/interfaces";
 import * as JWT from "jsonwebtoken";
+import * as Mongoose from "mongoose";
 
 import { Typegoose, prop, staticMethod, instanceMethod, pre } from "typegoose";
 import { Field, ObjectType, registerEnumType } from "type-graphql";
-import { required, index, unique } from "/modules/flags";
-import { TryCrud } from "/modules/mongoose-utils/try-crud";
+import { required, index, unique, nullable } from "/modules/flags";
+import { TryCrud, MutationAuditor } from "/modules/mongoose-utils/try-crud";
+import { isDuplicateKeyError } from "/modules/mongoose-utils/mongo-errors";
 import { Paginator } from "/modules/mongoose-utils/paginate";
 import { IntegerRange } from "/modules/integer-range";
+import { ConflictError } from "/modules/statused-error";
+import { Permission } from "/modules/permissions";
+import { Restricted } from "/graphql/auth-checker";
+import { registerPersonalDataHandler } from "/modules/personal-data";
+import {
+  PasswordHasher,
+  ScryptAlgorithm,
+  Pbkdf2Algorithm,
+  LegacyHmacAlgorithm
+} from "/modules/password-hasher";
 
 export namespace UserPropLimits {
   export const PasswordLength = new IntegerRange(6, 38);
@@ -27,6 +39,17 @@ registerEnumType(UserRole, {
   description: "Identifies user access level"
 });
 
+export class UsernameTakenError extends ConflictError {
+  constructor(username: string) {
+    super(`username '${username}' is already taken`);
+  }
+}
+
+const passwordHasher = new PasswordHasher(new ScryptAlgorithm, [
+  new Pbkdf2Algorithm,
+  new LegacyHmacAlgorithm(Config.PasswordSalt)
+]);
+
 export interface Credentials {
   username: string;
   password: string;
@@ -36,8 +59,10 @@ export interface Credentials {
     if (!this.isModified('password')) {
         return next();
     }
-    this.password = UserType.encodePassword(this.password);
-    next();
+    passwordHasher.hash(this.password).then(
+        hash => { this.password = hash; next(); },
+        err  => next(err)
+    );
 })
 
 @ObjectType("User")
@@ -56,17 +81,53 @@ export class UserType extends Typegoose implements Credentials {
   @prop({ required })
   password!: string; // do not expose password as public GraphQL field
 
+  @Field()
+  @prop({ required, default: false })
+  disabled!: boolean;
+
   @Field()
   @prop({ required, index, unique })
   username!: string;
 
-  @Field()
+  @Field({ nullable, description: "Visible only with `user:read:private` permission" })
+  @Restricted(Permission.UserReadPrivate)
   @prop({ required, default: Date.now })
   init_date!: Date;
 
+  @Field({ nullable, description: "Visible only with `user:read:private` permission" })
+  @Restricted(Permission.UserReadPrivate)
+  @prop({ required, default: false })
+  banned!: boolean;
+
+  @Field(_type => Date, {
+    nullable,
+    description: "Visible only with `user:read:private` permission"
+  })
+  @Restricted(Permission.UserReadPrivate)
+  @prop()
+  suspended_until?: I.Maybe<Date>;
+
+  @Field(_type => Date, {
+    nullable,
+    description: "Visible only with `user:read:private` permission, deleted users " +
+                 "are removed permanently after the grace period"
+  })
+  @Restricted(Permission.UserReadPrivate)
+  @prop({ index })
+  deleted_at?: I.Maybe<Date>; // enables soft deletion in `UserTryCrud` and `UserPaginator`
+
+  @prop({ index })
+  hidden_until?: I.Maybe<Date>; // see `getHiddenUntil()`, kept by `syncHiddenUntil()`
+
+  @prop({ required, default: 0 })
+  photo_count!: number; // kept by `Photo`, enforces `Config.Photos.MaxCount` atomically
+
   /**
-   * Searches for `User` with the given `username` and `password`. Password is
-   * automatically encoded before being propagated to the mongoose.
+   * Searches for not deleted, disabled, banned or suspended `User` with the given `username` and verifies
+   * its `password`. If the password hash was made by a deprecated algorithm
+   * or with outdated parameters, it is transparently rehashed. The password
+   * is hashed even if there is no such user, so that response time doesn't
+   * reveal whether the username exists.
    *
    * @param username Target user username.
    * @param password Raw target user password.
@@ -77,40 +138,257 @@ export class UserType extends Typegoose implements Credentials {
     this: UserModel,
     { username, password }: Credentials
   ) {
-    return User.findOne({
+    const user = await User.findOne({
       username,
-      password: this.encodePassword(password)
+      disabled:        { $ne: true },
+      banned:          { $ne: true },
+      suspended_until: { $not: { $gt: new Date } },
+      deleted_at:      null
+    }).exec();
+    if (user == null) {
+      await passwordHasher.verifyNothing(password);
+      return null;
+    }
+    if (!await passwordHasher.verify(password, user.password)) {
+      return null;
+    }
+    if (passwordHasher.needsRehash(user.password)) {
+      user.password = password;
+      await user.save();
+    }
+    return user;
+  }
+
+  /**
+   * Throws if there are legacy password hashes, but `PASSWORD_SALT` they
+   * were made with is not set, since their users couldn't log in otherwise.
+   */
+  @staticMethod
+  static async tryEnsureLegacyPasswordsVerifiable(this: UserModel) {
+    if (Config.PasswordSalt !== "") {
+      return;
+    }
+    const legacyUser = await User
+      .findOne({ password: PasswordHasher.LegacyHashPattern })
+      .select("_id")
+      .lean()
+      .exec();
+    if (legacyUser == null) {
+      return;
+    }
+    throw new Error(
+      "'PASSWORD_SALT' environment variable must be set in order to verify legacy password hashes"
+    );
+  }
+
+  /**
+   * Returns `hidden_until` of the users with the given ids mapped by their
+   * string ids, it is meant to initialize mirrors in new documents.
+   */
+  @staticMethod
+  static async getHiddenUntilOf(this: UserModel, ids: I.ObjectId[]) {
+    const users: Array<Pick<UserData, "hidden_until"> & { _id: I.ObjectId }> = await User
+      .find({ _id: { $in: ids } })
+      .select("hidden_until")
+      .lean()
+      .exec();
+    return new Map(users.map(
+      ({ _id, hidden_until }) => [String(_id), hidden_until] as [string, I.Maybe<Date>]
+    ));
+  }
+
+  /**
+   * Updates `hidden_until` of the user and its copies in the registered
+   * mirrors (see `registerHiddenUntilMirror()`), it must be called after
+   * the user is deleted, restored, disabled, enabled, banned or suspended.
+   *
+   * @param id Id of the user, deleted ones are included.
+   */
+  @staticMethod
+  static async syncHiddenUntil(this: UserModel, id: I.ObjectId) {
+    const user: I.Maybe<UserData> = await User.findById(id).lean().exec();
+    if (user == null) {
+      return;
+    }
+    const hiddenUntil = getHiddenUntil(user);
+    await User.updateOne({ _id: id }, { hidden_until: hiddenUntil }).exec();
+    for (const { model, userPath, hiddenUntilPath } of hiddenUntilMirrors) {
+      await model.updateMany({ [userPath]: id }, { [hiddenUntilPath]: hiddenUntil }).exec();
+    }
+  }
+
+  /**
+   * Creates new `User` with the given properties.
+   *
+   * @param props Properties of the new user, `password` must be raw.
+   *
+   * @throws UsernameTakenError | Error
+   * If user with the given `username` already exists or mongoose ODM throws.
+   */
+  @staticMethod
+  static async tryCreate(this: UserModel, props: Credentials & Partial<UserData>) {
+    if (await this.findOne({ username: props.username }).select("_id").lean().exec()) {
+      throw new UsernameTakenError(props.username);
+    }
+    return this.create(props).catch((err: unknown) => {
+      // unique index violation may happen due to concurrent requests
+      if (isDuplicateKeyError(err)) {
+        throw new UsernameTakenError(props.username);
+      }
+      throw err;
     });
   }
 
   /**
-   * Returns a hash-encoded representation of password to store in the database.
-   * @param password Real password to be encoded.
+   * Returns mongoose update object for the given user properties. Password is
+   * encoded and nullish properties are omitted.
+   * @param props User properties to update.
    */
   @staticMethod
-  public static encodePassword(password: string) {
-    const hash = Crypto.createHmac("sha512", Config.PasswordSalt);
-    hash.update(password);
-    return hash.digest("hex");
+  static async makeUpdate(
+    this: UserModel,
+    { password, ...props }: { password?: I.Maybe<string>; [prop: string]: unknown; }
+  ) {
+    return _.omitBy(
+      { ...props, password: password == null ? null : await passwordHasher.hash(password) },
+      _.isNil
+    );
   }
 
+  /**
+   * Updates the not soft-deleted user with the given properties, see `makeUpdate()`.
+   * Returns the updated user.
+   *
+   * @param id    Id of the user to update.
+   * @param props User properties to update, `password` must be raw.
+   * @param audit Auditor to notify about the update.
+   *
+   * @throws IdNotFoundError | UsernameTakenError | Error
+   * If there is no such user, `username` is taken or mongoose ODM throws.
+   */
+  @staticMethod
+  static async tryUpdate(
+    this:   UserModel,
+    id:     I.ObjectId,
+    props:  { username?: I.Maybe<string>; password?: I.Maybe<string>; },
+    audit?: I.Maybe<MutationAuditor>
+  ) {
+    return UserTryCrud.tryUpdateById(id, await User.makeUpdate(props), audit).catch((err: unknown) => {
+      if (props.username != null && isDuplicateKeyError(err)) {
+        throw new UsernameTakenError(props.username);
+      }
+      throw err;
+    });
+  }
+
+  /**
+   * Returns short-lived access token, that is bound to the given session.
+   * @param sessionId Id of the session, that the token is issued for.
+   */
   @instanceMethod
-  makeJWT(this: User) {
+  makeJWT(this: User, sessionId: I.ObjectId) {
     const customPayload: I.JWT.Payload = {
-      sub: String(this._id)
+      sub: String(this._id),
+      sid: String(sessionId)
     };
-    return JWT.sign(customPayload, Config.JWT.KeyPair.private, {
+    const { kid, privateKey } = Config.JWT.Keys.tryGetSigningKey();
+    return JWT.sign(customPayload, privateKey, {
+      keyid:     kid,
       expiresIn: Config.JWT.ExpirationTime,
       algorithm: Config.JWT.EncodingAlgorithm
     });
   }
 }
 
+/**
+ * Returns the reason, why the user may not access the API, or `null`
+ * if there is no such one.
+ */
+export function getAccessDenialReason(
+  { disabled, banned, suspended_until }: Pick<UserData, "disabled" | "banned" | "suspended_until">
+) {
+  return disabled ? "user is disabled" :
+         banned   ? "user is banned"   :
+         suspended_until != null && suspended_until > new Date
+         ? `user is suspended until ${suspended_until.toISOString()}`
+         : null;
+}
+
+/**
+ * Date, that hides the user for good.
+ */
+export const HiddenForever = new Date(8.64e15);
+
+/**
+ * Returns the date until which the user must be hidden from the lists shown
+ * to other users or `null` if the user is active. Deleted, disabled and banned
+ * users are hidden for good, suspended ones until the suspension ends.
+ */
+export function getHiddenUntil(
+  { deleted_at, disabled, banned, suspended_until }:
+  Pick<UserData, "deleted_at" | "disabled" | "banned" | "suspended_until">
+) {
+  return deleted_at != null || disabled || banned ? HiddenForever :
+         suspended_until != null && suspended_until > new Date ? suspended_until :
+         null;
+}
+
+/**
+ * Returns mongoose condition for a `hidden_until` field or its mirror, that
+ * matches only active users.
+ */
+export function makeNotHiddenCondition() {
+  return { $not: { $gt: new Date } };
+}
+
+/**
+ * Defines a model, that keeps a copy of `hidden_until` of the user it
+ * references, so that its lists may exclude inactive users with an indexed
+ * query. New documents of the model must copy it from the user.
+ */
+export interface HiddenUntilMirror {
+  model:           Mongoose.Model<Mongoose.Document>;
+  userPath:        string;
+  hiddenUntilPath: string;
+}
+
+const hiddenUntilMirrors: HiddenUntilMirror[] = [];
+
+/**
+ * Makes `User.syncHiddenUntil()` update the mirror, it is meant to be called
+ * once the model is defined.
+ */
+export function registerHiddenUntilMirror(mirror: HiddenUntilMirror) {
+  hiddenUntilMirrors.push(mirror);
+}
+
 export const User = Utils.getModelFromTypegoose(UserType);
 
 export const UserTryCrud = new TryCrud(User);
-export const UserPaginator = new Paginator<UserData, User>({ model: User });
+
+/**
+ * Fields, that reveal account state, most of them are visible only with
+ * `user:read:private` permission. They must not be used for sorting and
+ * filtering, otherwise their values could be inferred from the results.
+ */
+const PrivateFields = [
+  "init_date", "banned", "suspended_until", "deleted_at", "disabled", "hidden_until"
+] as const;
+
+export const UserPaginator = new Paginator<UserData, User, UserPublicField>({
+  model:   User,
+  aliases: { _id: "id" },
+  hidden:  ["password", "photo_count", ...PrivateFields]
+});
+
+registerPersonalDataHandler("users", {
+  export: async userId => User.findById(userId).select("-password -photo_count -__v").lean().exec(),
+  erase:  async userId => { await User.deleteOne({ _id: userId }).exec(); }
+});
 
 export type User = InstanceType<UserModel>;
 export type UserModel = typeof User;
 export type UserData = I.TypegooseDocProps<UserType>;
+export type UserPublicField = Extract<
+  Exclude<keyof UserData, "password" | "photo_count" | typeof PrivateFields[number]>, string
+>;
@@ -1,25 +1,211 @@
 import * as I from "modules/interfaces";
-import { UserType, UserTryCrud, User } from 'domains/users/model';
+import { UserType, UserTryCrud, User, UserPaginator, UserRole, makeNotHiddenCondition } from 'domains/users/model';
+import { Block } from 'domains/social/block-model';
+import { Session } from 'domains/sessions/model';
 import {
     Resolver,
     Query,
     Arg,
-    Mutation
+    Ctx,
+    Mutation,
+    Authorized
 } from 'type-graphql';
+import { ResolveContext } from 'graphql/resolve-context';
+import { AuthorizedOwner } from 'graphql/auth-checker';
+import { Cost } from 'graphql/query-limits';
+import { Permission, hasPermission } from 'modules/permissions';
+import { ForbiddenError } from 'modules/statused-error';
+import { erasePersonalData } from 'modules/personal-data';
+import { auditMutation, recordAuditEvent } from 'graphql/audit';
+import {
+    toPublicPaginateOptions,
+    toPublicCursorPaginateOptions
+} from 'graphql/pagination';
+import {
+    UserPaginateRequestType,
+    UserCursorPaginateRequestType
+} from 'domains/users/user-paginate-request-type';
+import {
+    UserPaginateResponseType,
+    UserConnectionType
+} from 'domains/users/user-paginate-response-type';
+import { CreateUserRequestType } from 'domains/users/create-user-request-type';
+import { UpdateUserRequestType } from 'domains/users/update-user-request-type';
 
 
 @Resolver()
 export class UserResolver {// implements ResolverInterface<UserData> {
 
+    /**
+     * @throws IdNotFoundError | ForbiddenError
+     * If there is no such user or `includeDeleted` is requested without
+     * `user:delete` permission.
+     */
+    @Authorized(Permission.UserRead)
+    @Query(_returns => UserType)
+    async getUser(
+        @Ctx() {user, loaders}: ResolveContext,
+        @Arg('id') id: I.ObjectId,
+        @Arg('includeDeleted', { defaultValue: false }) includeDeleted: boolean
+    ) {
+        tryEnsureCanIncludeDeleted(user!, includeDeleted);
+        return loaders.tryFindById(User, id, { includeDeleted });
+    }
+
+    @Authorized()
     @Query(_returns => UserType)
-    async getUser(@Arg('id') id: I.ObjectId) {
-        return UserTryCrud.tryFindById(id);
+    async me(@Ctx() {user}: ResolveContext) {
+        return user!;
+    }
+
+    @Authorized(Permission.UserRead)
+    @Cost(2)
+    @Query(_returns => UserPaginateResponseType)
+    async users(
+        @Ctx() {user}: ResolveContext,
+        @Arg('req', _type => UserPaginateRequestType) req: UserPaginateRequestType,
+        @Arg('includeDeleted', {
+            defaultValue: false,
+            description:  'Requires `user:delete` permission'
+        }) includeDeleted: boolean
+    ): Promise<UserPaginateResponseType> {
+        tryEnsureCanIncludeDeleted(user!, includeDeleted);
+        return UserPaginator.paginate(
+            toPublicPaginateOptions(req),
+            {
+                filter: {
+                    _id: await Block.makeVisibleUsersFilter(user!._id),
+                    // deleted users are hidden too, so they are listed only if requested
+                    ...(includeDeleted ? {} : { hidden_until: makeNotHiddenCondition() })
+                },
+                includeDeleted
+            }
+        );
+    }
+
+    @Authorized(Permission.UserRead)
+    @Cost(2)
+    @Query(_returns => UserConnectionType)
+    async usersConnection(
+        @Ctx() {user}: ResolveContext,
+        @Arg('req', _type => UserCursorPaginateRequestType) req: UserCursorPaginateRequestType
+    ): Promise<UserConnectionType> {
+        return UserPaginator.paginateByCursor(
+            toPublicCursorPaginateOptions(req),
+            { filter: {
+                _id:          await Block.makeVisibleUsersFilter(user!._id),
+                hidden_until: makeNotHiddenCondition()
+            }}
+        );
+    }
+
+    @Authorized(Permission.UserCreate)
+    @Mutation(_type => UserType)
+    async createUser(@Ctx() context: ResolveContext, @Arg('req') req: CreateUserRequestType) {
+        const user = await User.tryCreate(req);
+        await recordAuditEvent(context, {
+            action: 'user.create', targetModel: User.modelName, targetId: user._id, after: user.toObject()
+        });
+        return user;
+    }
+
+    @AuthorizedOwner({
+        any:        Permission.UserUpdateAny,
+        own:        Permission.UserUpdateSelf,
+        getOwnerId: ({args}) => args.id
+    })
+    @Mutation(_type => UserType)
+    async updateUser(
+        @Ctx() context: ResolveContext,
+        @Arg('id') id: I.ObjectId,
+        @Arg('req') req: UpdateUserRequestType
+    ) {
+        return primed(context, await User.tryUpdate(id, req, auditMutation(context, 'user.update')));
     }
 
+    @Authorized(Permission.UserUpdateSelf)
     @Mutation(_type => UserType)
-    async createUser(@Arg('name') name: string, @Arg('password') password: string) {
-        return User.create({ name, password, username: name });
+    async updateMe(@Ctx() context: ResolveContext, @Arg('req') req: UpdateUserRequestType) {
+        return primed(context, await User.tryUpdate(context.user!._id, req));
+    }
+
+    @Authorized(Permission.UserDelete)
+    @Mutation(_type => UserType, {
+        description: 'Revokes all sessions of the user and marks it as deleted, ' +
+                     'it may be restored until the grace period expires'
+    })
+    async deleteUser(@Ctx() context: ResolveContext, @Arg('id') id: I.ObjectId) {
+        const user = await UserTryCrud.tryDeleteById(id, auditMutation(context, 'user.delete'));
+        await Session.revokeAllOf(id);
+        await User.syncHiddenUntil(id);
+        return primed(context, user);
+    }
+
+    @Authorized(Permission.UserDelete)
+    @Mutation(_type => UserType, { description: 'Restores the user deleted by `deleteUser`' })
+    async restoreUser(@Ctx() context: ResolveContext, @Arg('id') id: I.ObjectId) {
+        const user = await UserTryCrud.tryRestoreById(id, auditMutation(context, 'user.restore'));
+        await User.syncHiddenUntil(id);
+        return primed(context, user);
+    }
+
+    @Authorized(Permission.UserDelete)
+    @Mutation(_type => UserType, {
+        description: 'Removes the user permanently along with all their data'
+    })
+    async purgeUser(@Ctx() context: ResolveContext, @Arg('id') id: I.ObjectId) {
+        const user = await UserTryCrud.tryFindById(id, { includeDeleted: true });
+        await Session.revokeAllOf(id);
+        // the user document is removed by its own handler after all linked data,
+        // so that failed erasure may be retried the same way as by the purge scheduler
+        await erasePersonalData(id);
+        await recordAuditEvent(context, { action: 'user.purge', targetModel: User.modelName, targetId: id });
+        context.loaders.clear(User);
+        return user;
+    }
+
+    @Authorized(Permission.UserUpdateRole)
+    @Mutation(_type => UserType)
+    async changeRole(
+        @Ctx() context: ResolveContext,
+        @Arg('id') id: I.ObjectId,
+        @Arg('role', _type => UserRole) role: UserRole
+    ) {
+        return primed(context, await UserTryCrud.tryUpdateById(
+            id, { role }, auditMutation(context, 'user.change_role')
+        ));
+    }
+
+    @Authorized(Permission.UserDisable)
+    @Mutation(_type => UserType)
+    async setUserDisabled(
+        @Ctx() context: ResolveContext,
+        @Arg('id') id: I.ObjectId,
+        @Arg('disabled') disabled: boolean
+    ) {
+        const user = await UserTryCrud.tryUpdateById(
+            id, { disabled }, auditMutation(context, 'user.set_disabled')
+        );
+        await User.syncHiddenUntil(id);
+        return primed(context, user);
     }
 
 }
 
+/**
+ * @throws ForbiddenError
+ * If `includeDeleted` is requested by the user without `user:delete` permission.
+ */
+function tryEnsureCanIncludeDeleted(user: User, includeDeleted: boolean) {
+    if (includeDeleted && !hasPermission(user.role, Permission.UserDelete)) {
+        throw new ForbiddenError(`'${Permission.UserDelete}' permission is required to include deleted users`);
+    }
+}
+
+/**
+ * Caches the updated user for field resolvers of the current operation.
+ */
+function primed(context: ResolveContext, user: User) {
+    context.loaders.prime(User, user);
+    return user;
+}
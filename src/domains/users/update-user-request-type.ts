@@ -0,0 +1,31 @@
+import * as I from 'modules/interfaces';
+import {
+    Field,
+    InputType
+} from 'type-graphql';
+import { IsOptional } from 'class-validator';
+
+import { UserPropLimits } from 'domains/users/model';
+import { LengthRange } from 'modules/decorators/length-range';
+import { nullable    } from 'modules/flags';
+
+
+/**
+ * Defines user properties, that are allowed to be updated both by their owner
+ * and by admins. Use dedicated mutations in order to change `role` or
+ * `disabled` properties.
+ */
+@InputType()
+export class UpdateUserRequestType {
+
+    @Field(_type => String, { nullable })
+    @IsOptional()
+    @LengthRange(UserPropLimits.UsernameLength)
+    username?: I.Maybe<string>;
+
+    @Field(_type => String, { nullable })
+    @IsOptional()
+    @LengthRange(UserPropLimits.PasswordLength)
+    password?: I.Maybe<string>;
+
+}
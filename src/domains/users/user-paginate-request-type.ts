@@ -0,0 +1,21 @@
+import { UserPaginator } from 'domains/users/model';
+import { makeFieldsEnum, makePaginateInputTypes } from 'graphql/pagination';
+
+export const UserField = makeFieldsEnum(
+    'UserField',
+    UserPaginator.publicFields,
+    'Defines user fields available for sorting and filtering'
+);
+export const UserSearchField = makeFieldsEnum(
+    'UserSearchField',
+    UserPaginator.searchableFields,
+    'Defines user fields available for searching'
+);
+
+export const {
+    PaginateInputType:       UserPaginateRequestType,
+    CursorPaginateInputType: UserCursorPaginateRequestType
+} = makePaginateInputTypes('User', UserField, UserSearchField);
+
+export type UserPaginateRequestType       = InstanceType<typeof UserPaginateRequestType>;
+export type UserCursorPaginateRequestType = InstanceType<typeof UserCursorPaginateRequestType>;
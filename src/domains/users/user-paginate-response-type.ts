@@ -0,0 +1,8 @@
+import { UserType } from 'domains/users/model';
+import { makePaginatedType, makeConnectionType } from 'graphql/pagination';
+
+export const UserPaginateResponseType = makePaginatedType('UserPage', UserType);
+export type  UserPaginateResponseType = InstanceType<typeof UserPaginateResponseType>;
+
+export const UserConnectionType = makeConnectionType('UserConnection', UserType);
+export type  UserConnectionType = InstanceType<typeof UserConnectionType>;
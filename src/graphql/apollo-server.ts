@@ -1,20 +1,54 @@
 import * as I      from 'modules/interfaces';
+import * as Config from 'config';
 import * as Apollo from 'apollo-server-express';
 import { buildSchema } from "type-graphql";
 import { GqlObjectIdScalar } from "graphql/scalars/object-id";
-import { makeContext       } from 'graphql/resolve-context';
+import { makePubSub        } from 'graphql/pub-sub';
+import {
+    makeContext,
+    makeConnectionContext
+} from 'graphql/resolve-context';
 import { authChecker       } from 'graphql/auth-checker';
+import { formatError       } from 'graphql/format-error';
+import {
+    applyDeclaredCosts,
+    makeDepthLimitRule,
+    makeQueryLimitsPlugin
+} from 'graphql/query-limits';
+import {
+    makeApolloCache,
+    makePersistedQueriesPlugin
+} from 'graphql/persisted-queries';
+import { persistedQueryStore } from 'domains/persisted-queries/store';
 
 export async function makeApolloServer() {
+    applyDeclaredCosts();
+    const schema = await buildSchema({
+        resolvers:      [`${__dirname}/../domains/*/resolver.js`],
+        emitSchemaFile: 'src/common/schema.graphql',
+        scalarsMap:     [{scalar: GqlObjectIdScalar, type: I.ObjectId }],
+        pubSub:         makePubSub(),
+        authChecker
+    });
     return new Apollo.ApolloServer({
-        playground:    true,
-        introspection: true,
-        schema: await buildSchema({
-            resolvers:      [`${__dirname}/../domains/*/resolver.js`],
-            emitSchemaFile: 'src/common/schema.graphql',
-            scalarsMap:     [{scalar: GqlObjectIdScalar, type: I.ObjectId }],
-            authChecker
-        }),
-        context:     makeContext
+        playground:       Config.GraphQL.Playground,
+        introspection:    Config.GraphQL.Introspection,
+        schema,
+        validationRules:  [makeDepthLimitRule(Config.GraphQL.MaxDepth)],
+        persistedQueries: { cache: makeApolloCache(persistedQueryStore) },
+        plugins:          [makePersistedQueriesPlugin(), makeQueryLimitsPlugin(schema)],
+        uploads: {
+            maxFileSize: Config.Photos.MaxFileSize,
+            maxFiles:    1
+        },
+        context:     makeContext,
+        subscriptions: {
+            path: '/graphql',
+            onConnect: (connectionParams, _webSocket, { request }) => (
+                makeConnectionContext(connectionParams, request)
+            )
+        },
+        debug:       Config.IsDevelopment,
+        formatError
     });
 }
@@ -0,0 +1,62 @@
+import * as I from 'modules/interfaces';
+import { UseMiddleware, ResolverData } from 'type-graphql';
+import { ResolveContext } from 'graphql/resolve-context';
+import { AuditEvent, AuditEventProps } from 'domains/audit/model';
+import { MutationAuditor } from 'modules/mongoose-utils/try-crud';
+
+/**
+ * Records the event from the client IP, the current user is the actor
+ * unless other one is specified.
+ *
+ * @param context Context of the operation, that caused the event.
+ * @param props   Description of the event.
+ */
+export async function recordAuditEvent(
+    { user, ip }: ResolveContext,
+    props:        Pick<AuditEventProps, Exclude<keyof AuditEventProps, 'ip'>>
+) {
+    await AuditEvent.record({ actor: user == null ? null : user._id, ...props, ip });
+}
+
+/**
+ * Returns auditor for `TryCrud` mutations, that records their changes
+ * as `action` events.
+ *
+ * @param context Context of the operation, that makes the mutation.
+ * @param action  Name of the action to record.
+ */
+export function auditMutation(context: ResolveContext, action: string): MutationAuditor {
+    return {
+        record: ({ modelName, id, before, after }) => recordAuditEvent(context, {
+            action, targetModel: modelName, targetId: id, before, after
+        })
+    };
+}
+
+export interface AuditRule {
+    /**
+     * Name of the action to record.
+     */
+    action:       string;
+    targetModel?: I.Maybe<string>;
+    /**
+     * Returns the id of the target document of the action.
+     */
+    getTargetId?(data: ResolverData<ResolveContext>): I.Maybe<I.ObjectId>;
+}
+
+/**
+ * Records `action` event after the resolver succeeds, use `auditMutation()`
+ * if the changes of the target document are needed.
+ */
+export function Audited({ action, targetModel, getTargetId }: AuditRule) {
+    return UseMiddleware(async (data: ResolverData<ResolveContext>, next) => {
+        const result = await next();
+        await recordAuditEvent(data.context, {
+            action,
+            targetModel,
+            targetId: getTargetId == null ? null : getTargetId(data)
+        });
+        return result;
+    });
+}
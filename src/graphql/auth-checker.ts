@@ -1,7 +1,79 @@
-import { AuthChecker    } from "type-graphql";
+import * as I from "modules/interfaces";
+import { AuthChecker, UseMiddleware, ResolverData } from "type-graphql";
 import { ResolveContext } from "graphql/resolve-context";
 import { UserRole       } from "domains/users/model";
+import { Permission, hasPermission } from "modules/permissions";
+import { UnAuthorizedError, ForbiddenError } from "modules/statused-error";
 
-export const authChecker: AuthChecker<ResolveContext, UserRole> = ({context: {user}}, roles) => (
-    user != null && roles.includes(user.role)
-);
+export type AccessRule = UserRole | Permission;
+
+/**
+ * Allows access to any authenticated user if `rules` are empty, otherwise
+ * only to users which role is included in `rules` or is granted any of
+ * the permissions from `rules`.
+ *
+ * @throws UnAuthorizedError | ForbiddenError
+ */
+export const authChecker: AuthChecker<ResolveContext, AccessRule> = ({context: {user}}, rules) => {
+    if (user == null) {
+        throw new UnAuthorizedError;
+    }
+    if (
+        rules.length === 0 ||
+        rules.some(rule => rule === user.role || hasPermission(user.role, rule as Permission))
+    ) {
+        return true;
+    }
+    throw new ForbiddenError(`one of the following is required: ${rules.join(', ')}`);
+};
+
+export interface OwnershipRule {
+    /**
+     * Permission to access any document.
+     */
+    any: Permission;
+    /**
+     * Permission to access documents, that are owned by the user.
+     */
+    own: Permission;
+    /**
+     * Returns the id of the user, that owns the target document, or `null` if
+     * there is no such document.
+     */
+    getOwnerId(data: ResolverData<ResolveContext>): I.Maybe<I.ObjectId> | Promise<I.Maybe<I.ObjectId>>;
+}
+
+/**
+ * Allows access to users with `any` permission and to the owner
+ * of the target document if they have `own` permission.
+ *
+ * @throws UnAuthorizedError | ForbiddenError
+ */
+export function AuthorizedOwner({ any, own, getOwnerId }: OwnershipRule) {
+    return UseMiddleware(async (data: ResolverData<ResolveContext>, next) => {
+        const { user } = data.context;
+        if (user == null) {
+            throw new UnAuthorizedError;
+        }
+        if (hasPermission(user.role, any)) {
+            return next();
+        }
+        if (hasPermission(user.role, own)) {
+            const ownerId = await getOwnerId(data);
+            if (ownerId != null && user._id.equals(ownerId)) {
+                return next();
+            }
+        }
+        throw new ForbiddenError(`'${any}' permission or ownership with '${own}' is required`);
+    });
+}
+
+/**
+ * Resolves the field to `null` for users without `permission`,
+ * so the field must be nullable.
+ */
+export function Restricted(permission: Permission) {
+    return UseMiddleware(async ({context: {user}}: ResolverData<ResolveContext>, next) => (
+        user != null && hasPermission(user.role, permission) ? next() : null
+    ));
+}
@@ -0,0 +1,97 @@
+import * as Crypto    from 'crypto';
+import * as HttpCodes from 'http-status-codes';
+import * as Config    from 'config';
+import { GraphQLError, GraphQLFormattedError } from 'graphql';
+import { ArgumentValidationError } from 'type-graphql';
+import { ValidationError } from 'class-validator';
+import { StatusedError } from 'modules/statused-error';
+import { Log } from 'modules/debug';
+
+/**
+ * Stable `extensions.code` values of GraphQL errors, mapped from HTTP statuses
+ * of `StatusedError`s. Any status, that is not listed here is reported as
+ * `INTERNAL_SERVER_ERROR`.
+ */
+export const ErrorCodes: Readonly<Record<number, string>> = {
+    [HttpCodes.BAD_REQUEST]:       'BAD_USER_INPUT',
+    [HttpCodes.UNAUTHORIZED]:      'UNAUTHENTICATED',
+    [HttpCodes.FORBIDDEN]:         'FORBIDDEN',
+    [HttpCodes.NOT_FOUND]:         'NOT_FOUND',
+    [HttpCodes.CONFLICT]:          'CONFLICT',
+    [HttpCodes.TOO_MANY_REQUESTS]: 'TOO_MANY_REQUESTS'
+};
+const InternalErrorCode = 'INTERNAL_SERVER_ERROR';
+
+export interface InvalidField {
+    /**
+     * Dot-separated path to the field within the argument object.
+     */
+    field:    string;
+    messages: string[];
+}
+
+/**
+ * Formats GraphQL errors for `ApolloServer`, so that `extensions` contain
+ * `code`, HTTP `status`, `errorId`, which is also logged with the error, and
+ * `StatusedError.extensions`. Argument validation errors list `invalidFields`.
+ * Internal errors are masked outside development mode.
+ */
+export function formatError(error: GraphQLError): GraphQLFormattedError {
+    const { originalError }  = error;
+    const { status, code }   = classifyError(error);
+    const isInternal = code === InternalErrorCode;
+    const errorId    = Crypto.randomBytes(8).toString('hex');
+
+    if (isInternal) {
+        Log.error(originalError || error, `GraphQL error ${errorId}`);
+    } else {
+        Log.warning({ code, message: error.message, path: error.path }, `GraphQL error ${errorId}`);
+    }
+    return {
+        message:   isInternal && !Config.IsDevelopment ? 'Internal server error' : error.message,
+        locations: error.locations,
+        path:      error.path,
+        extensions: {
+            ...(originalError instanceof StatusedError ? originalError.extensions : {}),
+            code,
+            status,
+            errorId,
+            ...(originalError instanceof ArgumentValidationError
+                ? { invalidFields: flattenValidationErrors(originalError.validationErrors) }
+                : {}
+            ),
+            ...(Config.IsDevelopment && error.extensions ? { exception: error.extensions.exception } : {})
+        }
+    };
+}
+
+/**
+ * Returns HTTP status and `code` of the error. Codes of GraphQL parsing and
+ * validation errors, that are set by Apollo, are preserved.
+ */
+function classifyError({ originalError, extensions }: GraphQLError) {
+    if (originalError instanceof StatusedError && originalError.status in ErrorCodes) {
+        return { status: originalError.status, code: ErrorCodes[originalError.status] };
+    }
+    const apolloCode: unknown = extensions && extensions.code;
+    if (typeof apolloCode === 'string' && apolloCode !== InternalErrorCode) {
+        return { status: HttpCodes.BAD_REQUEST, code: apolloCode };
+    }
+    // errors without `originalError` are made by GraphQL itself, e.g. when variables are invalid
+    if (originalError == null || originalError instanceof ArgumentValidationError) {
+        return { status: HttpCodes.BAD_REQUEST, code: ErrorCodes[HttpCodes.BAD_REQUEST] };
+    }
+    return { status: HttpCodes.INTERNAL_SERVER_ERROR, code: InternalErrorCode };
+}
+
+function flattenValidationErrors(errors: ValidationError[], parentPath = ''): InvalidField[] {
+    return errors.reduce<InvalidField[]>((fields, { property, constraints, children }) => {
+        const field = `${parentPath}${property}`;
+        if (constraints != null && Object.keys(constraints).length > 0) {
+            fields.push({ field, messages: Object.values(constraints) });
+        }
+        return children == null
+            ? fields
+            : fields.concat(flattenValidationErrors(children, `${field}.`));
+    }, []);
+}
@@ -0,0 +1,21 @@
+import { Field, InputType, Int } from 'type-graphql';
+import { IntegerRange } from 'modules/integer-range';
+
+@InputType('IntegerRangeInput', {
+    description: 'Range of integers [min, max), i.e. min is inclusive, but max is exclusive'
+})
+export class IntegerRangeInputType {
+    @Field(_type => Int)
+    min!: number;
+
+    @Field(_type => Int)
+    max!: number;
+}
+
+/**
+ * Converts GraphQL `IntegerRangeInput` to `IntegerRange`,
+ * bounds are swapped if `min > max`.
+ */
+export function toIntegerRange({ min, max }: IntegerRangeInputType) {
+    return new IntegerRange(min, max);
+}
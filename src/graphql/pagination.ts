@@ -0,0 +1,305 @@
+import _ from 'lodash';
+import * as I from 'modules/interfaces';
+import { Min, Max } from 'class-validator';
+import { Field, InputType, Int, ObjectType, registerEnumType } from 'type-graphql';
+import { nullable } from 'modules/flags';
+import {
+    PageInfo,
+    PublicPaginateOptions,
+    PublicCursorPaginateOptions
+} from 'modules/mongoose-utils/paginate';
+
+export namespace PaginationLimits {
+    export const MaxLimit = 100;
+}
+
+export enum SortOrder {
+    Asc  = 'asc',
+    Desc = 'desc'
+}
+
+registerEnumType(SortOrder, {
+    name:        'SortOrder',
+    description: 'Defines the order of sorted items'
+});
+
+/**
+ * Creates and registers GraphQL enum, which values are the given public fields
+ * names (typically taken from `Paginator.publicFields`).
+ *
+ * @param name        GraphQL enum type name.
+ * @param fields      Public fields names to make enum of.
+ * @param description GraphQL enum type description.
+ */
+export function makeFieldsEnum<TField extends string>(
+    name: string, fields: TField[], description?: string
+) {
+    const fieldsEnum = _.zipObject(fields, fields) as Record<TField, TField>;
+    registerEnumType(fieldsEnum, { name, description });
+    return fieldsEnum;
+}
+
+/**
+ * Defines search, sort and filter options, that are shared by offset and
+ * cursor pagination input types.
+ */
+export interface QueryInput<TField extends string, TSearchField extends string = TField> {
+    search?: I.Maybe<Array<{ field: TSearchField; value: string; }>>;
+    sort?:   I.Maybe<Array<{ field: TField; order: SortOrder; }>>;
+    filter?: I.Maybe<{
+        include?: I.Maybe<Array<{ field: TField; values: string[]; }>>;
+        exclude?: I.Maybe<Array<{ field: TField; values: string[]; }>>;
+    }>;
+}
+
+/**
+ * Defines an input type, that is mapped to `PublicPaginateOptions` via
+ * `toPublicPaginateOptions()`.
+ */
+export interface PaginateInput<TField extends string, TSearchField extends string = TField>
+extends QueryInput<TField, TSearchField> {
+    offset: number;
+    limit:  number;
+}
+
+/**
+ * Defines an input type, that is mapped to `PublicCursorPaginateOptions` via
+ * `toPublicCursorPaginateOptions()`.
+ */
+export interface CursorPaginateInput<TField extends string, TSearchField extends string = TField>
+extends QueryInput<TField, TSearchField> {
+    first?:  I.Maybe<number>;
+    after?:  I.Maybe<string>;
+    last?:   I.Maybe<number>;
+    before?: I.Maybe<string>;
+    total?:  I.Maybe<boolean>;
+}
+
+/**
+ * Creates GraphQL input type classes for paginating items of type named `name`
+ * by offset (`PaginateInputType`) and by cursor (`CursorPaginateInputType`).
+ *
+ * @param name          Name prefix for the created input types.
+ * @param fieldsEnum    Enum object of public fields to sort and filter by.
+ * @param searchEnum    Enum object of public fields to search by, input types
+ *                      have no `search` field if it is `null`.
+ */
+export function makePaginateInputTypes<TField extends string, TSearchField extends string = never>(
+    name:       string,
+    fieldsEnum: Record<TField, TField>,
+    searchEnum: I.Maybe<Record<TSearchField, TSearchField>> = null
+) {
+    @InputType(`${name}SortInput`)
+    class SortInput {
+        @Field(_type => fieldsEnum)
+        field!: TField;
+
+        @Field(_type => SortOrder, { defaultValue: SortOrder.Asc })
+        order!: SortOrder;
+    }
+
+    @InputType(`${name}FilterItemInput`)
+    class FilterItemInput {
+        @Field(_type => fieldsEnum)
+        field!: TField;
+
+        @Field(_type => [String])
+        values!: string[];
+    }
+
+    @InputType(`${name}FilterInput`)
+    class FilterInput {
+        @Field(_type => [FilterItemInput], { nullable })
+        include?: I.Maybe<FilterItemInput[]>;
+
+        @Field(_type => [FilterItemInput], { nullable })
+        exclude?: I.Maybe<FilterItemInput[]>;
+    }
+
+    @InputType({ isAbstract: true })
+    class BaseQueryInputType implements QueryInput<TField, TSearchField> {
+        search?: I.Maybe<Array<{ field: TSearchField; value: string; }>>;
+
+        @Field(_type => [SortInput], { nullable })
+        sort?: I.Maybe<SortInput[]>;
+
+        @Field(_type => FilterInput, { nullable })
+        filter?: I.Maybe<FilterInput>;
+    }
+
+    const QueryInputType = searchEnum == null
+        ? BaseQueryInputType
+        : withSearchField(name, searchEnum, BaseQueryInputType);
+
+    @InputType(`${name}PaginateInput`)
+    class PaginateInputType extends QueryInputType
+    implements PaginateInput<TField, TSearchField> {
+        @Field(_type => Int, { defaultValue: 0 })
+        @Min(0)
+        offset!: number;
+
+        @Field(_type => Int)
+        @Min(0) @Max(PaginationLimits.MaxLimit)
+        limit!: number;
+    }
+
+    @InputType(`${name}CursorPaginateInput`)
+    class CursorPaginateInputType extends QueryInputType
+    implements CursorPaginateInput<TField, TSearchField> {
+        @Field(_type => Int, { nullable })
+        @Min(0) @Max(PaginationLimits.MaxLimit)
+        first?: I.Maybe<number>;
+
+        @Field(_type => String, { nullable })
+        after?: I.Maybe<string>;
+
+        @Field(_type => Int, { nullable })
+        @Min(0) @Max(PaginationLimits.MaxLimit)
+        last?: I.Maybe<number>;
+
+        @Field(_type => String, { nullable })
+        before?: I.Maybe<string>;
+
+        @Field({ defaultValue: false, description: 'Whether to count total amount of items' })
+        total!: boolean;
+    }
+
+    return { PaginateInputType, CursorPaginateInputType };
+}
+
+/**
+ * Returns abstract input type class derived from `Base`, that
+ * exposes `search` field.
+ */
+function withSearchField<TSearchField extends string, TBase extends I.ClassType<{}>>(
+    name:       string,
+    searchEnum: Record<TSearchField, TSearchField>,
+    Base:       TBase
+) {
+    @InputType(`${name}SearchInput`)
+    class SearchInput {
+        @Field(_type => searchEnum)
+        field!: TSearchField;
+
+        @Field()
+        value!: string;
+    }
+
+    @InputType({ isAbstract: true })
+    class SearchableQueryInputType extends Base {
+        @Field(_type => [SearchInput], { nullable })
+        search?: I.Maybe<SearchInput[]>;
+    }
+
+    return SearchableQueryInputType;
+}
+
+/**
+ * Creates GraphQL object type class with the shape of `Paginated<TItem>`.
+ *
+ * @param name     GraphQL object type name.
+ * @param itemType Class of the paginated items GraphQL object type.
+ */
+export function makePaginatedType<TItem>(name: string, itemType: I.ClassType<TItem>) {
+    @ObjectType(name)
+    class PaginatedType {
+        @Field(_type => Int)
+        total!: number;
+
+        @Field(_type => [itemType])
+        data!: TItem[];
+    }
+    return PaginatedType;
+}
+
+@ObjectType('PageInfo')
+export class PageInfoType implements PageInfo {
+    @Field()
+    hasNextPage!: boolean;
+
+    @Field()
+    hasPreviousPage!: boolean;
+
+    @Field(_type => String, { nullable })
+    startCursor!: I.Maybe<string>;
+
+    @Field(_type => String, { nullable })
+    endCursor!: I.Maybe<string>;
+}
+
+/**
+ * Creates GraphQL object type class with the shape of `Connection<TItem>`.
+ *
+ * @param name     GraphQL object type name, edge type is named `${name}Edge`.
+ * @param itemType Class of the paginated items GraphQL object type.
+ */
+export function makeConnectionType<TItem>(name: string, itemType: I.ClassType<TItem>) {
+    @ObjectType(`${name}Edge`)
+    class EdgeType {
+        @Field()
+        cursor!: string;
+
+        @Field(_type => itemType)
+        node!: TItem;
+    }
+
+    @ObjectType(name)
+    class ConnectionType {
+        @Field(_type => [EdgeType])
+        edges!: EdgeType[];
+
+        @Field()
+        pageInfo!: PageInfoType;
+
+        @Field(_type => Int, { nullable })
+        total?: I.Maybe<number>;
+    }
+    return ConnectionType;
+}
+
+/**
+ * Converts GraphQL `PaginateInput` to `PublicPaginateOptions` for `Paginator`.
+ * Filter values of the same field are merged into one array.
+ *
+ * @param input Pagination input, that was passed to the resolver.
+ */
+export function toPublicPaginateOptions<TField extends string>(
+    { offset, limit, ...query }: PaginateInput<TField>
+): PublicPaginateOptions<TField> {
+    return { offset, limit, sort: {}, ...toPublicQueryOptions(query) };
+}
+
+/**
+ * Converts GraphQL `CursorPaginateInput` to `PublicCursorPaginateOptions`
+ * for `Paginator`.
+ *
+ * @param input Pagination input, that was passed to the resolver.
+ */
+export function toPublicCursorPaginateOptions<TField extends string>(
+    { first, after, last, before, total, ...query }: CursorPaginateInput<TField>
+): PublicCursorPaginateOptions<TField> {
+    return { first, after, last, before, total, ...toPublicQueryOptions(query) };
+}
+
+function toPublicQueryOptions<TField extends string>(
+    { search, sort, filter }: QueryInput<TField>
+) {
+    const toFilterObj = (items: I.Maybe<Array<{ field: TField; values: string[]; }>>) => (
+        items == null ? null : _.mapValues(
+            _.groupBy(items, item => item.field),
+            group => _.flatMap(group, item => item.values)
+        )
+    );
+    return {
+        search: search == null ? null : _.fromPairs(
+            search.map(({ field, value }) => [field, value])
+        ) as Partial<Record<TField, string>>,
+        sort: sort == null ? {} : _.fromPairs(
+            sort.map(({ field, order }) => [field, order])
+        ) as Partial<Record<TField, SortOrder>>,
+        filter: filter == null ? null : {
+            include: toFilterObj(filter.include),
+            exclude: toFilterObj(filter.exclude)
+        }
+    };
+}
@@ -0,0 +1,111 @@
+import _ from 'lodash';
+import * as Fs     from 'fs';
+import * as Config from 'config';
+import { GraphQLError } from 'graphql';
+import { ApolloServerPlugin } from 'apollo-server-plugin-base';
+import { KeyValueCache, InMemoryLRUCache } from 'apollo-server-caching';
+import { Log } from 'modules/debug';
+import {
+    PersistedQueryManifest,
+    PersistedQueryStore,
+    parseManifest
+} from 'modules/persisted-queries';
+import { persistedQueryStore } from 'domains/persisted-queries/store';
+
+// errors thrown by Apollo plugins lose their prototypes, so that they are
+// classified by `extensions.code` (see graphql/format-error)
+export class OperationNotAllowedError extends GraphQLError {
+    constructor() {
+        super(
+            'operation is not in the persisted queries manifest',
+            undefined, undefined, undefined, undefined, undefined,
+            { code: 'PERSISTED_QUERY_NOT_ALLOWED' }
+        );
+    }
+}
+
+/**
+ * Reads the manifest from `Config.PersistedQueries.ManifestPath`, it is
+ * optional unless `Config.GraphQL.PersistedQueriesOnly` is set.
+ *
+ * @throws Error
+ * If the manifest is invalid or it is missing in strict mode.
+ */
+function loadManifest(): PersistedQueryManifest {
+    const path = Config.PersistedQueries.ManifestPath;
+    if (!Fs.existsSync(path)) {
+        if (Config.GraphQL.PersistedQueriesOnly) {
+            throw new Error(`persisted queries manifest '${path}' is required in strict mode`);
+        }
+        return {};
+    }
+    return parseManifest(Fs.readFileSync(path, 'utf8'));
+}
+
+const manifest = loadManifest();
+
+/**
+ * Saves all operations of the manifest to `persistedQueryStore`, so that clients
+ * may send only their hashes. Must be called once the database is connected.
+ */
+export async function seedPersistedQueries() {
+    for (const [hash, { query, operationName }] of Object.entries(manifest)) {
+        await persistedQueryStore.set(hash, query, operationName);
+    }
+}
+
+/**
+ * Returns cache of automatic persisted queries for `ApolloServer`, that looks
+ * queries up in the store of the manifest ones first. Queries registered by
+ * clients are kept apart in the bounded in-process LRU cache and expire after
+ * `Config.PersistedQueries.RegisteredTtl`, so that any client can't fill
+ * the store. If `Config.GraphQL.PersistedQueriesOnly` is set, the cache is
+ * read-only, so that clients can't register queries missing in the manifest.
+ *
+ * @param store      Store to look manifest queries up in.
+ * @param registered Cache of queries registered by clients.
+ */
+export function makeApolloCache(
+    store:      PersistedQueryStore,
+    registered: KeyValueCache = new InMemoryLRUCache({ maxSize: Config.PersistedQueries.RegisteredMaxSize })
+): KeyValueCache {
+    return {
+        get: async key => {
+            const query = await store.get(toHash(key));
+            return query == null ? registered.get(key) : query;
+        },
+        set: Config.GraphQL.PersistedQueriesOnly
+            ? async () => {}
+            : (key, query) => registered.set(key, query, { ttl: Config.PersistedQueries.RegisteredTtl }),
+        // manifest queries are never evicted
+        delete: async key => registered.delete(key)
+    };
+}
+
+/**
+ * Strips the prefix, that `ApolloServer` adds to keys of persisted queries cache.
+ */
+function toHash(key: string) {
+    return key.slice(key.lastIndexOf(':') + 1);
+}
+
+/**
+ * Returns Apollo plugin, that records usage of persisted operations and,
+ * if `Config.GraphQL.PersistedQueriesOnly` is set, rejects operations, that
+ * are not in the manifest, neither by hash nor by text.
+ */
+export function makePersistedQueriesPlugin(): ApolloServerPlugin {
+    return {
+        requestDidStart: () => ({
+            didResolveOperation({ queryHash, operationName }) {
+                if (Config.GraphQL.PersistedQueriesOnly && !_.has(manifest, queryHash!)) {
+                    throw new OperationNotAllowedError;
+                }
+                // counters must not delay or fail the operation
+                persistedQueryStore.recordUsage(queryHash!, operationName).catch(
+                    err => Log.error(err, 'failed to record operation usage')
+                );
+            }
+        })
+    };
+}
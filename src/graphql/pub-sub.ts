@@ -0,0 +1,39 @@
+import * as Config from 'config';
+import { PubSub, PubSubEngine } from 'graphql-subscriptions';
+
+/**
+ * Delivers subscription events from publishers to subscribers. The default
+ * in-process adapter works only within a single server instance, multi-instance
+ * setups need an adapter over a shared message broker, any `PubSubEngine`
+ * implementation (e.g. from `graphql-redis-subscriptions`) may be used as such.
+ */
+export type PubSubAdapter = PubSubEngine;
+
+const adapterFactories = new Map<string, () => PubSubAdapter>([
+    ['memory', () => new PubSub]
+]);
+
+/**
+ * Registers pub/sub adapter, that is used if `Config.PubSub.Adapter` equals
+ * `name`. It must be called before `makeApolloServer()`.
+ *
+ * @param name        Name of the adapter.
+ * @param makeAdapter Function, that creates the adapter.
+ */
+export function registerPubSubAdapter(name: string, makeAdapter: () => PubSubAdapter) {
+    adapterFactories.set(name, makeAdapter);
+}
+
+/**
+ * Creates pub/sub adapter, that is named by `Config.PubSub.Adapter`.
+ *
+ * @throws Error
+ * If there is no adapter registered with that name.
+ */
+export function makePubSub() {
+    const makeAdapter = adapterFactories.get(Config.PubSub.Adapter);
+    if (makeAdapter == null) {
+        throw new Error(`unknown pub/sub adapter '${Config.PubSub.Adapter}'`);
+    }
+    return makeAdapter();
+}
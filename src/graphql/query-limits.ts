@@ -0,0 +1,190 @@
+import * as Vts    from 'vee-type-safe';
+import * as Config from 'config';
+import createQueryComplexityValidator, { ComplexityEstimatorArgs } from 'graphql-query-complexity';
+import { ApolloServerPlugin } from 'apollo-server-plugin-base';
+// type-graphql doesn't expose metadata storage via its public entry point
+import { getMetadataStorage } from 'type-graphql/dist/metadata/getMetadataStorage';
+import {
+    ASTVisitor,
+    DocumentNode,
+    GraphQLError,
+    GraphQLSchema,
+    Kind,
+    SelectionSetNode,
+    ValidationContext,
+    validate
+} from 'graphql';
+
+// errors thrown by Apollo plugins lose their prototypes, so that they are
+// classified by `extensions.code` (see graphql/format-error)
+export class QueryCostError extends GraphQLError {
+    constructor(readonly cost: number, readonly maxCost: number) {
+        super(
+            `query cost ${cost} exceeds maximum cost ${maxCost}`,
+            undefined, undefined, undefined, undefined, undefined,
+            { code: 'QUERY_COST_EXCEEDED', cost, maxCost }
+        );
+    }
+}
+
+/**
+ * Costs declared via `Cost()` decorator, by resolver classes and their method names.
+ */
+const declaredCosts = new Map<Function, Map<string, number>>();
+
+/**
+ * Declares the cost of the query, mutation, subscription or field resolver,
+ * which is `Config.GraphQL.DefaultFieldCost` by default. The cost of the selected
+ * subfields is added to it and their sum is multiplied by `limit`, `first` or
+ * `last` argument (see `estimateCost()`).
+ *
+ * @param cost Non-negative cost of resolving the field once.
+ */
+export function Cost(cost: number): MethodDecorator {
+    Vts.ensureMatch(cost, Vts.isZeroOrPositiveNumber);
+    return (prototype, propertyKey) => {
+        const { constructor } = prototype;
+        const classCosts = declaredCosts.get(constructor) || new Map<string, number>();
+        declaredCosts.set(constructor, classCosts.set(String(propertyKey), cost));
+    };
+}
+
+/**
+ * Passes costs declared via `Cost()` to type-graphql resolvers metadata, so that
+ * they become `complexity` of the fields of the built schema. Must be called
+ * before `buildSchema()`.
+ */
+export function applyDeclaredCosts() {
+    const storage = getMetadataStorage();
+    for (const handler of [
+        ...storage.queries,
+        ...storage.mutations,
+        ...storage.subscriptions,
+        ...storage.fieldResolvers
+    ]) {
+        const classCosts = declaredCosts.get(handler.target);
+        const cost       = classCosts && classCosts.get(handler.methodName);
+        if (cost != null) {
+            handler.complexity = cost;
+        }
+    }
+}
+
+/**
+ * Estimates the cost of resolving the field as the sum of its own cost and
+ * `childComplexity` multiplied by the number of requested items.
+ */
+export function estimateCost({ field, args, childComplexity }: ComplexityEstimatorArgs) {
+    const cost = typeof field.complexity === 'number'
+        ? field.complexity
+        : Config.GraphQL.DefaultFieldCost;
+    return getListSize(args) * (cost + childComplexity);
+}
+
+/**
+ * Returns the number of items requested via `limit`, `first` or `last`
+ * argument of the field or the same property of its `req` argument,
+ * which is how pagination input types are passed. Defaults to `1`.
+ */
+function getListSize(args: Vts.BasicObject): number {
+    for (const source of [args, args.req]) {
+        if (Vts.isBasicObject(source)) {
+            const size = [source.limit, source.first, source.last].find(Vts.isZeroOrPositiveInteger);
+            if (size != null) {
+                return size;
+            }
+        }
+    }
+    return 1;
+}
+
+/**
+ * Returns the cost of the most expensive operation of the document.
+ *
+ * @param schema    Schema, the document is validated against.
+ * @param document  Parsed and validated GraphQL document.
+ * @param variables Variables of the operation.
+ */
+export function getQueryCost(
+    schema:    GraphQLSchema,
+    document:  DocumentNode,
+    variables: Vts.BasicObject = {}
+) {
+    let maxCost = 0;
+    // invalid variables are reported when the operation is executed
+    validate(schema, document, [createQueryComplexityValidator({
+        maximumComplexity: Infinity,
+        variables,
+        estimators: [estimateCost],
+        onComplete: cost => maxCost = Math.max(maxCost, cost)
+    }) as (context: ValidationContext) => ASTVisitor]);
+    return maxCost;
+}
+
+/**
+ * Returns validation rule, that rejects operations with selections nested
+ * deeper than `maxDepth`. Introspection fields are not taken into account.
+ *
+ * @param maxDepth Maximum number of nested field selections.
+ */
+export function makeDepthLimitRule(maxDepth: number) {
+    return (context: ValidationContext): ASTVisitor => ({
+        OperationDefinition(operation) {
+            const depth = getSelectionDepth(context, operation.selectionSet, new Set);
+            if (depth > maxDepth) {
+                context.reportError(new GraphQLError(
+                    `query depth ${depth} exceeds maximum depth ${maxDepth}`, [operation]
+                ));
+            }
+        }
+    });
+}
+
+function getSelectionDepth(
+    context:          ValidationContext,
+    { selections }:   SelectionSetNode,
+    visitedFragments: Set<string>
+): number {
+    return Math.max(0, ...selections.map(selection => {
+        switch (selection.kind) {
+            case Kind.FIELD: {
+                if (selection.name.value.startsWith('__')) {
+                    return 0;
+                }
+                return selection.selectionSet == null
+                    ? 1
+                    : 1 + getSelectionDepth(context, selection.selectionSet, visitedFragments);
+            }
+            case Kind.INLINE_FRAGMENT: {
+                return getSelectionDepth(context, selection.selectionSet, visitedFragments);
+            }
+            case Kind.FRAGMENT_SPREAD: {
+                const name     = selection.name.value;
+                const fragment = context.getFragment(name);
+                // unknown fragments and cycles are reported by the standard rules
+                return fragment == null || visitedFragments.has(name)
+                    ? 0
+                    : getSelectionDepth(context, fragment.selectionSet, new Set(visitedFragments).add(name));
+            }
+        }
+    }));
+}
+
+/**
+ * Returns Apollo plugin, that rejects operations, which cost exceeds
+ * `Config.GraphQL.MaxCost`.
+ *
+ * @param schema Schema of the server, costs of its fields are used.
+ */
+export function makeQueryLimitsPlugin(schema: GraphQLSchema): ApolloServerPlugin {
+    return {
+        requestDidStart: () => ({
+            didResolveOperation({ request, document }) {
+                const cost = getQueryCost(schema, document, request.variables);
+                if (cost > Config.GraphQL.MaxCost) {
+                    throw new QueryCostError(cost, Config.GraphQL.MaxCost);
+                }
+            }
+        })
+    };
+}
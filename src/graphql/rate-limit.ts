@@ -0,0 +1,30 @@
+import { GraphQLResolveInfo } from 'graphql';
+import { UseMiddleware, ResolverData } from 'type-graphql';
+import { ResolveContext } from 'graphql/resolve-context';
+import { RateLimiter, RateLimitRule, RateLimitKey } from 'modules/rate-limiter';
+import { rateLimitStore } from 'domains/rate-limits/store';
+
+/**
+ * Limits the rate of resolving the field, hits are counted separately for each
+ * field and key of the `rule`, e.g. for each name of the operation. Rejected
+ * hits throw `RateLimitedError`, which extensions contain `limit`,
+ * `remaining`, `resetAfter` and `retryAfter`.
+ *
+ * @param rule Limit of the field and what hits are counted by.
+ */
+export function RateLimit(rule: RateLimitRule) {
+    const limiter = new RateLimiter(rateLimitStore, rule, 'graphql:');
+    return UseMiddleware(async ({ context, info }: ResolverData<ResolveContext>, next) => {
+        await limiter.tryHit(`${info.parentType.name}.${info.fieldName}:${getKey(rule.by, context, info)}`);
+        return next();
+    });
+}
+
+function getKey(by: RateLimitKey, { user, ip }: ResolveContext, { operation }: GraphQLResolveInfo) {
+    switch (by) {
+        case 'ip':        return `ip:${ip}`;
+        case 'user':      return user == null ? `ip:${ip}` : `user:${user._id}`;
+        // anonymous operations share one counter
+        case 'operation': return `operation:${operation.name == null ? '' : operation.name.value}`;
+    }
+}
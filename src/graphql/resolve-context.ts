@@ -1,19 +1,73 @@
 import * as Express from 'express';
+import * as Http    from 'http';
 import * as I       from 'modules/interfaces';
 import { User         } from 'domains/users/model';
-import { authenticateJWT } from 'modules/authentication';
+import { authenticateJWT, authenticateConnection } from 'modules/authentication';
+import { UnAuthorizedError } from 'modules/statused-error';
+import { LoaderRegistry    } from 'modules/mongoose-utils/loader-registry';
 
 export interface ResolveContext {
-    user?: I.Maybe<User>;
+    user?:      I.Maybe<User>;
+    /**
+     * Id of the session, that the request access token was issued for.
+     */
+    sessionId?: I.Maybe<I.ObjectId>;
+    /**
+     * Remote address of the client.
+     */
+    ip:         string;
+    /**
+     * Batching document loaders, that are created for each operation, use
+     * them instead of `TryCrud` in field resolvers to avoid N+1 queries.
+     */
+    loaders:    LoaderRegistry;
 }
 
 export interface ResolveContextFactoryOptions{
     req: Express.Request;
     // res: Express.Response;
+    /**
+     * Websocket connection, that is defined instead of `req` for subscriptions.
+     * Its context is made by `makeConnectionContext()`.
+     */
+    connection?: I.Maybe<{ context: ResolveContext }>;
 }
 
 export async function makeContext(
-    {req}: ResolveContextFactoryOptions
+    {req, connection}: ResolveContextFactoryOptions
 ): Promise<ResolveContext> {
-    return { user: await authenticateJWT(req) };
+    if (connection != null) {
+        return { ...connection.context, loaders: new LoaderRegistry };
+    }
+    const authentication = await authenticateJWT(req);
+    const loaders = new LoaderRegistry;
+    if (authentication != null) {
+        loaders.prime(User, authentication.user);
+    }
+    return { ...authentication, ip: req.ip, loaders };
+}
+
+/**
+ * Makes context for all operations of the websocket connection,
+ * only authenticated connections are accepted.
+ *
+ * @param connectionParams Params sent by the client on connection.
+ * @param request          Request, that initiated the connection.
+ *
+ * @throws UnAuthorizedError | ForbiddenError
+ * If the connection params contain no valid access token.
+ */
+export async function makeConnectionContext(
+    connectionParams: unknown,
+    request:          Http.IncomingMessage
+): Promise<ResolveContext> {
+    const authentication = await authenticateConnection(connectionParams);
+    if (authentication == null) {
+        throw new UnAuthorizedError('authorization connection param is required');
+    }
+    return {
+        ...authentication,
+        ip:      request.connection.remoteAddress || '',
+        loaders: new LoaderRegistry
+    };
 }
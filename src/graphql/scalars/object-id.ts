@@ -1,10 +1,11 @@
 import { ObjectId } from "modules/interfaces";
 import { GraphQLScalarType, Kind } from "graphql";
+import { BadRequestError } from "modules/statused-error";
 
 
 function tryParseObjectId(id: string) {
     if (!ObjectId.isValid(id)) {
-        throw new Error('invalid BsonObjectId format');
+        throw new BadRequestError('invalid BsonObjectId format');
     }
     return new ObjectId(id);
 }
@@ -17,6 +18,6 @@ export const GqlObjectIdScalar = new GraphQLScalarType({
         if (ast.kind === Kind.STRING) {
             return tryParseObjectId(ast.value);
         }
-        throw new Error('ObjectId must be of string type');
+        throw new BadRequestError('ObjectId must be of string type');
     }
 });
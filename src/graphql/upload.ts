@@ -0,0 +1,44 @@
+import { Readable } from 'stream';
+import { GraphQLUpload } from 'apollo-server-express';
+import { BadRequestError } from 'modules/statused-error';
+
+/**
+ * GraphQL multipart request file, which is resolved from `Upload` scalar.
+ */
+export interface FileUpload {
+    filename: string;
+    mimetype: string;
+    encoding: string;
+    createReadStream(): Readable;
+}
+
+export const GqlUploadScalar = GraphQLUpload!;
+
+/**
+ * Reads the whole uploaded file into memory.
+ *
+ * @param upload  File to read.
+ * @param maxSize Maximum size of the file in bytes.
+ *
+ * @throws BadRequestError
+ * If the file is larger than `maxSize`.
+ */
+export async function readUpload(upload: FileUpload, maxSize: number) {
+    const stream = upload.createReadStream();
+    return new Promise<Buffer>((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        stream
+            .on('data', (chunk: Buffer) => {
+                size += chunk.length;
+                if (size > maxSize) {
+                    stream.destroy();
+                    reject(new BadRequestError(`file must not be larger than ${maxSize} bytes`));
+                } else {
+                    chunks.push(chunk);
+                }
+            })
+            .on('error', reject)
+            .on('end', () => resolve(Buffer.concat(chunks)));
+    });
+}
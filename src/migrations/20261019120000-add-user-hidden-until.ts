@@ -0,0 +1,55 @@
+import { Connection } from 'mongoose';
+
+// the same as `HiddenForever` in domains/users/model, migrations don't depend on models
+const HiddenForever = new Date(8.64e15);
+
+/**
+ * Documents, that keep a copy of `hidden_until` of the user they reference.
+ */
+const Mirrors = [
+    { collection: 'profiles',    userPath: 'user',      hiddenUntilPath: 'user_hidden_until'      },
+    { collection: 'matchscores', userPath: 'candidate', hiddenUntilPath: 'candidate_hidden_until' },
+    { collection: 'matches',     userPath: 'partner',   hiddenUntilPath: 'partner_hidden_until'   }
+];
+
+interface UserState {
+    _id:              unknown;
+    deleted_at?:      Date | null;
+    disabled?:        boolean;
+    banned?:          boolean;
+    suspended_until?: Date | null;
+}
+
+/**
+ * Sets `hidden_until` of deleted, disabled, banned and suspended users and
+ * copies it to the mirrors, active users are left without it.
+ */
+export async function up(connection: Connection) {
+    const users = connection.collection('users');
+    const cursor = users
+        .find({ $or: [
+            { deleted_at:      { $ne: null } },
+            { disabled:        true },
+            { banned:          true },
+            { suspended_until: { $gt: new Date } }
+        ]})
+        .project({ deleted_at: 1, disabled: 1, banned: 1, suspended_until: 1 });
+    for (let user: UserState | null = await cursor.next(); user != null; user = await cursor.next()) {
+        const hiddenUntil = user.deleted_at != null || user.disabled || user.banned
+            ? HiddenForever
+            : user.suspended_until;
+        await users.updateOne({ _id: user._id }, { $set: { hidden_until: hiddenUntil } });
+        for (const { collection, userPath, hiddenUntilPath } of Mirrors) {
+            await connection.collection(collection).updateMany(
+                { [userPath]: user._id }, { $set: { [hiddenUntilPath]: hiddenUntil } }
+            );
+        }
+    }
+}
+
+export async function down(connection: Connection) {
+    await connection.collection('users').updateMany({}, { $unset: { hidden_until: 1 } });
+    for (const { collection, hiddenUntilPath } of Mirrors) {
+        await connection.collection(collection).updateMany({}, { $unset: { [hiddenUntilPath]: 1 } });
+    }
+}
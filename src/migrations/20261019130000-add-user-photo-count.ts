@@ -0,0 +1,23 @@
+import { Connection } from 'mongoose';
+
+/**
+ * Sets `photo_count` of all users to the number of their photos.
+ */
+export async function up(connection: Connection) {
+    const users = connection.collection('users');
+    await users.updateMany({}, { $set: { photo_count: 0 } });
+    const cursor = connection.collection('photos').aggregate([
+        { $group: { _id: '$user', count: { $sum: 1 } } }
+    ]);
+    for (
+        let group: { _id: unknown, count: number } | null = await cursor.next();
+        group != null;
+        group = await cursor.next()
+    ) {
+        await users.updateOne({ _id: group._id }, { $set: { photo_count: group.count } });
+    }
+}
+
+export async function down(connection: Connection) {
+    await connection.collection('users').updateMany({}, { $unset: { photo_count: 1 } });
+}
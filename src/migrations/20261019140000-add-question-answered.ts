@@ -0,0 +1,16 @@
+import { Connection } from 'mongoose';
+
+/**
+ * Sets `answered` of the questions, that have answers.
+ */
+export async function up(connection: Connection) {
+    const questionIds = await connection.collection('answers').distinct('question', {});
+    await connection.collection('questions').updateMany({}, { $set: { answered: false } });
+    await connection.collection('questions').updateMany(
+        { _id: { $in: questionIds } }, { $set: { answered: true } }
+    );
+}
+
+export async function down(connection: Connection) {
+    await connection.collection('questions').updateMany({}, { $unset: { answered: 1 } });
+}
@@ -1,18 +1,41 @@
 import Passport  from 'passport';
 import Express   from 'express';
+import * as JWT       from 'jsonwebtoken';
 import * as Vts       from 'vee-type-safe';
 import * as I         from 'modules/interfaces';
-import { ForbiddenError, } from 'modules/statused-error';
+import { ForbiddenError, UnAuthorizedError } from 'modules/statused-error';
+import { IdNotFoundError } from 'modules/mongoose-utils/try-crud';
 
 import { Strategy as JWTStrategy, ExtractJwt } from 'passport-jwt';
 
 
 import * as Config     from 'config';
-import { User, UserTryCrud } from 'domains/users/model';
+import { User, UserTryCrud, getAccessDenialReason } from 'domains/users/model';
+import { Session           } from 'domains/sessions/model';
+
+export interface Authentication {
+    user:      User;
+    sessionId: I.ObjectId;
+}
 
 Passport.use(new JWTStrategy({
         jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
-        secretOrKey:    Config.JWT.KeyPair.public
+        algorithms:     [Config.JWT.EncodingAlgorithm],
+        secretOrKeyProvider(
+            _req: Express.Request,
+            rawJwt: string,
+            done: (err: unknown, publicKey?: string) => void
+        ) {
+            const decodedJwt = JWT.decode(rawJwt, { complete: true }) as I.Maybe<{
+                header: { kid?: unknown };
+            }>;
+            const publicKey = decodedJwt == null || typeof decodedJwt.header.kid !== 'string'
+                ? null
+                : Config.JWT.Keys.getPublicKey(decodedJwt.header.kid);
+            return publicKey == null
+                ? done(new UnAuthorizedError('jwt was signed with unknown key'))
+                : done(null, publicKey);
+        }
     },
     async (untrustedJwtPayload: unknown, done) => {
         const mismatch = Vts.mismatch(untrustedJwtPayload, I.JWT.PayloadTD);
@@ -20,22 +43,70 @@ Passport.use(new JWTStrategy({
             return done(new ForbiddenError(`invalid jwt, ${mismatch.toErrorString()}`));
         }
         const jwtPayload = untrustedJwtPayload as I.JWT.Payload;
-        return UserTryCrud
-            .tryFindById(new I.ObjectId(jwtPayload.sub))
-            .then(user => done(null, user))
+        const sessionId  = new I.ObjectId(jwtPayload.sid);
+        return Promise
+            .all([
+                // tokens of deleted users are rejected as well as revoked ones
+                UserTryCrud.tryFindById(new I.ObjectId(jwtPayload.sub)).catch((err: unknown): null => {
+                    if (err instanceof IdNotFoundError) {
+                        return null;
+                    }
+                    throw err;
+                }),
+                Session.isActive(sessionId)
+            ])
+            .then(([user, isSessionActive]) => {
+                const denialReason = user == null ? null : getAccessDenialReason(user);
+                return (
+                    user == null         ? done(new UnAuthorizedError('user was deleted'))   :
+                    !isSessionActive     ? done(new UnAuthorizedError('session was revoked')) :
+                    denialReason != null ? done(new ForbiddenError(denialReason))            :
+                    done(null, { user, sessionId })
+                );
+            })
             .catch(done);
     }
 ));
 
+/**
+ * Authenticates websocket connection by `authorization` connection param,
+ * which has the same `Bearer <jwt>` format as `Authorization` header.
+ * Returns `null` if there is no such param.
+ */
+export async function authenticateConnection(connectionParams: unknown) {
+    const authorization = Vts.isBasicObject(connectionParams)
+        ? connectionParams.authorization || connectionParams.Authorization
+        : null;
+    return typeof authorization !== 'string'
+        ? null
+        : authenticateJWT({ headers: { authorization } } as Express.Request);
+}
+
 export async function authenticateJWT(req: Express.Request) {
     return req.headers.authorization == null
         ? null
-        : new Promise<I.Maybe<User>>(
+        : new Promise<I.Maybe<Authentication>>(
             (resolve, reject) => Passport.authenticate('jwt', { session: false },
-                (err, user?: I.Maybe<User>) => {
-                    return err != null ? reject(err) : resolve(user);
+                (err, authentication?: I.Maybe<Authentication>) => {
+                    return err != null ? reject(err) : resolve(authentication);
                 }
             )(req)
         );
 }
 
+
+/**
+ * Returns the current state of the authenticated user or `null` if the
+ * session was revoked or the user has lost access since authentication.
+ * Websocket connections are authenticated only once, so their subscription
+ * events must be rechecked with it.
+ */
+export async function reauthenticate({ user, sessionId }: Authentication) {
+    const [currentUser, isSessionActive] = await Promise.all([
+        UserTryCrud.tryFindById(user._id).catch(() => null),
+        Session.isActive(sessionId)
+    ]);
+    return !isSessionActive || currentUser == null || getAccessDenialReason(currentUser) != null
+        ? null
+        : currentUser;
+}
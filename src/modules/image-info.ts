@@ -0,0 +1,107 @@
+import * as I from 'modules/interfaces';
+
+export interface ImageInfo {
+    /**
+     * MIME type, that corresponds to the actual image format.
+     */
+    contentType: string;
+    width:       number;
+    height:      number;
+}
+
+const PngSignature = Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]);
+
+/**
+ * Returns the format and dimensions of JPEG, PNG or WebP image by parsing
+ * its headers, so that clients' claims about the file may be verified.
+ * Returns `null` if the image format is not recognized or headers are
+ * malformed.
+ *
+ * @param data Contents of the image file.
+ */
+export function getImageInfo(data: Buffer): I.Maybe<ImageInfo> {
+    try {
+        return getPngInfo(data) || getJpegInfo(data) || getWebpInfo(data);
+    } catch (err) {
+        if (err instanceof RangeError) { // truncated headers
+            return null;
+        }
+        throw err;
+    }
+}
+
+function getPngInfo(data: Buffer): I.Maybe<ImageInfo> {
+    if (!data.slice(0, 8).equals(PngSignature) || data.toString('latin1', 12, 16) !== 'IHDR') {
+        return null;
+    }
+    return {
+        contentType: 'image/png',
+        width:       data.readUInt32BE(16),
+        height:      data.readUInt32BE(20)
+    };
+}
+
+function getJpegInfo(data: Buffer): I.Maybe<ImageInfo> {
+    if (data[0] !== 0xFF || data[1] !== 0xD8) {
+        return null;
+    }
+    let offset = 2;
+    while (offset < data.length) {
+        if (data[offset] !== 0xFF) {
+            return null;
+        }
+        const marker = data[offset + 1];
+        if (marker === 0xFF) { // fill byte
+            ++offset;
+            continue;
+        }
+        if (marker === 0x01 || (marker >= 0xD0 && marker <= 0xD7)) { // markers without length
+            offset += 2;
+            continue;
+        }
+        if (isStartOfFrame(marker)) {
+            return {
+                contentType: 'image/jpeg',
+                height:      data.readUInt16BE(offset + 5),
+                width:       data.readUInt16BE(offset + 7)
+            };
+        }
+        offset += 2 + data.readUInt16BE(offset + 2);
+    }
+    return null;
+}
+
+/**
+ * SOF0-SOF15 markers except DHT (0xC4), JPG (0xC8) and DAC (0xCC).
+ */
+function isStartOfFrame(marker: number) {
+    return marker >= 0xC0 && marker <= 0xCF && marker !== 0xC4 && marker !== 0xC8 && marker !== 0xCC;
+}
+
+function getWebpInfo(data: Buffer): I.Maybe<ImageInfo> {
+    if (data.toString('latin1', 0, 4) !== 'RIFF' || data.toString('latin1', 8, 12) !== 'WEBP') {
+        return null;
+    }
+    const contentType = 'image/webp';
+    switch (data.toString('latin1', 12, 16)) {
+        case 'VP8 ': return { // lossy
+            contentType,
+            width:  data.readUInt16LE(26) & 0x3FFF,
+            height: data.readUInt16LE(28) & 0x3FFF
+        };
+        case 'VP8L': { // lossless, 14-bit dimensions minus one are packed after 0x2F signature
+            const bits = data.readUInt32LE(21);
+            return {
+                contentType,
+                width:  (bits & 0x3FFF) + 1,
+                height: ((bits >> 14) & 0x3FFF) + 1
+            };
+        }
+        case 'VP8X': return { // extended, 24-bit dimensions minus one
+            contentType,
+            width:  data.readUIntLE(24, 3) + 1,
+            height: data.readUIntLE(27, 3) + 1
+        };
+        default: return null;
+    }
+}
@@ -0,0 +1,277 @@
+import _ from 'lodash';
+import * as Fs     from 'fs';
+import * as Path   from 'path';
+import * as Crypto from 'crypto';
+import * as Vts    from 'vee-type-safe';
+import * as I      from 'modules/interfaces';
+
+/**
+ * Represents RSA key used to sign and verify JWTs. Retired keys have no
+ * `privateKey`, they are only used to verify tokens issued before rotation.
+ */
+export interface JwtKey {
+    /**
+     * Key identifier, that is put into `kid` JWT header. It starts with the key
+     * creation timestamp, so that newer keys are greater lexicographically.
+     */
+    kid:         string;
+    publicKey:   string;
+    privateKey?: I.Maybe<string>;
+}
+const JwtKeysTD: Vts.TypeDescription = [{
+    kid:        'string',
+    publicKey:  'string',
+    privateKey: Vts.optional('string')
+}];
+
+/**
+ * Represents RSA public key in JSON Web Key format (RFC 7517).
+ */
+export interface Jwk {
+    kty: 'RSA';
+    use: 'sig';
+    alg: string;
+    kid: string;
+    n:   string;
+    e:   string;
+}
+
+const PrivateKeyFileSuffix = '.pem';
+const PublicKeyFileSuffix  = '.pub.pem';
+
+/**
+ * Holds JWT signing and verification keys loaded from a directory or
+ * from a JSON string (typically an environment variable).
+ *
+ * Keys directory contains `<kid>.pem` private keys and `<kid>.pub.pem` public
+ * keys, a key that has only the public key file is retired.
+ */
+export class JwtKeyStore {
+    private readonly keys: ReadonlyMap<string, JwtKey>;
+
+    constructor(keys: JwtKey[]) {
+        this.keys = new Map(keys.map(key => [key.kid, key] as [string, JwtKey]));
+    }
+
+    /**
+     * Returns the newest key, that has a private key, it is used to sign new tokens.
+     *
+     * @throws Error if there are no keys with private keys.
+     */
+    tryGetSigningKey() {
+        const activeKeys = [...this.keys.values()].filter(key => key.privateKey != null);
+        if (activeKeys.length === 0) {
+            throw new Error('no active JWT signing keys were found');
+        }
+        const { kid, privateKey } = _.maxBy(activeKeys, key => key.kid)!;
+        return { kid, privateKey: privateKey! };
+    }
+
+    /**
+     * Returns all keys ordered from the oldest to the newest one.
+     */
+    get all() {
+        return _.sortBy([...this.keys.values()], key => key.kid);
+    }
+
+    /**
+     * Returns the public key to verify tokens signed with key `kid`
+     * or `null` if there is no such key.
+     */
+    getPublicKey(kid: string) {
+        const key = this.keys.get(kid);
+        return key == null ? null : key.publicKey;
+    }
+
+    /**
+     * Returns JWK Set document with all public keys, that should be published
+     * for the third parties to verify tokens.
+     *
+     * @param alg JWT signing algorithm, that keys are used with.
+     */
+    toJwks(alg: string) {
+        return {
+            keys: this.all.map(({ kid, publicKey }): Jwk => ({
+                kty: 'RSA',
+                use: 'sig',
+                alg,
+                kid,
+                ...rsaPublicKeyToJwkParams(publicKey)
+            }))
+        };
+    }
+
+    /**
+     * Loads keys from JSON array of `JwtKey` objects.
+     *
+     * @throws Error | Vts.TypeMismatchError if `json` has invalid format.
+     */
+    static fromJson(json: string) {
+        const keys = JSON.parse(json);
+        Vts.ensureMatch(keys, JwtKeysTD);
+        return new JwtKeyStore(keys);
+    }
+
+    /**
+     * Loads keys from the given directory, returns empty store if there
+     * is no such directory.
+     */
+    static fromDir(dir: string) {
+        if (!Fs.existsSync(dir)) {
+            return new JwtKeyStore([]);
+        }
+        return new JwtKeyStore(Fs
+            .readdirSync(dir)
+            .filter(fileName => fileName.endsWith(PublicKeyFileSuffix))
+            .map(fileName => {
+                const kid = fileName.slice(0, -PublicKeyFileSuffix.length);
+                const privateKeyPath = Path.join(dir, `${kid}${PrivateKeyFileSuffix}`);
+                return {
+                    kid,
+                    publicKey:  Fs.readFileSync(Path.join(dir, fileName), 'utf8'),
+                    privateKey: Fs.existsSync(privateKeyPath)
+                        ? Fs.readFileSync(privateKeyPath, 'utf8')
+                        : null
+                };
+            })
+        );
+    }
+
+    /**
+     * Generates new RSA key pair and saves it to `dir`, creating it if needed.
+     * Returns the generated key.
+     */
+    static generateToDir(dir: string) {
+        const key = JwtKeyStore.generateKey();
+        if (!Fs.existsSync(dir)) {
+            Fs.mkdirSync(dir);
+        }
+        Fs.writeFileSync(Path.join(dir, `${key.kid}${PublicKeyFileSuffix}`), key.publicKey);
+        Fs.writeFileSync(
+            Path.join(dir, `${key.kid}${PrivateKeyFileSuffix}`), key.privateKey, { mode: 0o600 }
+        );
+        return key;
+    }
+
+    /**
+     * Retires all keys in `dir` except the newest one, i.e. removes their
+     * private keys. Removes public keys of the keys, which successor was created
+     * more than `windowSeconds` ago, as no valid tokens signed by them may exist.
+     * Returns the kids of the retired and removed keys.
+     *
+     * @param dir           Keys directory.
+     * @param windowSeconds Time to keep public keys of retired keys for.
+     */
+    static retireInDir(dir: string, windowSeconds: number) {
+        const keys    = JwtKeyStore.fromDir(dir).all;
+        const retired: string[] = [];
+        const removed: string[] = [];
+        keys.slice(0, -1).forEach(({ kid, privateKey }, i) => {
+            if (privateKey != null) {
+                Fs.unlinkSync(Path.join(dir, `${kid}${PrivateKeyFileSuffix}`));
+                retired.push(kid);
+            }
+            const successorAge = Date.now() - getKidCreationDate(keys[i + 1].kid).getTime();
+            if (successorAge > windowSeconds * 1000) {
+                Fs.unlinkSync(Path.join(dir, `${kid}${PublicKeyFileSuffix}`));
+                removed.push(kid);
+            }
+        });
+        return { retired, removed };
+    }
+
+    static generateKey() {
+        const { publicKey, privateKey } = Crypto.generateKeyPairSync('rsa', {
+            modulusLength:      2048,
+            publicKeyEncoding:  { type: 'spki',  format: 'pem' },
+            // @types/node erroneously requires `cipher` and `passphrase`
+            privateKeyEncoding: { type: 'pkcs8', format: 'pem' } as Crypto.RSAKeyPairOptions<
+                'pem', 'pem'
+            >['privateKeyEncoding']
+        });
+        return { kid: makeKid(), publicKey, privateKey };
+    }
+}
+
+function makeKid() {
+    const timestamp = new Date().toISOString().replace(/[-:.]/g, '');
+    return `${timestamp}-${Crypto.randomBytes(4).toString('hex')}`;
+}
+
+/**
+ * Returns the creation date encoded in `kid` or epoch start if `kid` has
+ * unexpected format, so that such keys are treated as the oldest ones.
+ */
+function getKidCreationDate(kid: string) {
+    const match = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(\d{3})Z-/.exec(kid);
+    if (match == null) {
+        return new Date(0);
+    }
+    const [year, month, day, hours, minutes, seconds, ms] = match.slice(1).map(Number);
+    return new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds, ms));
+}
+
+/**
+ * Returns base64url-encoded modulus and exponent of the RSA public key
+ * in PEM-encoded SubjectPublicKeyInfo format.
+ */
+function rsaPublicKeyToJwkParams(publicKeyPem: string) {
+    const der = Buffer.from(
+        publicKeyPem.replace(/-----[^-]+-----|\s/g, ''), 'base64'
+    );
+    // SubjectPublicKeyInfo ::= SEQUENCE { algorithm SEQUENCE, subjectPublicKey BIT STRING }
+    const spki      = readDer(der, 0, DerTag.Sequence);
+    const algorithm = readDer(der, spki.start, DerTag.Sequence);
+    const bitString = readDer(der, algorithm.end, DerTag.BitString);
+    // RSAPublicKey ::= SEQUENCE { modulus INTEGER, publicExponent INTEGER }
+    // the first byte of the bit string is the number of unused bits
+    const rsaKey   = readDer(der, bitString.start + 1, DerTag.Sequence);
+    const modulus  = readDer(der, rsaKey.start, DerTag.Integer);
+    const exponent = readDer(der, modulus.end, DerTag.Integer);
+    return {
+        n: toBase64Url(stripLeadingZeros(der.slice(modulus.start, modulus.end))),
+        e: toBase64Url(stripLeadingZeros(der.slice(exponent.start, exponent.end)))
+    };
+}
+
+const enum DerTag {
+    Integer   = 0x02,
+    BitString = 0x03,
+    Sequence  = 0x30
+}
+
+/**
+ * Reads DER tag-length-value header at `offset` and returns the bounds
+ * of its value.
+ *
+ * @throws Error if the tag at `offset` is not `expectedTag`.
+ */
+function readDer(der: Buffer, offset: number, expectedTag: DerTag) {
+    if (der[offset] !== expectedTag) {
+        throw new Error(`invalid public key, expected DER tag ${expectedTag} at ${offset}`);
+    }
+    let length = der[offset + 1];
+    let start  = offset + 2;
+    if (length & 0x80) {
+        const lengthBytes = length & 0x7f;
+        length = der.readUIntBE(start, lengthBytes);
+        start += lengthBytes;
+    }
+    return { start, end: start + length };
+}
+
+function stripLeadingZeros(buffer: Buffer) {
+    let i = 0;
+    while (i < buffer.length - 1 && buffer[i] === 0) {
+        ++i;
+    }
+    return buffer.slice(i);
+}
+
+function toBase64Url(buffer: Buffer) {
+    return buffer
+        .toString('base64')
+        .replace(/=+$/, '')
+        .replace(/\+/g, '-')
+        .replace(/\//g, '_');
+}
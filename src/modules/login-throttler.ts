@@ -0,0 +1,248 @@
+import * as I from 'modules/interfaces';
+import { TooManyRequestsError } from 'modules/statused-error';
+
+export class LoginThrottledError extends TooManyRequestsError {
+    /**
+     * @param retryAfter Number of seconds to wait before the next attempt.
+     */
+    constructor(readonly retryAfter: number) {
+        super(`too many failed login attempts, retry after ${retryAfter} seconds`);
+        this.extensions = { retryAfter };
+    }
+}
+
+/**
+ * Represents failed attempts counter of one key (e.g. username or IP).
+ */
+export interface FailedAttempts {
+    count:  number;
+    lastAt: Date;
+}
+
+/**
+ * Defines an interface for failed attempts counters storage, that
+ * may be plugged into `LoginThrottler`.
+ */
+export interface FailedAttemptsStore {
+    /**
+     * Returns not expired counter for `key` or `null` if there is no such one.
+     */
+    get(key: string): Promise<I.Maybe<FailedAttempts>>;
+    /**
+     * Increments the counter for `key` (starting from 0 if there is no one),
+     * sets its `lastAt` to the current date and prolongs its expiration
+     * for `ttl` seconds. Returns the updated counter.
+     */
+    increment(key: string, ttl: number): Promise<FailedAttempts>;
+    /**
+     * Increments the counter for `key` the same way as `increment()`, but only
+     * if it still equals `expected` (`null` means that there is no not expired
+     * counter). Returns `false` if the counter was changed concurrently.
+     */
+    tryIncrement(key: string, ttl: number, expected: I.Maybe<FailedAttempts>): Promise<boolean>;
+    /**
+     * Decrements not expired counter for `key` keeping its `lastAt` and expiration.
+     */
+    decrement(key: string): Promise<void>;
+    /**
+     * Removes the counter for `key`.
+     */
+    reset(key: string): Promise<void>;
+}
+
+/**
+ * Keeps counters in process memory, it is suitable only for single-instance
+ * deployments.
+ */
+export class MemoryFailedAttemptsStore implements FailedAttemptsStore {
+    private readonly records = new Map<string, FailedAttempts & { expiresAt: number }>();
+
+    /**
+     * @param sweepInterval Interval in seconds to remove expired counters within.
+     */
+    constructor(sweepInterval = 60) {
+        setInterval(() => this.sweep(), sweepInterval * 1000).unref();
+    }
+
+    async get(key: string) {
+        return this.getActual(key);
+    }
+
+    async increment(key: string, ttl: number) {
+        return this.incrementActual(key, ttl);
+    }
+
+    async tryIncrement(key: string, ttl: number, expected: I.Maybe<FailedAttempts>) {
+        // the check and the update are made synchronously, so they are atomic
+        const current     = this.getActual(key);
+        const isUnchanged = current == null || expected == null
+            ? current === expected
+            : current.count === expected.count && current.lastAt.getTime() === expected.lastAt.getTime();
+        if (isUnchanged) {
+            this.incrementActual(key, ttl);
+        }
+        return isUnchanged;
+    }
+
+    async decrement(key: string) {
+        const record = this.records.get(key);
+        if (record != null && record.expiresAt > Date.now() && record.count > 0) {
+            record.count -= 1;
+        }
+    }
+
+    async reset(key: string) {
+        this.records.delete(key);
+    }
+
+    private getActual(key: string): I.Maybe<FailedAttempts> {
+        const record = this.records.get(key);
+        if (record == null || record.expiresAt <= Date.now()) {
+            return null;
+        }
+        return { count: record.count, lastAt: record.lastAt };
+    }
+
+    private incrementActual(key: string, ttl: number) {
+        const previous = this.getActual(key);
+        const count    = previous == null ? 1 : previous.count + 1;
+        const lastAt   = new Date;
+        this.records.set(key, { count, lastAt, expiresAt: lastAt.getTime() + ttl * 1000 });
+        return { count, lastAt };
+    }
+
+    private sweep() {
+        const now = Date.now();
+        this.records.forEach((record, key) => {
+            if (record.expiresAt <= now) {
+                this.records.delete(key);
+            }
+        });
+    }
+}
+
+/**
+ * Defines how failed attempts of one kind of key are throttled. All durations
+ * are expressed in seconds.
+ */
+export interface ThrottlePolicy {
+    /**
+     * Number of failures, that are allowed without delay.
+     */
+    freeAttempts:      number;
+    /**
+     * Delay after the first failure beyond `freeAttempts`, it is doubled
+     * after each next one.
+     */
+    baseDelay:         number;
+    maxDelay:          number;
+    /**
+     * Number of failures, that cause lockout for `lockoutDuration`,
+     * no lockout is applied if it is `null`.
+     */
+    lockoutThreshold?: I.Maybe<number>;
+    lockoutDuration?:  I.Maybe<number>;
+    /**
+     * Time since the last failure, after which the counter is reset.
+     */
+    resetAfter:        number;
+}
+
+/**
+ * Number of times to retry the reservation, that conflicts with concurrent ones.
+ */
+const MaxReservationAttempts = 10;
+
+/**
+ * Tracks failed login attempts per key and rejects attempts, which are made
+ * earlier than exponential backoff delay or lockout allow.
+ */
+export class LoginThrottler {
+    /**
+     * @param store     Storage of failed attempts counters.
+     * @param policy    Throttling parameters.
+     * @param keyPrefix Prefix to separate counters of this throttler from
+     *                  other ones in the same `store`.
+     */
+    constructor(
+        private readonly store:     FailedAttemptsStore,
+        private readonly policy:    ThrottlePolicy,
+        private readonly keyPrefix: string
+    ) {}
+
+    /**
+     * Returns number of seconds to wait before the next attempt for `key`,
+     * 0 means that the attempt is allowed right now.
+     */
+    async getRetryAfter(key: string) {
+        return this.getRetryAfterOf(await this.store.get(this.keyPrefix + key));
+    }
+
+    /**
+     * Registers the attempt for `key` as failed in advance, if it is allowed
+     * right now. The check and the registration are atomic, so concurrent
+     * attempts can't bypass the delay before their failures are registered.
+     * The attempt must be refunded with `refund()` or `reset()` on success.
+     *
+     * @throws LoginThrottledError
+     * If the attempt for `key` is not allowed right now.
+     */
+    async tryReserveAttempt(key: string) {
+        const fullKey = this.keyPrefix + key;
+        for (let reservation = 1; ; ++reservation) {
+            const attempts   = await this.store.get(fullKey);
+            const retryAfter = this.getRetryAfterOf(attempts);
+            if (retryAfter > 0) {
+                throw new LoginThrottledError(retryAfter);
+            }
+            if (await this.store.tryIncrement(fullKey, this.ttl, attempts)) {
+                return;
+            }
+            if (reservation === MaxReservationAttempts) {
+                throw new LoginThrottledError(1);
+            }
+        }
+    }
+
+    /**
+     * Cancels the attempt for `key` reserved by `tryReserveAttempt()`.
+     */
+    async refund(key: string) {
+        await this.store.decrement(this.keyPrefix + key);
+    }
+
+    async registerFailure(key: string) {
+        await this.store.increment(this.keyPrefix + key, this.ttl);
+    }
+
+    /**
+     * Resets failed attempts counter for `key`, it is used on successful
+     * login and to unlock locked out accounts.
+     */
+    async reset(key: string) {
+        await this.store.reset(this.keyPrefix + key);
+    }
+
+    private get ttl() {
+        return Math.max(this.policy.resetAfter, this.policy.lockoutDuration || 0);
+    }
+
+    private getRetryAfterOf(attempts: I.Maybe<FailedAttempts>) {
+        if (attempts == null) {
+            return 0;
+        }
+        const delay   = this.getDelay(attempts.count);
+        const elapsed = (Date.now() - attempts.lastAt.getTime()) / 1000;
+        return Math.max(0, Math.ceil(delay - elapsed));
+    }
+
+    private getDelay(failures: number) {
+        const { freeAttempts, baseDelay, maxDelay, lockoutThreshold, lockoutDuration } = this.policy;
+        if (lockoutThreshold != null && lockoutDuration != null && failures >= lockoutThreshold) {
+            return lockoutDuration;
+        }
+        return failures <= freeAttempts
+            ? 0
+            : Math.min(maxDelay, baseDelay * 2 ** (failures - freeAttempts - 1));
+    }
+}
@@ -0,0 +1,83 @@
+import * as Fs     from 'fs';
+import * as Path   from 'path';
+import * as Util   from 'util';
+import * as Config from 'config';
+
+const mkdir     = Util.promisify(Fs.mkdir);
+const writeFile = Util.promisify(Fs.writeFile);
+const unlink    = Util.promisify(Fs.unlink);
+
+/**
+ * Driver of the storage for user uploaded files. Files are identified by
+ * keys, which are relative slash-separated paths, e.g. `photos/<id>.jpg`.
+ */
+export interface MediaStorage {
+    /**
+     * Saves the file under `key`, replaces the existing one if there is such.
+     */
+    save(key: string, data: Buffer, contentType: string): Promise<void>;
+    /**
+     * Removes the file, does nothing if there is no such file.
+     */
+    remove(key: string): Promise<void>;
+    /**
+     * Returns URL, which the file is available at, access to it may be
+     * restricted by the server.
+     */
+    getUrl(key: string): string;
+}
+
+/**
+ * Stores files in the local directory, which is expected to be served
+ * at `urlPath`, see `mediaRouter`.
+ */
+export class LocalMediaStorage implements MediaStorage {
+    /**
+     * @param dir     Absolute path to the directory to store files in.
+     * @param urlPath URL path, which `dir` is served at.
+     */
+    constructor(private readonly dir: string, private readonly urlPath: string) {}
+
+    async save(key: string, data: Buffer) {
+        const path = this.tryResolve(key);
+        await mkdir(Path.dirname(path), { recursive: true });
+        await writeFile(path, data);
+    }
+
+    async remove(key: string) {
+        await unlink(this.tryResolve(key)).catch((err: NodeJS.ErrnoException) => {
+            if (err.code !== 'ENOENT') {
+                throw err;
+            }
+        });
+    }
+
+    getUrl(key: string) {
+        return `${this.urlPath}/${key}`;
+    }
+
+    /**
+     * @throws Error
+     * If `key` points outside of the storage directory.
+     */
+    private tryResolve(key: string) {
+        const path = Path.resolve(this.dir, key);
+        if (!path.startsWith(Path.resolve(this.dir) + Path.sep)) {
+            throw new Error(`invalid media storage key '${key}'`);
+        }
+        return path;
+    }
+}
+
+/**
+ * Creates the storage driver, that is named by `Config.Media.Storage`.
+ *
+ * @throws Error
+ * If there is no such driver.
+ */
+export function makeMediaStorage(): MediaStorage {
+    switch (Config.Media.Storage) {
+        case 'local': return new LocalMediaStorage(Config.Media.Dir, Config.Media.UrlPath);
+        default: throw new Error(`unknown media storage '${Config.Media.Storage}'`);
+    }
+}
@@ -0,0 +1,270 @@
+import * as Fs     from 'fs';
+import * as Path   from 'path';
+import * as Crypto from 'crypto';
+import * as I      from 'modules/interfaces';
+import * as Utils  from 'modules/utils';
+import { Connection } from 'mongoose';
+import { Log } from 'modules/debug';
+
+/**
+ * Module of a migration file, both functions must be idempotent enough
+ * to be retried if the migration failed halfway.
+ */
+export interface Migration {
+    up(connection: Connection):   Promise<void>;
+    down(connection: Connection): Promise<void>;
+}
+
+export interface MigrationFile extends Migration {
+    /**
+     * File name without extension, migrations are applied in the order
+     * of their names, which start with the creation timestamp.
+     */
+    name: string;
+}
+
+export interface AppliedMigration {
+    name:      string;
+    appliedAt: Date;
+}
+
+export interface MigrationStatus {
+    name:      string;
+    /**
+     * `'missing'` means that the migration was applied, but its file was removed.
+     */
+    state:     'applied' | 'pending' | 'missing';
+    appliedAt: I.Maybe<Date>;
+}
+
+/**
+ * Defines an interface for storage of applied migrations, that may be
+ * plugged into `Migrator`.
+ */
+export interface MigrationStore {
+    /**
+     * Returns applied migrations ordered by name.
+     */
+    getApplied(): Promise<AppliedMigration[]>;
+    markApplied(migration: AppliedMigration): Promise<void>;
+    markReverted(name: string): Promise<void>;
+    /**
+     * Acquires the lock for `owner` for `ttl` seconds, returns false if the
+     * lock is held by someone else and hasn't expired yet.
+     */
+    tryLock(owner: string, ttl: number): Promise<boolean>;
+    /**
+     * Releases the lock if it is still held by `owner`.
+     */
+    unlock(owner: string): Promise<void>;
+}
+
+/**
+ * Keeps applied migrations in process memory, it is suitable only for tests.
+ */
+export class MemoryMigrationStore implements MigrationStore {
+    private readonly applied = new Map<string, AppliedMigration>();
+    private lock: I.Maybe<{ owner: string, expiresAt: number }>;
+
+    async getApplied() {
+        return [...this.applied.values()].sort((a, b) => compareNames(a.name, b.name));
+    }
+
+    async markApplied(migration: AppliedMigration) {
+        this.applied.set(migration.name, migration);
+    }
+
+    async markReverted(name: string) {
+        this.applied.delete(name);
+    }
+
+    async tryLock(owner: string, ttl: number) {
+        const now = Date.now();
+        if (this.lock != null && this.lock.owner !== owner && this.lock.expiresAt > now) {
+            return false;
+        }
+        this.lock = { owner, expiresAt: now + ttl * 1000 };
+        return true;
+    }
+
+    async unlock(owner: string) {
+        if (this.lock != null && this.lock.owner === owner) {
+            this.lock = null;
+        }
+    }
+}
+
+export interface MigrationLockOptions {
+    /**
+     * Time in seconds after which the lock of a crashed instance is released,
+     * it must be greater than the time it takes to run all pending migrations.
+     */
+    LockTtl:     number;
+    /**
+     * Time in seconds to wait for the lock held by another instance.
+     */
+    LockTimeout: number;
+}
+
+const LockRetryInterval = 1000;
+
+/**
+ * Applies and reverts migrations, only one `Migrator` (among all server
+ * instances sharing the store) may do it at the same time.
+ */
+export class Migrator {
+    private readonly owner = `${process.pid}:${Crypto.randomBytes(8).toString('hex')}`;
+
+    /**
+     * @param store      Storage of applied migrations and the lock.
+     * @param connection Connection, which is passed to migrations.
+     * @param migrations All known migrations, see `loadMigrations()`.
+     * @param options    Lock timing parameters.
+     */
+    constructor(
+        private readonly store:      MigrationStore,
+        private readonly connection: Connection,
+        private readonly migrations: MigrationFile[],
+        private readonly options:    MigrationLockOptions
+    ) {}
+
+    async status(): Promise<MigrationStatus[]> {
+        const applied = new Map(
+            (await this.store.getApplied()).map(({ name, appliedAt }) => [name, appliedAt] as [string, Date])
+        );
+        const statuses = this.migrations.map(({ name }): MigrationStatus => ({
+            name,
+            state:     applied.has(name) ? 'applied' : 'pending',
+            appliedAt: applied.get(name)
+        }));
+        for (const [name, appliedAt] of applied) {
+            if (!this.migrations.some(migration => migration.name === name)) {
+                statuses.push({ name, state: 'missing', appliedAt });
+            }
+        }
+        return statuses.sort((a, b) => compareNames(a.name, b.name));
+    }
+
+    /**
+     * Applies at most `count` pending migrations in order of their names.
+     * Returns names of the applied migrations.
+     *
+     * @throws Error
+     * If the lock wasn't acquired within `LockTimeout` or a migration failed,
+     * migrations applied before the failed one stay applied.
+     */
+    async up(count = Infinity) {
+        return this.withLock(async () => {
+            const applied = new Set((await this.store.getApplied()).map(({ name }) => name));
+            const pending = this.migrations
+                .filter(({ name }) => !applied.has(name))
+                .slice(0, count);
+            for (const migration of pending) {
+                Log.info(migration.name, 'applying migration');
+                await migration.up(this.connection);
+                await this.store.markApplied({ name: migration.name, appliedAt: new Date });
+            }
+            return pending.map(({ name }) => name);
+        });
+    }
+
+    /**
+     * Reverts at most `count` last applied migrations in reverse order.
+     * Returns names of the reverted migrations.
+     *
+     * @throws Error
+     * If the lock wasn't acquired within `LockTimeout`, a migration failed or
+     * the file of a migration to revert is missing.
+     */
+    async down(count = 1) {
+        return this.withLock(async () => {
+            const applied = (await this.store.getApplied()).reverse().slice(0, count);
+            const reverted = [] as string[];
+            for (const { name } of applied) {
+                const migration = this.migrations.find(candidate => candidate.name === name);
+                if (migration == null) {
+                    throw new Error(`file of the applied migration '${name}' is missing`);
+                }
+                Log.info(name, 'reverting migration');
+                await migration.down(this.connection);
+                await this.store.markReverted(name);
+                reverted.push(name);
+            }
+            return reverted;
+        });
+    }
+
+    private async withLock<TResult>(action: () => Promise<TResult>) {
+        const deadline = Date.now() + this.options.LockTimeout * 1000;
+        while (!await this.store.tryLock(this.owner, this.options.LockTtl)) {
+            if (Date.now() >= deadline) {
+                throw new Error(
+                    `failed to acquire migrations lock within ${this.options.LockTimeout} seconds`
+                );
+            }
+            await Utils.delay(LockRetryInterval);
+        }
+        try {
+            return await action();
+        } finally {
+            await this.store.unlock(this.owner);
+        }
+    }
+}
+
+/**
+ * Loads migrations from `dir`, only files with the same extension as this
+ * module are loaded, so that both compiled and source migrations are supported.
+ * Missing `dir` means there are no migrations.
+ *
+ * @throws Error
+ * If a file doesn't export `up()` and `down()` functions.
+ */
+export function loadMigrations(dir: string): MigrationFile[] {
+    if (!Fs.existsSync(dir)) {
+        return [];
+    }
+    const extension = Path.extname(__filename);
+    return Fs.readdirSync(dir)
+        .filter(fileName => Path.extname(fileName) === extension && !fileName.endsWith('.d.ts'))
+        .sort(compareNames)
+        .map(fileName => {
+            const { up, down } = require(Path.join(dir, fileName));
+            if (typeof up !== 'function' || typeof down !== 'function') {
+                throw new Error(`migration '${fileName}' must export up() and down() functions`);
+            }
+            return { name: Path.basename(fileName, extension), up, down };
+        });
+}
+
+/**
+ * Returns the file name for the new migration, e.g.
+ * `20190612093000-add-question-weight.ts`.
+ *
+ * @param title Description of the migration, it is converted to kebab case.
+ */
+export function makeMigrationFileName(title: string, now = new Date) {
+    const timestamp = now.toISOString().replace(/\D/g, '').slice(0, 14);
+    const kebabTitle = title
+        .replace(/([a-z\d])([A-Z])/g, '$1-$2')
+        .toLowerCase()
+        .replace(/[^a-z\d]+/g, '-')
+        .replace(/^-|-$/g, '');
+    return `${timestamp}-${kebabTitle}.ts`;
+}
+
+export const MigrationTemplate =
+`import { Connection } from 'mongoose';
+
+export async function up(_connection: Connection) {
+    throw new Error('not implemented');
+}
+
+export async function down(_connection: Connection) {
+    throw new Error('not implemented');
+}
+`;
+
+function compareNames(a: string, b: string) {
+    return a < b ? -1 : a > b ? 1 : 0;
+}
@@ -0,0 +1,126 @@
+import _ from 'lodash';
+import DataLoader    from 'dataloader';
+import * as Mongoose from 'mongoose';
+import * as      Vts from 'vee-type-safe';
+import { ObjectId } from 'modules/interfaces';
+import { IdNotFoundError } from 'modules/mongoose-utils/try-crud';
+import {
+    DeletedAtPath,
+    SoftDeleteOptions,
+    makeNotDeletedFilter
+} from 'modules/mongoose-utils/soft-delete';
+
+export type ByIdLoader<TDoc>    = DataLoader<ObjectId, TDoc | null>;
+export type ByFieldLoader<TDoc> = DataLoader<unknown, TDoc[]>;
+
+/**
+ * Lazily creates loaders, that batch and cache lean document queries of any
+ * model, so it is meant to be created for each request. Soft-deleted
+ * documents are ignored unless `includeDeleted` option is specified.
+ */
+export class LoaderRegistry {
+    private readonly loaders = new Map<string, DataLoader<unknown, unknown>>();
+
+    /**
+     * Returns loader of documents by their ids, it resolves to `null`
+     * if there is no document with the given id.
+     *
+     * @param model   Model of the documents to load.
+     * @param options Defines whether to include soft-deleted documents.
+     */
+    byId<TDoc extends Mongoose.Document>(
+        model:   Mongoose.Model<TDoc>,
+        options: SoftDeleteOptions = {}
+    ): ByIdLoader<TDoc> {
+        return this.getOrCreate(`${model.modelName}:_id:${Boolean(options.includeDeleted)}`, () => (
+            new DataLoader<ObjectId, TDoc | null>(async ids => {
+                const docs: TDoc[] = await model
+                    .find({ ...makeNotDeletedFilter(model, options), _id: { $in: ids } })
+                    .lean()
+                    .exec();
+                const docsById = _.keyBy(docs, doc => String(doc._id));
+                return ids.map(id => docsById[String(id)] || null);
+            }, { cacheKeyFn: String })
+        ));
+    }
+
+    /**
+     * Returns loader of documents by the value of the given field, it resolves
+     * to all documents with the given value in unspecified order.
+     *
+     * @param model Model of the documents to load.
+     * @param field Path of the scalar field to load documents by, e.g. a reference.
+     */
+    byField<TDoc extends Mongoose.Document>(
+        model: Mongoose.Model<TDoc>,
+        field: Extract<keyof TDoc, string>
+    ): ByFieldLoader<TDoc> {
+        return this.getOrCreate(`${model.modelName}:${field}`, () => (
+            new DataLoader<unknown, TDoc[]>(async values => {
+                const docs: TDoc[] = await model
+                    .find({ ...makeNotDeletedFilter(model), [field]: { $in: values } })
+                    .lean()
+                    .exec();
+                const docsByValue = _.groupBy(docs, doc => String(doc[field]));
+                return values.map(value => docsByValue[String(value)] || []);
+            }, { cacheKeyFn: String })
+        ));
+    }
+
+    /**
+     * The same as `TryCrud.tryFindById()`, but the query is batched and cached.
+     *
+     * @param model   Model of the document to load.
+     * @param id      Target document `ObjectId` to search for.
+     * @param options Defines whether to include soft-deleted documents.
+     *
+     * @throws IdNotFoundError | Error
+     * If no such document was found or mongoose ODM throws an error.
+     */
+    async tryFindById<TDoc extends Mongoose.Document>(
+        model:    Mongoose.Model<TDoc>,
+        id:       ObjectId,
+        options?: SoftDeleteOptions
+    ) {
+        const doc = await this.byId(model, options).load(id);
+        if (doc == null) {
+            throw new IdNotFoundError(id);
+        }
+        return doc;
+    }
+
+    /**
+     * Replaces cached document with the given one, so that loaders don't
+     * return stale documents after mutations, soft-deleted document is cached
+     * as missing one. Documents loaded by field are not affected.
+     *
+     * @param model Model of the document.
+     * @param doc   Lean document, that was created or updated.
+     */
+    prime<TDoc extends Mongoose.Document>(model: Mongoose.Model<TDoc>, doc: TDoc) {
+        const isDeleted = (doc as Vts.BasicObject)[DeletedAtPath] != null;
+        this.byId(model, { includeDeleted: true }).clear(doc._id).prime(doc._id, doc);
+        this.byId(model).clear(doc._id).prime(doc._id, isDeleted ? null : doc);
+    }
+
+    /**
+     * Removes all cached documents of the model, e.g. after they were deleted.
+     *
+     * @param model Model of the documents.
+     */
+    clear(model: Mongoose.Model<Mongoose.Document>) {
+        for (const [key, loader] of this.loaders) {
+            if (key.startsWith(`${model.modelName}:`)) {
+                loader.clearAll();
+            }
+        }
+    }
+
+    private getOrCreate<TLoader extends DataLoader<unknown, unknown>>(key: string, make: () => TLoader) {
+        let loader = this.loaders.get(key);
+        if (loader == null) {
+            this.loaders.set(key, loader = make());
+        }
+        return loader as TLoader;
+    }
+}
@@ -0,0 +1,16 @@
+import { MongoError } from 'mongodb';
+
+const DuplicateKeyErrorCode = 11000;
+
+/**
+ * Returns true if `err` was thrown by MongoDB due to unique index violation.
+ * The error is recognized by its name, as the driver class may be loaded
+ * more than once.
+ *
+ * @param err Error thrown by mongoose ODM.
+ */
+export function isDuplicateKeyError(err: unknown): err is MongoError {
+    return err instanceof Error
+        && err.name === 'MongoError'
+        && (err as MongoError).code === DuplicateKeyErrorCode;
+}
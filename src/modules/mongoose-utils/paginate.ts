@@ -3,12 +3,42 @@ import escapeStringRegexp from 'escape-string-regexp';
 import * as Vts      from 'vee-type-safe';
 import * as Mongoose from 'mongoose';
 import * as Utils    from '/modules/utils';
+import { BadRequestError } from '/modules/statused-error';
+import { SoftDeleteOptions, makeNotDeletedFilter } from '/modules/mongoose-utils/soft-delete';
 
 export interface Paginated<T> {
     total: number;
     data: T[];
 }
 
+export interface Edge<T> {
+    /**
+     * Opaque string that identifies `node` position within the sorted collection.
+     */
+    cursor: string;
+    node:   T;
+}
+
+export interface PageInfo {
+    hasNextPage:     boolean;
+    hasPreviousPage: boolean;
+    startCursor:     Vts.Maybe<string>;
+    endCursor:       Vts.Maybe<string>;
+}
+
+/**
+ * Represents Relay-style cursor pagination result.
+ */
+export interface Connection<T> {
+    edges:    Edge<T>[];
+    pageInfo: PageInfo;
+    /**
+     * Total amount of documents that match the query, it is defined only if
+     * it was requested via `PublicCursorPaginateOptions.total`.
+     */
+    total?:   Vts.Maybe<number>;
+}
+
 /**
  * This type represents public query object, typically obtain through API query
  * to your server. It is used is passed apart from `PrivatePaginateOptions`, as
@@ -53,23 +83,64 @@ export interface PublicPaginateOptions<TPublicFields extends string> {
         exclude?: Vts.Maybe<Vts.BasicObject>
     }>;
 }
+
+/**
+ * This type represents public query object for Relay-style cursor pagination.
+ * Exactly one of `first` or `last` must be specified.
+ */
+export interface PublicCursorPaginateOptions<TPublicFields extends string>
+extends Pick<PublicPaginateOptions<TPublicFields>, 'search' | 'filter'> {
+    /**
+     * Represents the maximum amount of documents to return after `after` cursor
+     * (or from the beginning of the collection if `after` is not specified).
+     */
+    first?:  Vts.Maybe<number>;
+    /**
+     * Cursor of the document, after which to start returning documents.
+     */
+    after?:  Vts.Maybe<string>;
+    /**
+     * Represents the maximum amount of documents to return before `before` cursor
+     * (or from the end of the collection if `before` is not specified).
+     */
+    last?:   Vts.Maybe<number>;
+    /**
+     * Cursor of the document, before which to start returning documents.
+     */
+    before?: Vts.Maybe<string>;
+    /**
+     * The same as `PublicPaginateOptions.sort`, `_id` is implicitly used as
+     * the last sort key in order to make cursors unique.
+     * Cursors are bound to the sort order they were created with.
+     */
+    sort?:   Vts.Maybe<PublicPaginateOptions<TPublicFields>['sort']>;
+    /**
+     * Defines whether to count the total amount of documents, that match the
+     * query. Beware that it requires an additional database request.
+     */
+    total?:  Vts.Maybe<boolean>;
+}
+
 /**
  * Here you may supply your custom additional filter/search option using public
  * query object.
  */
-export interface PrivatePaginateOptions<TDocData extends Vts.BasicObject> {
+export interface PrivatePaginateOptions<TDocData extends Vts.BasicObject>
+extends SoftDeleteOptions {
     /**
      * This object will be `Object.assigned` to the utlimate search query,
      * passed to `model.paginate()` function. You may use any valid MongoDB
      * expression objects.
      */
     filter?: Vts.Maybe<{
-        [TKey in keyof TDocData]: TDocData[TKey] | Vts.BasicObject
+        [TKey in keyof TDocData]?: TDocData[TKey] | Vts.BasicObject
+    } & {
+        _id?: Vts.Maybe<unknown>
     }>;
 }
 
 export type DocFieldsAliases<TDocData extends Vts.BasicObject> = (
-    Vts.MappedObject<Partial<TDocData>, string>
+    Partial<Record<Extract<keyof TDocData, string> | '_id', string>>
 );
 
 /**
@@ -87,7 +158,30 @@ export interface PaginatorOptions<TDocData extends Vts.BasicObject> {
      *
      */
     aliases?: Vts.Maybe<DocFieldsAliases<TDocData>>;
+    /**
+     * Document's fields that must never be exposed through public query keys,
+     * e.g. password hashes. Any attempt to search, sort or filter by them
+     * is rejected as an invalid query key.
+     */
+    hidden?: Vts.Maybe<string[]>;
+}
+
+type CursorSortKey = [string, 1 | -1];
+
+interface CursorData {
+    /**
+     * Document's keys the cursor was made for.
+     */
+    k: string[];
+    /**
+     * Document's values for the corresponding keys.
+     */
+    v: unknown[];
 }
+const CursorDataTD: Vts.TypeDescrObject<CursorData> = {
+    k: ['string'],
+    v: []
+};
 
 /**
  * This class is a utility to paginate `Mongoose.Documents` conveniently.
@@ -102,8 +196,9 @@ export class Paginator<
     TPublicFields extends string = Extract<keyof TDocData, string>
 >{
     private readonly model:      Mongoose.Model<Mongoose.Document>;
-    private readonly aliases:    Vts.Maybe<DocFieldsAliases<TDocData>>;
-
+    private readonly aliases:    Vts.BasicObjectMap<string, string>;
+    private readonly docKeys:    Vts.BasicObjectMap<string, string>;
+    private readonly hidden:     ReadonlySet<string>;
 
     /**
      * Creates an instance of Paginator.
@@ -112,20 +207,50 @@ export class Paginator<
      * @param aliases An object that maps public aliases to document's fields.
      *                E.g. if you want to expose `_id` field as `id`, you should
      *                forward `aliases` as `{ _id: 'id' }`.
+     * @param hidden  Document's fields that are not allowed to be used as
+     *                public query keys.
      *
      * @remarks
      * Prerequisites: All `aliases` keys must be in model schema, or undefined
      * behaviour.
      */
-    constructor({ model, aliases }: PaginatorOptions<TDocData>) {
+    constructor({ model, aliases, hidden }: PaginatorOptions<TDocData>) {
         this.model   = model;
-        this.aliases = aliases;
+        this.aliases = aliases == null ? {} : aliases as Vts.BasicObjectMap<string, string>;
+        this.docKeys = _.invert(this.aliases);
+        this.hidden  = new Set(hidden == null ? [] : hidden);
+    }
+
+    /**
+     * Returns public names of all document's fields that may be used as query
+     * keys, i.e. schema paths except hidden ones and `__v`, with `aliases` applied.
+     */
+    get publicFields() {
+        return this.getPublicFieldsWhere(_.stubTrue);
+    }
+
+    /**
+     * Returns public names of document's string fields, that may be used as
+     * `search` query keys.
+     */
+    get searchableFields() {
+        return this.getPublicFieldsWhere(schemaType => (
+            schemaType instanceof Mongoose.Schema.Types.String
+        ));
+    }
+
+    private getPublicFieldsWhere(predicate: (schemaType: Mongoose.SchemaType) => boolean) {
+        const fields: TPublicFields[] = [];
+        this.model.schema.eachPath((path, schemaType) => {
+            if (path !== '__v' && !this.hidden.has(path) && predicate(schemaType)) {
+                fields.push((this.aliases[path] != null ? this.aliases[path] : path) as TPublicFields);
+            }
+        });
+        return fields;
     }
 
     private mapKey(key: string) {
-        return this.aliases != null && this.aliases[key] != null
-            ? this.aliases[key]
-            : key;
+        return this.docKeys[key] != null ? this.docKeys[key] : key;
     }
 
     private isRequired(mappedKey: string) {
@@ -160,6 +285,95 @@ export class Paginator<
         Vts.ensureMatch(offset, Vts.isZeroOrPositiveInteger);
         Vts.ensureMatch(limit,  Vts.isZeroOrPositiveInteger);
 
+        const findQuery  = this.makeFindQuery(search, filter, privateOpts);
+        const totalQuery = this.model.count(findQuery).exec();
+        const docsQuery  = this.model
+            .find(findQuery)
+            .sort(this.makeMongoSort(sort))
+            .skip(offset)
+            .limit(limit).exec();
+
+        const [total, docs] = await Promise.all([totalQuery, docsQuery]);
+        return  {
+            total,
+            data: docs as TDoc[]
+        };
+    }
+
+    /**
+     * Returns Relay-style cursor pagination result from the database.
+     * Unlike `paginate()` it doesn't skip or repeat documents when the
+     * collection is modified between requests and doesn't count the
+     * total amount of documents unless it is explicitly requested.
+     *
+     * @param param0 Pagination options, @see PublicCursorPaginateOptions for details.
+     * @param privateOpts Defines options that this function will pass directly to
+     *                   mongoose.
+     *
+     * @throws BadRequestError | Error | Vts.TypeMismatchError
+     * If cursors are invalid, any type violations were found, or mongoose throws.
+     */
+    async paginateByCursor({
+            first,
+            after,
+            last,
+            before,
+            search,
+            sort,
+            filter,
+            total
+        }: PublicCursorPaginateOptions<TPublicFields>,
+        privateOpts?: Vts.Maybe<PrivatePaginateOptions<TDocData>>
+    ): Promise<Connection<TDoc>> {
+        if ((first == null) === (last == null)) {
+            throw new BadRequestError(`exactly one of 'first' or 'last' must be specified`);
+        }
+        const isBackward = last != null;
+        const limit      = (isBackward ? last : first)!;
+        Vts.ensureMatch(limit, Vts.isZeroOrPositiveInteger);
+
+        const findQuery = this.makeFindQuery(search, filter, privateOpts);
+        const sortSpec  = this.makeCursorSortSpec(sort);
+        const bounds = [
+            ...(after  == null ? [] : [Paginator.makeCursorBound(sortSpec, after,  1)]),
+            ...(before == null ? [] : [Paginator.makeCursorBound(sortSpec, before, -1)])
+        ];
+        const docsQuery = this.model
+            .find(bounds.length === 0 ? findQuery : { $and: [findQuery, ...bounds] })
+            .sort(_.fromPairs(sortSpec.map(([key, order]) => [
+                key, isBackward ? -order : order
+            ])))
+            .limit(limit + 1).exec();
+        const totalQuery = total ? this.model.count(findQuery).exec() : null;
+
+        const [docs, totalCount] = await Promise.all<
+            Mongoose.Document[], Vts.Maybe<number>
+        >([docsQuery, totalQuery]);
+        const hasMore = docs.length > limit;
+        const nodes   = docs.slice(0, limit) as TDoc[];
+        if (isBackward) {
+            nodes.reverse();
+        }
+        const edges = nodes.map(node => ({
+            node, cursor: Paginator.encodeCursor(sortSpec, node)
+        }));
+        return {
+            edges,
+            total: totalCount,
+            pageInfo: {
+                hasNextPage:     isBackward ? before != null : hasMore,
+                hasPreviousPage: isBackward ? hasMore : after != null,
+                startCursor:     edges.length === 0 ? null : edges[0].cursor,
+                endCursor:       edges.length === 0 ? null : edges[edges.length - 1].cursor
+            }
+        };
+    }
+
+    private makeFindQuery(
+        search:      PublicPaginateOptions<TPublicFields>['search'],
+        filter:      PublicPaginateOptions<TPublicFields>['filter'],
+        privateOpts: Vts.Maybe<PrivatePaginateOptions<TDocData>>
+    ): Vts.BasicObject {
         const mongoSearch = search == null ? {} :
             _.transform(search, this.transformQueryObj(
                 Paginator.mapSearchValue
@@ -181,10 +395,6 @@ export class Paginator<
                 )
             ));
 
-        const mongoSort = _.transform(sort, this.transformQueryObj(
-            Paginator.checkSortValue
-        ));
-
         const mongoFilter = (
             mongoExcludeFilter == null ?
             mongoIncludeFilter         :
@@ -193,23 +403,34 @@ export class Paginator<
             { $and: [mongoIncludeFilter, mongoExcludeFilter] }
         );
 
-        const findQuery = {
+        return {
+            ...makeNotDeletedFilter(this.model, privateOpts || {}),
             ...mongoSearch,
             ...mongoFilter,
             ...(privateOpts != null ? privateOpts.filter : {})
         };
-        const totalQuery = this.model.count(findQuery).exec();
-        const docsQuery  = this.model
-            .find(findQuery)
-            .sort(mongoSort)
-            .skip(offset)
-            .limit(limit).exec();
+    }
 
-        const [total, docs] = await Promise.all([totalQuery, docsQuery]);
-        return  {
-            total,
-            data: docs as TDoc[]
-        };
+    private makeMongoSort(sort: Vts.Maybe<PublicPaginateOptions<TPublicFields>['sort']>) {
+        return _.transform(sort || {}, this.transformQueryObj(
+            Paginator.checkSortValue
+        )) as Vts.BasicObjectMap<string, 'asc' | 'desc'>;
+    }
+
+    /**
+     * Returns an array of `[docKey, 1 | -1]` pairs, where `_id` is always the
+     * last key, so that the order of documents is strict.
+     */
+    private makeCursorSortSpec(sort: Vts.Maybe<PublicPaginateOptions<TPublicFields>['sort']>) {
+        const sortSpec = _.map(this.makeMongoSort(sort), (order, key): CursorSortKey => [
+            key, order === 'asc' ? 1 : -1
+        ]);
+        const idKey = sortSpec.find(([key]) => key === '_id');
+        if (idKey == null) {
+            sortSpec.push(['_id', sortSpec.length === 0 ? 1 : sortSpec[sortSpec.length - 1][1]]);
+            return sortSpec;
+        }
+        return [..._.without(sortSpec, idKey), idKey];
     }
 
     private transformQueryObj(
@@ -217,7 +438,7 @@ export class Paginator<
     ): _.MemoVoidDictionaryIterator<unknown, Vts.BasicObject> {
         return ((result, value, key) => {
             key = this.mapKey(key);
-            if (this.model.schema.path(key) == null) {
+            if (this.model.schema.path(key) == null || this.hidden.has(key)) {
                 throw new Error(`Invalid query key ${key}`);
             }
             if (!this.isRequired(key) || value != null) {
@@ -227,6 +448,62 @@ export class Paginator<
         });
     }
 
+    private static encodeCursor(sortSpec: CursorSortKey[], doc: Mongoose.Document) {
+        const cursor: CursorData = {
+            k: sortSpec.map(([key]) => key),
+            v: sortSpec.map(([key]) => doc.get(key))
+        };
+        return Buffer.from(JSON.stringify(cursor)).toString('base64');
+    }
+
+    private static decodeCursor(sortSpec: CursorSortKey[], cursor: string) {
+        let decoded: unknown;
+        try {
+            decoded = JSON.parse(Buffer.from(cursor, 'base64').toString());
+        } catch {
+            throw new BadRequestError(`invalid cursor '${cursor}'`);
+        }
+        const keys = sortSpec.map(([key]) => key);
+        if (Vts.mismatch(decoded, CursorDataTD) != null) {
+            throw new BadRequestError(`invalid cursor '${cursor}'`);
+        }
+        const cursorData = decoded as CursorData;
+        if (!_.isEqual(cursorData.k, keys) || cursorData.v.length !== keys.length) {
+            throw new BadRequestError(
+                `cursor '${cursor}' was created for another sort order`
+            );
+        }
+        return cursorData.v;
+    }
+
+    /**
+     * Returns mongo query, that matches only documents that go after
+     * (if `direction === 1`) or before (if `direction === -1`) the document
+     * identified by `cursor` according to the given `sortSpec`.
+     */
+    private static makeCursorBound(
+        sortSpec: CursorSortKey[], cursor: string, direction: 1 | -1
+    ) {
+        const values = Paginator.decodeCursor(sortSpec, cursor);
+        return {
+            $or: sortSpec.map(([key, order], i) => ({
+                ..._.zipObject(sortSpec.slice(0, i).map(([prevKey]) => prevKey), values),
+                [key]: Paginator.makeComparison(values[i], order * direction > 0)
+            }))
+        };
+    }
+
+    /**
+     * MongoDB sorts `null` and missing values before any other values,
+     * so they need a special treatment.
+     */
+    private static makeComparison(value: unknown, isGreater: boolean) {
+        if (value == null) {
+            return isGreater ? { $ne: null } : { $in: [] };
+        }
+        return isGreater ? { $gt: value } : { $not: { $gte: value } };
+    }
+
     private static checkSortValue(value: unknown) {
         if (value === 'asc' || value === 'desc') {
             return value;
@@ -0,0 +1,44 @@
+import { TryCrud  } from 'modules/mongoose-utils/try-crud';
+import { Log      } from 'modules/debug';
+import { ObjectId } from 'modules/interfaces';
+
+export interface PurgeSchedule {
+    /**
+     * Time to keep soft-deleted documents, expressed in seconds.
+     */
+    GracePeriod:   number;
+    /**
+     * Time between purges, expressed in seconds.
+     */
+    PurgeInterval: number;
+}
+
+export interface PurgeTarget {
+    /**
+     * `TryCrud` utility of the soft-deletable model.
+     */
+    crud:   TryCrud;
+    /**
+     * Removes data linked to each purged document, see `TryCrud.purgeDeleted()`.
+     */
+    erase?: (id: ObjectId) => Promise<void>;
+}
+
+/**
+ * Periodically removes documents, that were soft-deleted more than
+ * `GracePeriod` ago. The first purge runs right away.
+ * Returns the timer, that doesn't keep the process alive.
+ *
+ * @param targets  Soft-deletable models to purge.
+ * @param schedule Purge timing parameters.
+ */
+export function schedulePurge(targets: PurgeTarget[], { GracePeriod, PurgeInterval }: PurgeSchedule) {
+    const purge = () => {
+        const deletedBefore = new Date(Date.now() - GracePeriod * 1000);
+        Promise.all(targets.map(({ crud, erase }) => crud.purgeDeleted(deletedBefore, erase))).catch(
+            err => Log.error(err, 'failed to purge soft-deleted documents')
+        );
+    };
+    purge();
+    return setInterval(purge, PurgeInterval * 1000).unref();
+}
@@ -0,0 +1,38 @@
+import * as Mongoose from 'mongoose';
+import * as      Vts from 'vee-type-safe';
+
+/**
+ * Models opt in to soft deletion by declaring this optional `Date` path,
+ * documents with non-null value are considered deleted.
+ */
+export const DeletedAtPath = 'deleted_at';
+
+export interface SoftDeleteOptions {
+    /**
+     * Whether to take soft-deleted documents into account, `false` by default.
+     */
+    includeDeleted?: Vts.Maybe<boolean>;
+}
+
+/**
+ * Returns true if documents of `model` are soft-deleted.
+ *
+ * @param model Target model to check.
+ */
+export function isSoftDeletable(model: Mongoose.Model<Mongoose.Document>) {
+    return model.schema.path(DeletedAtPath) != null;
+}
+
+/**
+ * Returns mongoose query object, that excludes soft-deleted documents of
+ * `model`, it is empty if they must be included or `model` is not soft-deletable.
+ *
+ * @param model   Target model of the query.
+ * @param options Defines whether to include soft-deleted documents.
+ */
+export function makeNotDeletedFilter(
+    model: Mongoose.Model<Mongoose.Document>,
+    { includeDeleted }: SoftDeleteOptions = {}
+): Vts.BasicObject {
+    return includeDeleted || !isSoftDeletable(model) ? {} : { [DeletedAtPath]: null };
+}
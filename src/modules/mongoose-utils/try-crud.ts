@@ -2,6 +2,12 @@ import * as Mongoose from 'mongoose';
 import * as      Vts from 'vee-type-safe';
 import { ObjectId      } from 'modules/interfaces';
 import { NotFoundError } from 'modules/statused-error';
+import {
+    DeletedAtPath,
+    SoftDeleteOptions,
+    isSoftDeletable,
+    makeNotDeletedFilter
+} from 'modules/mongoose-utils/soft-delete';
 
 export class IdNotFoundError extends NotFoundError {
     constructor(id: ObjectId, targetName = 'instance') {
@@ -9,9 +15,31 @@ export class IdNotFoundError extends NotFoundError {
     }
 }
 
+/**
+ * Describes the change of one document made by `TryCrud` mutation,
+ * `before` or `after` is `null` if the document didn't or doesn't exist.
+ * Both are `null` for purges, so that removed documents don't outlive
+ * themselves in the audit log.
+ */
+export interface DocumentChange {
+    modelName: string;
+    id:        ObjectId;
+    before:    Vts.Maybe<Vts.BasicObject>;
+    after:     Vts.Maybe<Vts.BasicObject>;
+}
+
+/**
+ * Receives changes made by `TryCrud` mutations, e.g. in order to record them
+ * to the audit log.
+ */
+export interface MutationAuditor {
+    record(change: DocumentChange): Promise<void>;
+}
 
 /**
  * Simple utility class that provides exception-driven mongoose CRUD functionality.
+ * If the model is soft-deletable (see `DeletedAtPath`), soft-deleted documents
+ * are ignored unless `includeDeleted` option is specified.
  * @param TDoc Type of target mongoose documents.
  */
 export class TryCrud<TDoc extends Mongoose.Document = Mongoose.Document> {
@@ -22,51 +50,140 @@ export class TryCrud<TDoc extends Mongoose.Document = Mongoose.Document> {
     constructor(private readonly model: Mongoose.Model<TDoc>) {}
 
     /**
-     * Tries to find document by `id` and call `doc.remove()`.
+     * Tries to soft-delete the document if the model is soft-deletable,
+     * otherwise does the same as `tryPurgeById()`.
+     * Returns the deleted document.
+     *
+     * @param id    Id of the target document to delete.
+     * @param audit Auditor to notify about the deletion.
+     *
+     * @throws IdNotFoundError | Error
+     * If no such document was found or mongoose ODM throws an error.
+     */
+    async tryDeleteById(id: ObjectId, audit?: Vts.Maybe<MutationAuditor>) {
+        if (!isSoftDeletable(this.model)) {
+            return this.tryPurgeById(id, audit);
+        }
+        return this.tryUpdateById(id, { [DeletedAtPath]: new Date }, audit);
+    }
+
+    /**
+     * Tries to find document by `id` and call `doc.remove()`, soft-deleted
+     * documents are removed too.
      *
-     * @param id Id of the target document to delete.
+     * @param id    Id of the target document to remove permanently.
+     * @param audit Auditor to notify about the removal.
      *
      * @throws IdNotFoundError | Error
      * If no such document was found or mongoose ODM throws an error.
      */
-    async tryDeleteById(id: ObjectId) {
+    async tryPurgeById(id: ObjectId, audit?: Vts.Maybe<MutationAuditor>) {
         const doc = await this.model.findById(id).exec();
         if (doc == null) {
             throw new IdNotFoundError(id);
         }
-        return doc.remove();
+        const removedDoc = await doc.remove();
+        if (audit != null) {
+            await audit.record({ modelName: this.model.modelName, id, before: null, after: null });
+        }
+        return removedDoc;
     }
 
     /**
-     * Tries to `findByIdAndUpdate()` the document.
+     * Tries to restore soft-deleted document. Returns the restored document.
+     *
+     * @param id    Id of the target soft-deleted document.
+     * @param audit Auditor to notify about the restoration.
+     *
+     * @throws IdNotFoundError | Error
+     * If no such soft-deleted document was found or mongoose ODM throws an error.
+     */
+    async tryRestoreById(id: ObjectId, audit?: Vts.Maybe<MutationAuditor>) {
+        if (!isSoftDeletable(this.model)) {
+            throw new IdNotFoundError(id, 'deleted instance');
+        }
+        const filter = { _id: id, [DeletedAtPath]: { $ne: null } };
+        const before = audit == null ? null : await this.model.findOne(filter).lean().exec();
+        const restoredDoc = await this.model
+            .findOneAndUpdate(filter, { $unset: { [DeletedAtPath]: 1 } }, { new: true })
+            .lean()
+            .exec();
+        if (restoredDoc == null) {
+            throw new IdNotFoundError(id, 'deleted instance');
+        }
+        if (audit != null) {
+            await audit.record({ modelName: this.model.modelName, id, before, after: restoredDoc });
+        }
+        return restoredDoc;
+    }
+
+    /**
+     * Removes documents, that were soft-deleted before the given date,
+     * bypassing `remove` middleware. Returns the amount of removed documents.
+     *
+     * @param deletedBefore Documents deleted earlier are removed.
+     * @param erase         Removes data linked to the document with the given id,
+     *                      e.g. `erasePersonalData()`, it is called before the
+     *                      document is removed, so failed erasure is retried
+     *                      by the next purge.
+     */
+    async purgeDeleted(deletedBefore: Date, erase?: Vts.Maybe<(id: ObjectId) => Promise<void>>) {
+        if (!isSoftDeletable(this.model)) {
+            return 0;
+        }
+        const filter = { [DeletedAtPath]: { $lt: deletedBefore } };
+        if (erase == null) {
+            const { n } = await this.model.deleteMany(filter).exec();
+            return n || 0;
+        }
+        const docs: Array<{ _id: ObjectId }> = await this.model.find(filter).select('_id').lean().exec();
+        for (const { _id } of docs) {
+            await erase(_id);
+            await this.model.deleteOne({ _id }).exec();
+        }
+        return docs.length;
+    }
+
+    /**
+     * Tries to `findOneAndUpdate()` the not soft-deleted document.
      * Returns the updated document.
      *
      * @param id     Id of the target document to update.
      * @param update Mongoose update object.
+     * @param audit  Auditor to notify about the update.
      *
      * @throws IdNotFoundError | Error
      * If no such document was found or mongoose ODM throws an error.
      */
-    async tryUpdateById(id: ObjectId, update: Vts.BasicObject) {
+    async tryUpdateById(id: ObjectId, update: Vts.BasicObject, audit?: Vts.Maybe<MutationAuditor>) {
+        const before = audit == null ? null : await this.tryFindById(id);
         const updatedDoc = await this.model
-            .findByIdAndUpdate(id, update, { new: true })
+            .findOneAndUpdate({ ...makeNotDeletedFilter(this.model), _id: id }, update, { new: true })
             .lean()
             .exec();
         if (updatedDoc == null) {
             throw new IdNotFoundError(id);
         }
+        if (audit != null) {
+            await audit.record({ modelName: this.model.modelName, id, before, after: updatedDoc });
+        }
         return updatedDoc;
     }
+
     /**
-     * Tries to `findById(id)` and returns the given result.
+     * Tries to `findOne()` the document by `id` and returns the given result.
      *
-     * @param id Target document `ObjectId` to search for.
+     * @param id      Target document `ObjectId` to search for.
+     * @param options Defines whether to include soft-deleted documents.
      *
      * @throws IdNotFoundError | Error
      * If no such document was found or mongoose ODM throws an error.
      */
-    async tryFindById(id: ObjectId) {
-        const doc = await this.model.findById(id).lean().exec();
+    async tryFindById(id: ObjectId, options?: SoftDeleteOptions) {
+        const doc = await this.model
+            .findOne({ ...makeNotDeletedFilter(this.model, options), _id: id })
+            .lean()
+            .exec();
         if (doc == null) {
             throw new IdNotFoundError(id);
         }
@@ -77,12 +194,16 @@ export class TryCrud<TDoc extends Mongoose.Document = Mongoose.Document> {
      * Tries to `findOne(queryObj)` and returns the given result.
      *
      * @param queryObj Mongoose query object.
+     * @param options  Defines whether to include soft-deleted documents.
      *
      * @throws IdNotFoundError | Error
      * If no such document was found or mongoose ODM throws an error.
      */
-    async tryFindOne(queryObj: Vts.BasicObject) {
-        const doc = await this.model.findOne(queryObj).lean().exec();
+    async tryFindOne(queryObj: Vts.BasicObject, options?: SoftDeleteOptions) {
+        const doc = await this.model
+            .findOne({ ...makeNotDeletedFilter(this.model, options), ...queryObj })
+            .lean()
+            .exec();
         if (doc == null) {
             throw new NotFoundError;
         }
@@ -0,0 +1,36 @@
+import _ from 'lodash';
+import * as Vts from 'vee-type-safe';
+
+export interface FieldChange {
+    field:  string;
+    before: unknown;
+    after:  unknown;
+}
+
+/**
+ * Returns top-level fields, which values differ in `before` and `after`,
+ * nullish objects are treated as empty ones. Mongoose `__v` field is ignored.
+ *
+ * @param before   Object state before the change.
+ * @param after    Object state after the change.
+ * @param redacted Fields, which values must not be revealed, their changes
+ *                 are reported with `'[redacted]'` values.
+ */
+export function diffObjects(
+    before:   Vts.Maybe<Vts.BasicObject>,
+    after:    Vts.Maybe<Vts.BasicObject>,
+    redacted: ReadonlyArray<string> = []
+): FieldChange[] {
+    const oldObj = before || {};
+    const newObj = after  || {};
+    const redact = (field: string, value: unknown) => (
+        value !== undefined && redacted.includes(field) ? '[redacted]' : value
+    );
+    return _.union(Object.keys(oldObj), Object.keys(newObj))
+        .filter(field => field !== '__v' && !_.isEqual(oldObj[field], newObj[field]))
+        .map(field => ({
+            field,
+            before: redact(field, oldObj[field]),
+            after:  redact(field, newObj[field])
+        }));
+}
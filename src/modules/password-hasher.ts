@@ -0,0 +1,290 @@
+import _ from 'lodash';
+import * as Crypto from 'crypto';
+import * as Util   from 'util';
+
+const scrypt = Util.promisify(Crypto.scrypt) as (
+    password: Crypto.BinaryLike, salt: Crypto.BinaryLike, keylen: number, options: Crypto.ScryptOptions
+) => Promise<Buffer>;
+const pbkdf2 = Util.promisify(Crypto.pbkdf2);
+
+/**
+ * Represents parsed self-describing password hash, which string representation
+ * has the following format: `$<algorithm>$<param>=<value>,...$<salt>$<hash>`,
+ * where `salt` and `hash` are base64-encoded.
+ */
+export interface PasswordHash {
+    algorithm: string;
+    params:    Record<string, number>;
+    salt:      Buffer;
+    hash:      Buffer;
+}
+
+/**
+ * Defines an interface for password hashing algorithms, that
+ * may be plugged into `PasswordHasher`.
+ */
+export interface PasswordHashAlgorithm {
+    /**
+     * Unique algorithm identifier, that is stored as a part of the hash.
+     */
+    readonly id: string;
+    /**
+     * Returns a hash of the `password` with a new random salt.
+     */
+    hash(password: string): Promise<PasswordHash>;
+    /**
+     * Returns true if the `password` matches the given `hash`.
+     * Implementations must compare hashes in constant time.
+     */
+    verify(password: string, hash: PasswordHash): Promise<boolean>;
+    /**
+     * Returns true if the `hash` was made with weaker parameters than
+     * the current ones, so it needs to be recomputed.
+     */
+    isOutdated(hash: PasswordHash): boolean;
+}
+
+/**
+ * Returns true if `actual` equals to `expected`, takes the same time to compare
+ * buffers of the same length regardless of their contents.
+ */
+export function constantTimeEquals(actual: Buffer, expected: Buffer) {
+    return actual.length === expected.length && Crypto.timingSafeEqual(actual, expected);
+}
+
+export interface ScryptParams {
+    /**
+     * CPU/memory cost parameter, must be a power of two.
+     */
+    N: number;
+    /**
+     * Block size parameter.
+     */
+    r: number;
+    /**
+     * Parallelization parameter.
+     */
+    p: number;
+    /**
+     * Length of the generated hash in bytes.
+     */
+    keylen: number;
+}
+
+export class ScryptAlgorithm implements PasswordHashAlgorithm {
+    readonly id = 'scrypt';
+
+    constructor(
+        private readonly params: ScryptParams = { N: 16384, r: 8, p: 1, keylen: 64 },
+        private readonly saltLength = 16
+    ) {}
+
+    async hash(password: string): Promise<PasswordHash> {
+        const salt = Crypto.randomBytes(this.saltLength);
+        return {
+            algorithm: this.id,
+            params:    { ...this.params },
+            salt,
+            hash:      await ScryptAlgorithm.derive(password, salt, this.params)
+        };
+    }
+
+    async verify(password: string, { params, salt, hash }: PasswordHash) {
+        return constantTimeEquals(
+            await ScryptAlgorithm.derive(password, salt, params as unknown as ScryptParams),
+            hash
+        );
+    }
+
+    isOutdated({ params }: PasswordHash) {
+        return _.some(this.params, (value, key) => params[key] !== value);
+    }
+
+    private static async derive(password: string, salt: Buffer, { N, r, p, keylen }: ScryptParams) {
+        // scrypt requires about 128 * N * r bytes, which may exceed default maxmem
+        return scrypt(password, salt, keylen, { N, r, p, maxmem: 256 * N * r });
+    }
+}
+
+export interface Pbkdf2Params {
+    iterations: number;
+    /**
+     * Length of the generated hash in bytes.
+     */
+    keylen:     number;
+}
+
+export class Pbkdf2Algorithm implements PasswordHashAlgorithm {
+    readonly id = 'pbkdf2-sha512';
+
+    constructor(
+        private readonly params: Pbkdf2Params = { iterations: 100000, keylen: 64 },
+        private readonly saltLength = 16
+    ) {}
+
+    async hash(password: string): Promise<PasswordHash> {
+        const salt = Crypto.randomBytes(this.saltLength);
+        const { iterations, keylen } = this.params;
+        return {
+            algorithm: this.id,
+            params:    { ...this.params },
+            salt,
+            hash:      await pbkdf2(password, salt, iterations, keylen, 'sha512')
+        };
+    }
+
+    async verify(password: string, { params: { iterations, keylen }, salt, hash }: PasswordHash) {
+        return constantTimeEquals(
+            await pbkdf2(password, salt, iterations, keylen, 'sha512'),
+            hash
+        );
+    }
+
+    isOutdated({ params }: PasswordHash) {
+        return params.iterations < this.params.iterations || params.keylen !== this.params.keylen;
+    }
+}
+
+/**
+ * Represents deprecated HMAC-SHA512 hashing with one global secret salt.
+ * Its hashes are stored as plain hex strings, they are not self-describing.
+ * It must be used only in order to verify legacy hashes.
+ */
+export class LegacyHmacAlgorithm implements PasswordHashAlgorithm {
+    static readonly Id = 'legacy-hmac-sha512';
+    readonly id = LegacyHmacAlgorithm.Id;
+
+    constructor(private readonly secret: string) {}
+
+    async hash(password: string): Promise<PasswordHash> {
+        return {
+            algorithm: this.id,
+            params:    {},
+            salt:      Buffer.alloc(0),
+            hash:      Crypto.createHmac('sha512', this.secret).update(password).digest()
+        };
+    }
+
+    async verify(password: string, { hash }: PasswordHash) {
+        return this.secret !== '' && constantTimeEquals((await this.hash(password)).hash, hash);
+    }
+
+    isOutdated() {
+        return true;
+    }
+}
+
+/**
+ * Hashes and verifies passwords using pluggable algorithms. New hashes are
+ * always made with the current algorithm, while hashes made with any of
+ * the registered algorithms may be verified.
+ */
+export class PasswordHasher {
+    /**
+     * Matches `LegacyHmacAlgorithm` hashes, which are plain hex strings.
+     */
+    static readonly LegacyHashPattern = /^[0-9a-f]+$/i;
+
+    private readonly algorithms: Map<string, PasswordHashAlgorithm>;
+    // made lazily, since hashing is slow by design
+    private dummyHash?: Promise<PasswordHash>;
+
+    /**
+     * @param current    Algorithm to make new hashes with.
+     * @param deprecated Algorithms, which hashes may only be verified and
+     *                   need to be rehashed with the `current` one.
+     */
+    constructor(
+        private readonly current: PasswordHashAlgorithm,
+        deprecated: PasswordHashAlgorithm[] = []
+    ) {
+        this.algorithms = new Map(
+            [current, ...deprecated].map(algo => [algo.id, algo] as [string, PasswordHashAlgorithm])
+        );
+    }
+
+    /**
+     * Returns self-describing hash of the `password` to store in the database.
+     * @param password Raw password to hash.
+     */
+    async hash(password: string) {
+        return PasswordHasher.serialize(await this.current.hash(password));
+    }
+
+    /**
+     * Returns true if the `password` matches the `encodedHash`. Returns false
+     * if the hash is malformed or was made with an unregistered algorithm.
+     *
+     * @param password    Raw password to verify.
+     * @param encodedHash Hash returned by `hash()` or a legacy hex hash.
+     */
+    async verify(password: string, encodedHash: string) {
+        const hash = PasswordHasher.parse(encodedHash);
+        const algorithm = hash == null ? null : this.algorithms.get(hash.algorithm);
+        return algorithm != null && algorithm.verify(password, hash!);
+    }
+
+    /**
+     * Takes about the same time as `verify()` of a hash made by the current
+     * algorithm and returns false. It must be used when there is no hash to
+     * verify, so that the response time doesn't reveal it.
+     *
+     * @param password Raw password to verify.
+     */
+    async verifyNothing(password: string) {
+        if (this.dummyHash == null) {
+            this.dummyHash = this.current.hash('');
+        }
+        await this.current.verify(password, await this.dummyHash);
+        return false;
+    }
+
+    /**
+     * Returns true if the `encodedHash` was not made by the current algorithm
+     * with the current parameters.
+     */
+    needsRehash(encodedHash: string) {
+        const hash = PasswordHasher.parse(encodedHash);
+        return hash == null ||
+            hash.algorithm !== this.current.id ||
+            this.current.isOutdated(hash);
+    }
+
+    static serialize({ algorithm, params, salt, hash }: PasswordHash) {
+        const paramsString = _.map(params, (value, key) => `${key}=${value}`).join(',');
+        return `$${algorithm}$${paramsString}$${salt.toString('base64')}$${hash.toString('base64')}`;
+    }
+
+    /**
+     * Returns `null` if `encodedHash` is malformed. Strings of hexadecimal digits
+     * are treated as `LegacyHmacAlgorithm` hashes.
+     */
+    static parse(encodedHash: string): PasswordHash | null {
+        if (PasswordHasher.LegacyHashPattern.test(encodedHash)) {
+            return {
+                algorithm: LegacyHmacAlgorithm.Id,
+                params:    {},
+                salt:      Buffer.alloc(0),
+                hash:      Buffer.from(encodedHash, 'hex')
+            };
+        }
+        const parts = encodedHash.split('$');
+        if (parts.length !== 5 || parts[0] !== '') {
+            return null;
+        }
+        const [, algorithm, paramsString, salt, hash] = parts;
+        const params: Record<string, number> = {};
+        for (const param of paramsString === '' ? [] : paramsString.split(',')) {
+            const [key, value] = param.split('=');
+            if (value == null || !Number.isSafeInteger(params[key] = Number(value))) {
+                return null;
+            }
+        }
+        return {
+            algorithm,
+            params,
+            salt: Buffer.from(salt, 'base64'),
+            hash: Buffer.from(hash, 'base64')
+        };
+    }
+}
@@ -0,0 +1,99 @@
+import * as Config from '/config';
+
+/**
+ * Named capabilities, that are granted to users through their roles
+ * according to `Config.RolePermissions` table.
+ */
+export enum Permission {
+    UserRead        = 'user:read',
+    /**
+     * Allows to read user fields, that are not meant to be public.
+     */
+    UserReadPrivate = 'user:read:private',
+    UserCreate      = 'user:create',
+    UserUpdateSelf  = 'user:update:self',
+    UserUpdateAny   = 'user:update:any',
+    UserUpdateRole  = 'user:update:role',
+    UserDisable     = 'user:disable',
+    /**
+     * Allows to lift login lockout from user accounts.
+     */
+    UserUnlock      = 'user:unlock',
+    /**
+     * Allows to delete, restore and purge users and to read deleted ones.
+     */
+    UserDelete      = 'user:delete',
+    /**
+     * Allows to hide other users from oneself and oneself from them.
+     */
+    UserBlock       = 'user:block',
+
+    QuestionRead    = 'question:read',
+    /**
+     * Allows to create, update, delete and read inactive questions.
+     */
+    QuestionManage  = 'question:manage',
+    QuestionAnswer  = 'question:answer',
+
+    MatchRead       = 'match:read',
+    /**
+     * Allows to like, pass and unmatch other users.
+     */
+    MatchSwipe      = 'match:swipe',
+
+    ReportCreate    = 'report:create',
+    /**
+     * Allows to read and dismiss reports and to read moderation actions.
+     */
+    ReportManage    = 'report:manage',
+    /**
+     * Allows to warn, suspend and ban users and to remove reported content.
+     */
+    UserModerate    = 'user:moderate',
+
+    /**
+     * Allows to send messages to matched users and mark their messages as read.
+     */
+    MessageSend     = 'message:send',
+    MessageRead     = 'message:read',
+
+    ProfileRead       = 'profile:read',
+    ProfileUpdateSelf = 'profile:update:self',
+
+    /**
+     * Allows to upload, reorder and delete own photos.
+     */
+    PhotoUpdateSelf = 'photo:update:self',
+    /**
+     * Allows to list, approve, reject and delete photos of any user.
+     */
+    PhotoModerate   = 'photo:moderate',
+
+    /**
+     * Allows to read audit log of privileged and security-relevant actions.
+     */
+    AuditRead       = 'audit:read',
+
+    /**
+     * Allows to read usage counters of persisted operations.
+     */
+    MetricsRead     = 'metrics:read'
+}
+
+/**
+ * Returns true if `role` is granted `permission` either directly or via
+ * wildcard permission (`user:*` or `*`).
+ *
+ * @param role       Role of the user to check.
+ * @param permission Required permission.
+ */
+export function hasPermission(role: string, permission: Permission) {
+    const granted = Config.RolePermissions[role];
+    if (granted == null) {
+        return false;
+    }
+    const segments = permission.split(':');
+    return granted.includes(permission) || segments.some(
+        (_segment, i) => granted.includes([...segments.slice(0, i), '*'].join(':'))
+    );
+}
@@ -0,0 +1,179 @@
+import * as I      from 'modules/interfaces';
+import * as Crypto from 'crypto';
+import { addTypenameToDocument } from 'apollo-utilities';
+import {
+    DefinitionNode,
+    FragmentDefinitionNode,
+    Kind,
+    OperationDefinitionNode,
+    parse,
+    print,
+    visit
+} from 'graphql';
+
+/**
+ * Operation, that is allowed in strict mode, by the SHA-256 hash of its text.
+ */
+export type PersistedQueryManifest = Record<string, {
+    operationName: I.Maybe<string>;
+    query:         string;
+}>;
+
+export interface OperationUsage {
+    hash:          string;
+    operationName: I.Maybe<string>;
+    count:         number;
+    lastUsedAt:    I.Maybe<Date>;
+}
+
+/**
+ * Defines an interface for persisted queries storage, that is used for
+ * automatic persisted queries lookups and keeps their usage counters.
+ */
+export interface PersistedQueryStore {
+    /**
+     * Returns query text by its hash or `null` if there is no such query.
+     */
+    get(hash: string): Promise<I.Maybe<string>>;
+    /**
+     * Saves the query by its hash, counters of existing queries are preserved.
+     */
+    set(hash: string, query: string, operationName?: I.Maybe<string>): Promise<void>;
+    /**
+     * Increments usage counter of the saved query, other queries are ignored,
+     * so that arbitrary operations don't bloat the store. `operationName` is
+     * saved only if the query has no one, as it is sent by the client.
+     */
+    recordUsage(hash: string, operationName: I.Maybe<string>): Promise<void>;
+    /**
+     * Returns usage counters of all saved queries, the most used ones go first.
+     */
+    getUsage(): Promise<OperationUsage[]>;
+}
+
+/**
+ * Keeps queries in process memory, it is suitable only for single-instance
+ * deployments.
+ */
+export class MemoryPersistedQueryStore implements PersistedQueryStore {
+    private readonly records = new Map<string, OperationUsage & { query: string }>();
+
+    async get(hash: string) {
+        const record = this.records.get(hash);
+        return record == null ? null : record.query;
+    }
+
+    async set(hash: string, query: string, operationName?: I.Maybe<string>) {
+        const record = this.records.get(hash);
+        this.records.set(hash, record == null
+            ? { hash, query, operationName, count: 0, lastUsedAt: null }
+            : { ...record, query, operationName: operationName || record.operationName }
+        );
+    }
+
+    async recordUsage(hash: string, operationName: I.Maybe<string>) {
+        const record = this.records.get(hash);
+        if (record != null) {
+            record.count        += 1;
+            record.lastUsedAt    = new Date;
+            record.operationName = record.operationName || operationName;
+        }
+    }
+
+    async getUsage() {
+        return [...this.records.values()]
+            .map(({ query, ...usage }) => usage)
+            .sort((left, right) => right.count - left.count);
+    }
+}
+
+/**
+ * Returns hex-encoded SHA-256 hash of the query text, the same as the one
+ * used by automatic persisted queries.
+ *
+ * @param query Text of the query exactly as it is sent by clients.
+ */
+export function hashQuery(query: string) {
+    return Crypto.createHash('sha256').update(query).digest('hex');
+}
+
+/**
+ * Returns manifest of all operations defined in GraphQL documents source.
+ * Each operation is printed along with the fragments it uses and `__typename`
+ * fields, which is how Apollo Client sends it.
+ *
+ * @param source Text of GraphQL documents with operations and fragments.
+ *
+ * @throws GraphQLError | Error
+ * If the source can't be parsed or an operation uses undefined fragment.
+ */
+export function makeManifest(source: string) {
+    const { definitions } = parse(source);
+    const operations = definitions.filter(isOperation);
+    const fragments  = definitions.filter(isFragment);
+    return operations.reduce<PersistedQueryManifest>((manifest, operation) => {
+        const used  = collectFragments(operation, fragments);
+        const query = print(addTypenameToDocument({
+            kind:        Kind.DOCUMENT,
+            definitions: [operation, ...fragments.filter(fragment => used.has(fragment.name.value))]
+        }));
+        manifest[hashQuery(query)] = {
+            operationName: operation.name == null ? null : operation.name.value,
+            query
+        };
+        return manifest;
+    }, {});
+}
+
+/**
+ * Returns names of the fragments used by the definition directly or via
+ * other fragments.
+ */
+function collectFragments(
+    definition: DefinitionNode,
+    fragments:  FragmentDefinitionNode[],
+    used        = new Set<string>()
+) {
+    visit(definition, {
+        FragmentSpread({ name: { value: name } }) {
+            if (used.has(name)) {
+                return;
+            }
+            const fragment = fragments.find(candidate => candidate.name.value === name);
+            if (fragment == null) {
+                throw new Error(`fragment '${name}' is not defined`);
+            }
+            used.add(name);
+            collectFragments(fragment, fragments, used);
+        }
+    });
+    return used;
+}
+
+function isOperation(definition: DefinitionNode): definition is OperationDefinitionNode {
+    return definition.kind === Kind.OPERATION_DEFINITION;
+}
+
+function isFragment(definition: DefinitionNode): definition is FragmentDefinitionNode {
+    return definition.kind === Kind.FRAGMENT_DEFINITION;
+}
+
+/**
+ * Returns operations with hashes of their texts from `makeManifest()` output,
+ * hashes are verified, so that tampered manifests are rejected.
+ *
+ * @param manifestJson JSON of `PersistedQueryManifest`.
+ *
+ * @throws Error
+ * If manifest has invalid format or some hash doesn't match its query.
+ */
+export function parseManifest(manifestJson: string): PersistedQueryManifest {
+    const manifest = JSON.parse(manifestJson) as PersistedQueryManifest;
+    for (const [hash, { query }] of Object.entries(manifest)) {
+        if (typeof query !== 'string' || hashQuery(query) !== hash) {
+            throw new Error(`persisted query '${hash}' doesn't match its hash`);
+        }
+    }
+    return manifest;
+}
+
@@ -0,0 +1,101 @@
+import * as I from 'modules/interfaces';
+
+/**
+ * Defines how one model takes part in personal data export and erasure.
+ */
+export interface PersonalDataHandler {
+    /**
+     * Returns JSON-serializable data linked to the user, there is no such
+     * section in the export if it is not defined, e.g. for derived data.
+     */
+    export?(userId: I.ObjectId): Promise<unknown>;
+    /**
+     * Removes or anonymises all data linked to the user.
+     */
+    erase(userId: I.ObjectId): Promise<void>;
+}
+
+/**
+ * Keeps handlers of the models, that take part in personal data export and
+ * erasure. The application uses the default one via the functions below.
+ */
+export class PersonalDataRegistry {
+    private readonly handlers = new Map<string, PersonalDataHandler>();
+
+    /**
+     * @param name    Name of the export section, e.g. the collection name.
+     * @param handler Export and erasure policy of the model.
+     *
+     * @throws Error
+     * If handler with the given `name` is already registered.
+     */
+    register(name: string, handler: PersonalDataHandler) {
+        if (this.handlers.has(name)) {
+            throw new Error(`personal data handler '${name}' is already registered`);
+        }
+        this.handlers.set(name, handler);
+    }
+
+    /**
+     * Returns data linked to the user by all handlers, grouped by their names.
+     *
+     * @param userId Id of the user to export data of.
+     */
+    async export(userId: I.ObjectId) {
+        const sections: Record<string, unknown> = {};
+        for (const [name, handler] of this.handlers) {
+            if (handler.export != null) {
+                sections[name] = await handler.export(userId);
+            }
+        }
+        return sections;
+    }
+
+    /**
+     * Erases data linked to the user by all handlers in the reverse order of
+     * their registration, as models are registered after the ones they depend on.
+     *
+     * @param userId Id of the user to erase data of.
+     */
+    async erase(userId: I.ObjectId) {
+        for (const handler of [...this.handlers.values()].reverse()) {
+            await handler.erase(userId);
+        }
+    }
+}
+
+const registry = new PersonalDataRegistry;
+
+/**
+ * Makes the model take part in `exportPersonalData()` and `erasePersonalData()`,
+ * it is meant to be called once the model is defined.
+ *
+ * @param name    Name of the export section, e.g. the collection name.
+ * @param handler Export and erasure policy of the model.
+ *
+ * @throws Error
+ * If handler with the given `name` is already registered.
+ */
+export function registerPersonalDataHandler(name: string, handler: PersonalDataHandler) {
+    registry.register(name, handler);
+}
+
+/**
+ * Returns data linked to the user by all registered handlers,
+ * grouped by handler names.
+ *
+ * @param userId Id of the user to export data of.
+ */
+export async function exportPersonalData(userId: I.ObjectId) {
+    return registry.export(userId);
+}
+
+/**
+ * Erases data linked to the user by all registered handlers,
+ * see `PersonalDataRegistry.erase()`.
+ *
+ * @param userId Id of the user to erase data of.
+ */
+export async function erasePersonalData(userId: I.ObjectId) {
+    return registry.erase(userId);
+}
@@ -0,0 +1,259 @@
+import * as I from 'modules/interfaces';
+import { TooManyRequestsError } from 'modules/statused-error';
+
+export type RateLimitAlgorithm = 'token-bucket' | 'sliding-window';
+
+/**
+ * Defines how many hits of one key are allowed. All durations are
+ * expressed in seconds.
+ */
+export interface RateLimitPolicy {
+    /**
+     * `'token-bucket'` allows bursts of `limit` hits, then tokens are refilled
+     * evenly over `window`, `'sliding-window'` allows `limit` hits during any
+     * `window` (approximated by weighting the previous fixed window).
+     */
+    algorithm: RateLimitAlgorithm;
+    limit:     number;
+    window:    number;
+}
+
+/**
+ * Defines what hits are counted by: client IP, id of the authenticated user
+ * (anonymous clients are counted by IP) or the operation, i.e. the name of
+ * the GraphQL operation or the HTTP method of the route, which means that
+ * the limit of each operation is shared by all clients.
+ */
+export type RateLimitKey = 'ip' | 'user' | 'operation';
+
+export interface RateLimitRule extends RateLimitPolicy {
+    by: RateLimitKey;
+}
+
+/**
+ * Outcome of one hit, that is reported via `RateLimit-*` headers
+ * or GraphQL error extensions.
+ */
+export interface RateLimitResult {
+    allowed:    boolean;
+    limit:      number;
+    remaining:  number;
+    /**
+     * Number of seconds until the quota is fully restored.
+     */
+    resetAfter: number;
+    /**
+     * Number of seconds to wait before the next hit is allowed,
+     * 0 if it is allowed right now.
+     */
+    retryAfter: number;
+}
+
+/**
+ * State of one key, the meaning of its fields depends on the algorithm.
+ */
+export interface RateLimitState {
+    /**
+     * Number of tokens left in the bucket or hits in the current window.
+     */
+    count:         number;
+    /**
+     * Number of hits in the previous window, it is not used by token bucket.
+     */
+    previousCount: number;
+    /**
+     * Time of the last refill of the bucket or start of the current window
+     * (milliseconds since epoch).
+     */
+    since:         number;
+}
+
+export interface RateLimitUpdate<TResult> {
+    state:  RateLimitState;
+    result: TResult;
+}
+
+/**
+ * Thrown by `RateLimitStore`, if the state of the key is changed by
+ * concurrent updates too often to apply the given one.
+ */
+export class RateLimitContentionError extends Error {
+    constructor(key: string) {
+        super(`failed to update rate limit state of '${key}' due to concurrent updates`);
+    }
+}
+
+/**
+ * Defines an interface for rate limits state storage, that may be plugged
+ * into `RateLimiter`.
+ */
+export interface RateLimitStore {
+    /**
+     * Replaces not expired state of `key` (or `null` if there is no one) with
+     * the one returned by `update` and prolongs its expiration for `ttl` seconds,
+     * so that concurrent updates of the same key don't overwrite each other.
+     * Returns the result of `update`.
+     *
+     * @throws RateLimitContentionError
+     * If the update can't be applied due to concurrent ones.
+     */
+    update<TResult>(
+        key:    string,
+        ttl:    number,
+        update: (state: I.Maybe<RateLimitState>) => RateLimitUpdate<TResult>
+    ): Promise<TResult>;
+}
+
+/**
+ * Keeps states in process memory, it is suitable only for single-instance
+ * deployments.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+    private readonly records = new Map<string, RateLimitState & { expiresAt: number }>();
+
+    /**
+     * @param sweepInterval Interval in seconds to remove expired states within.
+     */
+    constructor(sweepInterval = 60) {
+        setInterval(() => this.sweep(), sweepInterval * 1000).unref();
+    }
+
+    async update<TResult>(
+        key:    string,
+        ttl:    number,
+        update: (state: I.Maybe<RateLimitState>) => RateLimitUpdate<TResult>
+    ) {
+        const record = this.records.get(key);
+        const now    = Date.now();
+        const { state, result } = update(record == null || record.expiresAt <= now ? null : record);
+        this.records.set(key, { ...state, expiresAt: now + ttl * 1000 });
+        return result;
+    }
+
+    private sweep() {
+        const now = Date.now();
+        this.records.forEach((record, key) => {
+            if (record.expiresAt <= now) {
+                this.records.delete(key);
+            }
+        });
+    }
+}
+
+export class RateLimitedError extends TooManyRequestsError {
+    constructor(readonly result: RateLimitResult) {
+        super(`rate limit exceeded, retry after ${result.retryAfter} seconds`);
+        const { limit, remaining, resetAfter, retryAfter } = result;
+        this.extensions = { limit, remaining, resetAfter, retryAfter };
+    }
+}
+
+type HitFunction = (
+    state:  I.Maybe<RateLimitState>,
+    policy: RateLimitPolicy,
+    now:    number
+) => RateLimitUpdate<RateLimitResult>;
+
+const hitFunctions: Record<RateLimitAlgorithm, HitFunction> = {
+    'token-bucket': (state, { limit, window }, now) => {
+        const refillRate = limit / window; // tokens per second
+        const available  = state == null
+            ? limit
+            : Math.min(limit, state.count + (now - state.since) / 1000 * refillRate);
+        const allowed = available >= 1;
+        const tokens  = allowed ? available - 1 : available;
+        return {
+            state:  { count: tokens, previousCount: 0, since: now },
+            result: {
+                allowed,
+                limit,
+                remaining:  Math.floor(tokens),
+                resetAfter: Math.ceil((limit - tokens) / refillRate),
+                retryAfter: allowed ? 0 : Math.ceil((1 - tokens) / refillRate)
+            }
+        };
+    },
+    'sliding-window': (state, { limit, window }, now) => {
+        const windowMs    = window * 1000;
+        const windowStart = Math.floor(now / windowMs) * windowMs;
+        let count         = 0;
+        let previousCount = 0;
+        if (state != null && state.since === windowStart) {
+            ({ count, previousCount } = state);
+        } else if (state != null && state.since === windowStart - windowMs) {
+            previousCount = state.count;
+        }
+        const windowEnd  = windowStart + windowMs;
+        const estimated  = previousCount * (windowEnd - now) / windowMs + count;
+        const allowed    = estimated + 1 <= limit;
+        const hits       = allowed ? estimated + 1 : estimated;
+        return {
+            state:  { count: allowed ? count + 1 : count, previousCount, since: windowStart },
+            result: {
+                allowed,
+                limit,
+                remaining:  Math.max(0, Math.floor(limit - hits)),
+                // previous window hits stop counting once the next window starts
+                resetAfter: Math.ceil((windowEnd + (count > 0 ? windowMs : 0) - now) / 1000),
+                retryAfter: allowed ? 0 : Math.ceil((windowEnd - now) / 1000)
+            }
+        };
+    }
+};
+
+/**
+ * Counts hits per key and reports whether they are within the policy.
+ */
+export class RateLimiter {
+    /**
+     * @param store     Storage of the states of keys.
+     * @param policy    Rate limiting parameters.
+     * @param keyPrefix Prefix to separate states of this limiter from
+     *                  other ones in the same `store`.
+     */
+    constructor(
+        private readonly store:     RateLimitStore,
+        private readonly policy:    RateLimitPolicy,
+        private readonly keyPrefix: string
+    ) {}
+
+    /**
+     * Registers the hit of `key`, hits beyond the limit are not counted.
+     * The hit is not allowed if the key is hit concurrently too often to
+     * count it.
+     *
+     * @param key Key to count the hit of, e.g. IP or user id.
+     * @param now Time of the hit (milliseconds since epoch).
+     */
+    async hit(key: string, now = Date.now()): Promise<RateLimitResult> {
+        const hitFunction = hitFunctions[this.policy.algorithm];
+        try {
+            return await this.store.update(
+                this.keyPrefix + key,
+                // sliding window takes the previous window into account
+                this.policy.window * 2,
+                state => hitFunction(state, this.policy, now)
+            );
+        } catch (err) {
+            if (!(err instanceof RateLimitContentionError)) {
+                throw err;
+            }
+            const { limit, window } = this.policy;
+            return { allowed: false, limit, remaining: 0, resetAfter: window, retryAfter: 1 };
+        }
+    }
+
+    /**
+     * The same as `hit()`, but throws if the hit is not allowed.
+     *
+     * @throws RateLimitedError
+     * If `key` has exceeded the limit.
+     */
+    async tryHit(key: string, now = Date.now()) {
+        const result = await this.hit(key, now);
+        if (!result.allowed) {
+            throw new RateLimitedError(result);
+        }
+        return result;
+    }
+}
@@ -1,6 +1,11 @@
 import * as HttpCodes from 'http-status-codes';
 
 export class StatusedError extends Error {
+    /**
+     * Additional data, that is exposed to the clients along with the message.
+     */
+    extensions?: Record<string, unknown>;
+
     constructor(message: string, public status: number){
         super(message);
     }
@@ -14,7 +19,9 @@ function makeSubclass(status: number, defaultMsg: string) {
     };
 }
 
-export const NotFoundError     = makeSubclass(HttpCodes.NOT_FOUND, 'nothing was found');
-export const BadRequestError   = makeSubclass(HttpCodes.BAD_REQUEST, 'bad request');
-export const UnAuthorizedError = makeSubclass(HttpCodes.UNAUTHORIZED, 'authorization needed');
-export const ForbiddenError    = makeSubclass(HttpCodes.FORBIDDEN, 'insufficient access level');
\ No newline at end of file
+export const NotFoundError        = makeSubclass(HttpCodes.NOT_FOUND, 'nothing was found');
+export const BadRequestError      = makeSubclass(HttpCodes.BAD_REQUEST, 'bad request');
+export const UnAuthorizedError    = makeSubclass(HttpCodes.UNAUTHORIZED, 'authorization needed');
+export const ForbiddenError       = makeSubclass(HttpCodes.FORBIDDEN, 'insufficient access level');
+export const ConflictError        = makeSubclass(HttpCodes.CONFLICT, 'resource already exists');
+export const TooManyRequestsError = makeSubclass(HttpCodes.TOO_MANY_REQUESTS, 'too many requests');
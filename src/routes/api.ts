@@ -1,6 +1,30 @@
 import Express from 'express';
+import * as Config from 'config';
+import { UserTryCrud } from 'domains/users/model';
+import { exportPersonalData } from 'modules/personal-data';
+import { DataExportLink } from 'domains/personal-data/export-link-model';
+import { rateLimit } from 'routes/rate-limit';
 
 export const apiRouter = Express.Router()
+    .use(rateLimit(Config.RateLimits.Api))
     .get('/version', (_req, res) => {
         res.json({ v: 1 });
+    })
+    .get('/.well-known/jwks.json', (_req, res) => {
+        res.json(Config.JWT.Keys.toJwks(Config.JWT.EncodingAlgorithm));
+    })
+    // link is made by `exportMyData` mutation
+    .get('/data-export', rateLimit({
+        algorithm: 'sliding-window', limit: 10, window: 60 * 60, by: 'ip'
+    }), (req, res, next) => {
+        Promise.resolve(req.query.token)
+            .then(async token => {
+                const userId = await DataExportLink.tryRedeem(token);
+                await UserTryCrud.tryFindById(userId);
+                res.attachment('personal-data.json').json({
+                    exported_at: new Date,
+                    data:        await exportPersonalData(userId)
+                });
+            })
+            .catch(next);
     });
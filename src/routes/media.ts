@@ -0,0 +1,49 @@
+import Express from 'express';
+import * as Config from 'config';
+import * as I from 'modules/interfaces';
+import { NotFoundError } from 'modules/statused-error';
+import { authenticateJWT } from 'modules/authentication';
+import { Permission, hasPermission } from 'modules/permissions';
+import { Photo, PhotoData, PhotoModerationStatus } from 'domains/photos/model';
+
+/**
+ * Serves files of the local media storage. Approved photos are public, while
+ * pending and rejected ones are served only to their owners and moderators,
+ * who must pass `Authorization` header. Other files are not served at all.
+ */
+export const mediaRouter = Express.Router()
+    .use((req, res, next) => {
+        Promise.resolve(decodeURIComponent(req.path.slice(1)))
+            .then(async key => {
+                const photo: I.Maybe<Pick<PhotoData, 'user' | 'moderation_status'>> = await Photo
+                    .findOne({ key })
+                    .select('user moderation_status')
+                    .lean()
+                    .exec();
+                if (photo != null && photo.moderation_status !== PhotoModerationStatus.Approved) {
+                    // shared caches must not keep files, that are visible only to some users
+                    res.set('Cache-Control', 'private, no-cache');
+                }
+                // existence of not approved photos is not revealed to other users
+                if (photo == null || !await canAccess(req, photo)) {
+                    throw new NotFoundError(`there is no media file '${key}'`);
+                }
+                next();
+            })
+            .catch(next);
+    })
+    .use(Express.static(Config.Media.Dir, { fallthrough: false }));
+
+async function canAccess(
+    req: Express.Request,
+    { user, moderation_status }: Pick<PhotoData, 'user' | 'moderation_status'>
+) {
+    if (moderation_status === PhotoModerationStatus.Approved) {
+        return true;
+    }
+    const authentication = await authenticateJWT(req);
+    return authentication != null && (
+        authentication.user._id.equals(user as I.ObjectId) ||
+        hasPermission(authentication.user.role, Permission.PhotoModerate)
+    );
+}
@@ -0,0 +1,62 @@
+import Express from 'express';
+import { authenticateJWT } from 'modules/authentication';
+import {
+    RateLimiter,
+    RateLimitRule,
+    RateLimitKey,
+    RateLimitResult,
+    RateLimitedError
+} from 'modules/rate-limiter';
+import { rateLimitStore } from 'domains/rate-limits/store';
+
+/**
+ * Returns middleware, that limits the rate of requests to the route, hits are
+ * counted separately for each route path. Responses contain `RateLimit-Limit`,
+ * `RateLimit-Remaining` and `RateLimit-Reset` headers, rejected requests are
+ * passed to the error handler with `RateLimitedError` and `Retry-After` header.
+ *
+ * @param rule Limit of the route and what hits are counted by.
+ */
+export function rateLimit(rule: RateLimitRule): Express.RequestHandler {
+    const limiter = new RateLimiter(rateLimitStore, rule, 'http:');
+    return (req, res, next) => {
+        getKey(rule.by, req)
+            .then(key => limiter.hit(`${getRoutePath(req)}:${key}`))
+            .then(result => {
+                setHeaders(res, result);
+                next(result.allowed ? undefined : new RateLimitedError(result));
+            })
+            .catch(next);
+    };
+}
+
+/**
+ * Returns route pattern if the middleware is attached to the route, so that
+ * e.g. `/users/:id` is limited as a whole, or mount path otherwise.
+ */
+function getRoutePath(req: Express.Request) {
+    return req.route == null ? req.baseUrl : `${req.baseUrl}${req.route.path}`;
+}
+
+async function getKey(by: RateLimitKey, req: Express.Request) {
+    switch (by) {
+        case 'ip':        return `ip:${req.ip}`;
+        case 'operation': return `operation:${req.method}`;
+        case 'user': {
+            // invalid tokens are rejected by the route itself
+            const authentication = await authenticateJWT(req).catch(() => null);
+            return authentication == null ? `ip:${req.ip}` : `user:${authentication.user._id}`;
+        }
+    }
+}
+
+function setHeaders(res: Express.Response, { limit, remaining, resetAfter, retryAfter }: RateLimitResult) {
+    res.set({
+        'RateLimit-Limit':     String(limit),
+        'RateLimit-Remaining': String(remaining),
+        'RateLimit-Reset':     String(resetAfter)
+    });
+    if (retryAfter > 0) {
+        res.set('Retry-After', String(retryAfter));
+    }
+}
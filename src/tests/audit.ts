@@ -0,0 +1,36 @@
+import 'reflect-metadata'; // Polyfill required by TypeGraphQL
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import { assert } from 'chai';
+import { ObjectId } from 'mongodb';
+import { User } from 'domains/users/model';
+import { AuditEvent } from 'domains/audit/model';
+import { fakeCollection, FakeCollection } from 'tests/fake-collection';
+
+describe('AuditEvent.eraseUserData', () => {
+    const [userId, adminId] = [new ObjectId, new ObjectId];
+    const usernameChange = { field: 'username', before: '"alice"', after: '"alice2"' };
+    let events: FakeCollection;
+    beforeEach(() => events = fakeCollection(AuditEvent, [
+        {
+            action: 'user.update', actor: adminId, ip: '10.0.0.1',
+            target_model: User.modelName, target_id: userId, changes: [usernameChange]
+        },
+        { action: 'auth.login', actor: userId, ip: '10.0.0.2', target_model: User.modelName, target_id: userId },
+        {
+            action: 'user.update', actor: adminId, ip: '10.0.0.1',
+            target_model: User.modelName, target_id: adminId, changes: [usernameChange]
+        }
+    ].map(event => ({ ...event, expires_at: new Date(Date.now() + 60 * 1000) }))));
+    afterEach(() => events.restore());
+
+    it('must unlink events from the actor and clear changes of the user document', async () => {
+        await AuditEvent.eraseUserData(userId);
+        const [updated, login, other] = events.docs;
+        assert.deepEqual(updated.changes, []);
+        assert.strictEqual(updated.ip, '10.0.0.1');
+        assert.isTrue(adminId.equals(updated.actor as ObjectId));
+        assert.notProperty(login, 'actor');
+        assert.notProperty(login, 'ip');
+        assert.lengthOf(other.changes as unknown[], 1);
+    });
+});
@@ -0,0 +1,42 @@
+import { describe, it } from 'mocha';
+import { assert }       from 'chai';
+import { computeCompatibility } from 'domains/matching/compatibility';
+
+describe('computeCompatibility', () => {
+    const noWeights = new Map<string, number>();
+
+    it('must return zero score when there are no common questions', () => {
+        const result = computeCompatibility(
+            [{ question: 'q1', selected: [0], acceptable: [] }],
+            [{ question: 'q2', selected: [0], acceptable: [] }],
+            noWeights
+        );
+        assert.deepEqual(result, { score: 0, commonQuestions: 0 });
+    });
+
+    it('must use geometric mean of weighted satisfactions minus margin of error', () => {
+        // a is satisfied by b only on q1 (weight 3 of 4), b is satisfied by a on both
+        const result = computeCompatibility(
+            [
+                { question: 'q1', selected: [0], acceptable: [0] },
+                { question: 'q2', selected: [1], acceptable: [1] }
+            ],
+            [
+                { question: 'q1', selected: [0], acceptable: [] },
+                { question: 'q2', selected: [0], acceptable: [0, 1] }
+            ],
+            new Map([['q1', 3], ['q2', 1]])
+        );
+        assert.equal(result.commonQuestions, 2);
+        assert.closeTo(result.score, Math.sqrt(3 / 4 * 1) - 1 / 2, 1e-9);
+    });
+
+    it('must ignore free text answers', () => {
+        const result = computeCompatibility(
+            [{ question: 'q1', selected: [], acceptable: [] }],
+            [{ question: 'q1', selected: [], acceptable: [] }],
+            noWeights
+        );
+        assert.equal(result.commonQuestions, 0);
+    });
+});
@@ -0,0 +1,335 @@
+import _ from 'lodash';
+import * as Mongoose from 'mongoose';
+import { ObjectId } from 'mongodb';
+
+export type FakeDoc = Record<string, unknown>;
+type QueryObject    = Record<string, unknown>;
+type SortSpec       = Record<string, 1 | -1 | 'asc' | 'desc'>;
+
+/**
+ * In-memory collection of the model, see `fakeCollection()`.
+ */
+export interface FakeCollection {
+    /**
+     * Stored documents, they may be inspected or modified by tests directly.
+     */
+    docs: FakeDoc[];
+    /**
+     * Returns the original queries to the model.
+     */
+    restore(): void;
+}
+
+type Model = Mongoose.Model<Mongoose.Document>;
+
+/**
+ * Replaces queries of `model` with ones to the in-memory collection, so that
+ * the code, that uses the model, may be tested without MongoDB. Queries are
+ * cast by the model schema and evaluated according to MongoDB semantics,
+ * but only the subset of query and update operators used by this project
+ * is supported, others throw.
+ *
+ * @param model Model, which queries to replace.
+ * @param docs  Initial documents, schema defaults are applied to them.
+ */
+export function fakeCollection(model: Model, docs: FakeDoc[] = []): FakeCollection {
+    const collection: FakeCollection = {
+        docs:    docs.map(doc => normalize(model, doc)),
+        restore: () => {}
+    };
+    // queries are cast by mongoose before the original `find()` is replaced
+    const originalFind = model.find.bind(model);
+    const cast = (filter: QueryObject = {}): QueryObject => originalFind().cast(model, filter);
+    const findAll = (filter?: QueryObject) => {
+        const casted = cast(filter);
+        return collection.docs.filter(doc => matches(doc, casted));
+    };
+    const update = (filter: QueryObject, updateObj: QueryObject, upsert: boolean, multi: boolean) => {
+        const found = findAll(filter);
+        const targets = multi ? found : found.slice(0, 1);
+        const before: Array<FakeDoc | null> = targets.map(clone);
+        targets.forEach(doc => applyUpdate(doc, updateObj, false));
+        if (targets.length === 0 && upsert) {
+            const base: FakeDoc = {};
+            applyUpdate(base, { $set: getEqualities(cast(filter)) }, true);
+            applyUpdate(base, updateObj, true);
+            const inserted = normalize(model, base);
+            collection.docs.push(inserted);
+            return { before: [null], after: [inserted] };
+        }
+        return { before, after: targets };
+    };
+    const remove = (filter: QueryObject, multi: boolean) => {
+        const found = findAll(filter);
+        const removed = multi ? found : found.slice(0, 1);
+        collection.docs = collection.docs.filter(doc => !removed.includes(doc));
+        return { n: removed.length };
+    };
+    const statics = {
+        find:     (filter?: QueryObject) => new FakeQuery(model, () => findAll(filter), false),
+        findOne:  (filter?: QueryObject) => new FakeQuery(model, () => findAll(filter), true),
+        findById: (id: unknown) => new FakeQuery(model, () => findAll({ _id: id }), true),
+        findOneAndUpdate: (
+            filter:  QueryObject,
+            updateObj: QueryObject,
+            options: { new?: boolean, upsert?: boolean } = {}
+        ) => new FakeQuery(model, () => {
+            const { before, after } = update(filter, updateObj, Boolean(options.upsert), false);
+            return (options.new ? after : before).filter((doc): doc is FakeDoc => doc != null);
+        }, true),
+        updateOne:  (filter: QueryObject, updateObj: QueryObject, options: { upsert?: boolean } = {}) => (
+            execOnly(() => makeUpdateResult(update(filter, updateObj, Boolean(options.upsert), false).after))
+        ),
+        updateMany: (filter: QueryObject, updateObj: QueryObject, options: { upsert?: boolean } = {}) => (
+            execOnly(() => makeUpdateResult(update(filter, updateObj, Boolean(options.upsert), true).after))
+        ),
+        deleteOne:  (filter: QueryObject) => execOnly(() => remove(filter, false)),
+        deleteMany: (filter: QueryObject) => execOnly(() => remove(filter, true)),
+        count:      (filter?: QueryObject) => execOnly(() => findAll(filter).length),
+        create:     async (data: FakeDoc) => {
+            const doc = normalize(model, data);
+            collection.docs.push(doc);
+            return model.hydrate(clone(doc));
+        }
+    };
+    const methods = {
+        async save(this: Mongoose.Document) {
+            remove({ _id: this._id }, false);
+            collection.docs.push(normalize(model, this.toObject()));
+            return this;
+        },
+        async remove(this: Mongoose.Document) {
+            remove({ _id: this._id }, false);
+            return this;
+        }
+    };
+    const restoreStatics = override(model, statics);
+    const restoreMethods = override(model.prototype, methods);
+    collection.restore = () => {
+        restoreStatics();
+        restoreMethods();
+    };
+    return collection;
+}
+
+class FakeQuery {
+    private isLean  = false;
+    private sortSpec: Array<[string, 1 | -1]> = [];
+    private skipped = 0;
+    private limited = 0;
+
+    constructor(
+        private readonly model:    Model,
+        private readonly run:      () => FakeDoc[],
+        private readonly isSingle: boolean
+    ) {}
+
+    select(_projection: unknown) {
+        return this;
+    }
+
+    lean() {
+        this.isLean = true;
+        return this;
+    }
+
+    sort(spec: SortSpec) {
+        this.sortSpec = Object.entries(spec).map(([key, order]): [string, 1 | -1] => [
+            key, order === 1 || order === 'asc' ? 1 : -1
+        ]);
+        return this;
+    }
+
+    skip(count: number) {
+        this.skipped = count;
+        return this;
+    }
+
+    limit(count: number) {
+        this.limited = count;
+        return this;
+    }
+
+    async exec() {
+        const sorted = this.run().sort((a, b) => {
+            for (const [key, order] of this.sortSpec) {
+                const difference = compareValues(_.get(a, key), _.get(b, key));
+                if (difference !== 0) {
+                    return difference * order;
+                }
+            }
+            return 0;
+        });
+        const docs = sorted
+            .slice(this.skipped, this.limited === 0 ? undefined : this.skipped + this.limited)
+            .map(doc => this.isLean ? clone(doc) : this.model.hydrate(clone(doc)));
+        return this.isSingle ? (docs.length === 0 ? null : docs[0]) : docs;
+    }
+
+    then<TResult>(onFulfilled: (result: unknown) => TResult, onRejected?: (reason: unknown) => TResult) {
+        return this.exec().then(onFulfilled, onRejected);
+    }
+}
+
+function execOnly<TResult>(run: () => TResult) {
+    return { exec: async () => run() };
+}
+
+function makeUpdateResult(updated: unknown[]) {
+    return { n: updated.length, nModified: updated.length, ok: 1 };
+}
+
+/**
+ * Defines own properties of `target`, returns function, that restores them.
+ */
+function override(target: object, properties: object) {
+    const descriptors = _.mapValues(properties, (_value, key) => (
+        Object.getOwnPropertyDescriptor(target, key)
+    ));
+    Object.assign(target, properties);
+    return () => _.forEach(descriptors, (descriptor, key) => {
+        if (descriptor == null) {
+            delete (target as Record<string, unknown>)[key];
+        } else {
+            Object.defineProperty(target, key, descriptor);
+        }
+    });
+}
+
+function normalize(model: Model, doc: FakeDoc): FakeDoc {
+    return new model(doc).toObject();
+}
+
+function clone<TValue>(value: TValue): TValue {
+    return _.cloneDeepWith(value, item => item instanceof ObjectId ? item : undefined);
+}
+
+function isOperatorObject(value: unknown): value is QueryObject {
+    return _.isPlainObject(value) &&
+        Object.keys(value as object).length > 0 &&
+        Object.keys(value as object).every(key => key.startsWith('$'));
+}
+
+function getEqualities(filter: QueryObject) {
+    return _.pickBy(filter, (value, key) => (
+        !key.startsWith('$') && !isOperatorObject(value) && !(value instanceof RegExp)
+    ));
+}
+
+function matches(doc: FakeDoc, filter: QueryObject): boolean {
+    return Object.entries(filter).every(([key, condition]) => {
+        switch (key) {
+            case '$and': return (condition as QueryObject[]).every(subfilter => matches(doc, subfilter));
+            case '$or':  return (condition as QueryObject[]).some(subfilter => matches(doc, subfilter));
+            case '$nor': return !(condition as QueryObject[]).some(subfilter => matches(doc, subfilter));
+            default:     return matchesCondition(_.get(doc, key), condition);
+        }
+    });
+}
+
+function matchesCondition(value: unknown, condition: unknown): boolean {
+    if (condition instanceof RegExp) {
+        return someItem(value, item => typeof item === 'string' && condition.test(item));
+    }
+    if (!isOperatorObject(condition)) {
+        return equals(value, condition);
+    }
+    return Object.entries(condition).every(([operator, operand]) => {
+        switch (operator) {
+            case '$eq':  return equals(value, operand);
+            case '$ne':  return !equals(value, operand);
+            case '$gt':  return someComparison(value, operand, difference => difference > 0);
+            case '$gte': return someComparison(value, operand, difference => difference >= 0);
+            case '$lt':  return someComparison(value, operand, difference => difference < 0);
+            case '$lte': return someComparison(value, operand, difference => difference <= 0);
+            case '$in':  return (operand as unknown[]).some(item => matchesCondition(value, item));
+            case '$nin': return !(operand as unknown[]).some(item => matchesCondition(value, item));
+            case '$all': return (operand as unknown[]).every(item => equals(value, item));
+            case '$not': return !matchesCondition(value, operand);
+            case '$exists': return (value !== undefined) === Boolean(operand);
+            case '$size':   return Array.isArray(value) && value.length === operand;
+            case '$elemMatch': return Array.isArray(value) && value.some(item => (
+                isOperatorObject(operand) ? matchesCondition(item, operand) : matches(item, operand as QueryObject)
+            ));
+            default: throw new Error(`query operator '${operator}' is not supported by fake collection`);
+        }
+    });
+}
+
+/**
+ * Array fields match if any of their items match, as in MongoDB.
+ */
+function someItem(value: unknown, predicate: (item: unknown) => boolean) {
+    return Array.isArray(value) ? value.some(predicate) : predicate(value);
+}
+
+function equals(value: unknown, operand: unknown): boolean {
+    if (operand == null) {
+        return value == null;
+    }
+    return someItem(value, item => compareValues(item, operand) === 0) ||
+        (Array.isArray(value) && compareValues(value, operand) === 0);
+}
+
+/**
+ * Returns rank of the value type in MongoDB sort order.
+ */
+function getTypeRank(value: unknown) {
+    return value == null               ? 1 :
+           typeof value === 'number'   ? 2 :
+           typeof value === 'string'   ? 3 :
+           Array.isArray(value)        ? 5 :
+           value instanceof ObjectId   ? 7 :
+           typeof value === 'boolean'  ? 8 :
+           value instanceof Date       ? 9 :
+           4;
+}
+
+/**
+ * Values of different types are never matched by comparison operators.
+ */
+function someComparison(value: unknown, operand: unknown, predicate: (difference: number) => boolean) {
+    return someItem(value, item => (
+        operand != null && getTypeRank(item) === getTypeRank(operand) && predicate(compareValues(item, operand))
+    ));
+}
+
+function compareValues(a: unknown, b: unknown): number {
+    const rankDifference = getTypeRank(a) - getTypeRank(b);
+    if (rankDifference !== 0) {
+        return rankDifference;
+    }
+    const [x, y] = [toPrimitive(a), toPrimitive(b)];
+    return x < y ? -1 : x > y ? 1 : 0;
+}
+
+function toPrimitive(value: unknown): string | number {
+    return value == null             ? 0                   :
+           value instanceof ObjectId ? value.toHexString() :
+           value instanceof Date     ? value.getTime()     :
+           typeof value === 'string' || typeof value === 'number' ? value :
+           typeof value === 'boolean' ? Number(value) :
+           JSON.stringify(value);
+}
+
+function applyUpdate(doc: FakeDoc, update: QueryObject, isInsert: boolean) {
+    const operators = Object.keys(update).some(key => key.startsWith('$')) ? update : { $set: update };
+    _.forEach(operators, (fields, operator) => _.forEach(fields as QueryObject, (value, path) => {
+        switch (operator) {
+            case '$set':         return void _.set(doc, path, value);
+            case '$setOnInsert': return void (isInsert && _.set(doc, path, value));
+            case '$unset':       return void _.unset(doc, path);
+            case '$inc':         return void _.set(doc, path, Number(_.get(doc, path, 0)) + Number(value));
+            case '$push': {
+                const { $each, $slice } = isOperatorObject(value)
+                    ? value as { $each: unknown[], $slice?: number }
+                    : { $each: [value], $slice: undefined };
+                const items = [...(_.get(doc, path, []) as unknown[]), ...$each];
+                return void _.set(doc, path, $slice == null ? items :
+                    $slice < 0 ? items.slice($slice) : items.slice(0, $slice)
+                );
+            }
+            default: throw new Error(`update operator '${operator}' is not supported by fake collection`);
+        }
+    }));
+}
@@ -0,0 +1,82 @@
+import { describe, it } from 'mocha';
+import { assert } from 'chai';
+import { GraphQLError } from 'graphql';
+import { ArgumentValidationError } from 'type-graphql';
+import { ValidationError } from 'class-validator';
+import { formatError } from 'graphql/format-error';
+import { RateLimitedError } from 'modules/rate-limiter';
+import { NotFoundError } from 'modules/statused-error';
+
+function makeValidationError(props: Partial<ValidationError>) {
+    return Object.assign(new ValidationError, { children: [] }, props);
+}
+
+describe('formatError', () => {
+    it('must report status, code and extensions of statused errors', () => {
+        const limited = new RateLimitedError({
+            allowed: false, limit: 1, remaining: 0, resetAfter: 60, retryAfter: 30
+        });
+        const { message, path, extensions } = formatError(
+            new GraphQLError(limited.message, undefined, undefined, undefined, ['login'], limited)
+        );
+        assert.strictEqual(message, limited.message);
+        assert.deepEqual(path, ['login']);
+        assert.deepInclude(extensions, {
+            code: 'TOO_MANY_REQUESTS', status: 429, limit: 1, remaining: 0, resetAfter: 60, retryAfter: 30
+        });
+        assert.match(extensions!.errorId, /^[\da-f]{16}$/);
+        assert.deepInclude(
+            formatError(new GraphQLError('', undefined, undefined, undefined, undefined, new NotFoundError))
+                .extensions,
+            { code: 'NOT_FOUND', status: 404 }
+        );
+    });
+
+    it('must mask internal errors', () => {
+        const { message, extensions } = formatError(new GraphQLError(
+            'connection refused', undefined, undefined, undefined, undefined, new Error('connection refused')
+        ));
+        assert.strictEqual(message, 'Internal server error');
+        assert.deepInclude(extensions, { code: 'INTERNAL_SERVER_ERROR', status: 500 });
+    });
+
+    it('must list invalid fields of argument validation errors', () => {
+        const validationError = new ArgumentValidationError([makeValidationError({
+            property: 'req',
+            children: [
+                makeValidationError({ property: 'username', constraints: { length: 'too short' } }),
+                makeValidationError({
+                    property: 'profile',
+                    children: [makeValidationError({
+                        property: 'bio', constraints: { length: 'too long', isString: 'not a string' }
+                    })]
+                })
+            ]
+        })]);
+        const { extensions } = formatError(new GraphQLError(
+            validationError.message, undefined, undefined, undefined, undefined, validationError
+        ));
+        assert.deepInclude(extensions, {
+            code:          'BAD_USER_INPUT',
+            status:        400,
+            invalidFields: [
+                { field: 'req.username',    messages: ['too short'] },
+                { field: 'req.profile.bio', messages: ['too long', 'not a string'] }
+            ]
+        });
+    });
+
+    it('must preserve codes of GraphQL errors, that are set by Apollo', () => {
+        assert.deepInclude(
+            formatError(new GraphQLError(
+                'syntax error', undefined, undefined, undefined, undefined, undefined,
+                { code: 'GRAPHQL_PARSE_FAILED' }
+            )).extensions,
+            { code: 'GRAPHQL_PARSE_FAILED', status: 400 }
+        );
+        assert.deepInclude(
+            formatError(new GraphQLError('variable is invalid')).extensions,
+            { code: 'BAD_USER_INPUT', status: 400 }
+        );
+    });
+});
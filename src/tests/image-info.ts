@@ -0,0 +1,54 @@
+import { describe, it } from 'mocha';
+import { assert }       from 'chai';
+import { getImageInfo } from 'modules/image-info';
+
+describe('getImageInfo', () => {
+    function makePng(width: number, height: number) {
+        const data = Buffer.alloc(33);
+        Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]).copy(data);
+        data.writeUInt32BE(13, 8);
+        data.write('IHDR', 12, 4, 'latin1');
+        data.writeUInt32BE(width, 16);
+        data.writeUInt32BE(height, 20);
+        return data;
+    }
+
+    function makeJpeg(width: number, height: number) {
+        return Buffer.from([
+            0xFF, 0xD8,                                     // SOI
+            0xFF, 0xE0, 0x00, 0x04, 0x00, 0x00,             // APP0 with 2 bytes payload
+            0xFF, 0xC0, 0x00, 0x0B, 0x08,                   // SOF0, precision
+            height >> 8, height & 0xFF, width >> 8, width & 0xFF,
+            0x01, 0x01, 0x11, 0x00
+        ]);
+    }
+
+    it('must read PNG dimensions', () => {
+        assert.deepEqual(getImageInfo(makePng(640, 480)), {
+            contentType: 'image/png', width: 640, height: 480
+        });
+    });
+
+    it('must skip JPEG segments until the frame header', () => {
+        assert.deepEqual(getImageInfo(makeJpeg(1024, 768)), {
+            contentType: 'image/jpeg', width: 1024, height: 768
+        });
+    });
+
+    it('must read extended WebP dimensions', () => {
+        const data = Buffer.alloc(30);
+        data.write('RIFF', 0, 4, 'latin1');
+        data.write('WEBPVP8X', 8, 8, 'latin1');
+        data.writeUIntLE(799, 24, 3);
+        data.writeUIntLE(599, 27, 3);
+        assert.deepEqual(getImageInfo(data), {
+            contentType: 'image/webp', width: 800, height: 600
+        });
+    });
+
+    it('must return null for unknown formats and truncated headers', () => {
+        assert.isNull(getImageInfo(Buffer.from('GIF89a')));
+        assert.isNull(getImageInfo(makePng(640, 480).slice(0, 18)));
+        assert.isNull(getImageInfo(makeJpeg(1024, 768).slice(0, 12)));
+    });
+});
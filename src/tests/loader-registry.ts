@@ -0,0 +1,82 @@
+import * as Mongoose    from 'mongoose';
+import { describe, it } from 'mocha';
+import { assert }       from 'chai';
+import { ObjectId }     from 'mongodb';
+import { LoaderRegistry } from 'modules/mongoose-utils/loader-registry';
+import { IdNotFoundError } from 'modules/mongoose-utils/try-crud';
+
+/**
+ * Lean document of the fake model, that supports only `{ field: { $in } }` filters.
+ */
+interface TestDoc extends Mongoose.Document {
+    owner: string;
+}
+
+type InFilter = Record<string, { $in: unknown[] }>;
+
+function toTestDoc(props: Pick<TestDoc, '_id' | 'owner'>) {
+    return props as Partial<TestDoc> as TestDoc;
+}
+
+describe('LoaderRegistry', () => {
+    const docs = [
+        toTestDoc({ _id: new ObjectId, owner: 'a' }),
+        toTestDoc({ _id: new ObjectId, owner: 'a' }),
+        toTestDoc({ _id: new ObjectId, owner: 'b' })
+    ];
+
+    function makeModel() {
+        const queries: InFilter[] = [];
+        const model = {
+            modelName: 'Doc',
+            schema:    { path: () => null },
+            find(filter: InFilter) {
+                queries.push(filter);
+                const [[field, { $in: values }]] = Object.entries(filter);
+                const found = docs.filter(doc => values.some(
+                    value => String(value) === String(doc[field as keyof TestDoc])
+                ));
+                return { lean: () => ({ exec: async () => found }) };
+            }
+        };
+        return { queries, model: model as unknown as Mongoose.Model<TestDoc> };
+    }
+
+    it('must batch loads by id into one query and cache them', async () => {
+        const { queries, model } = makeModel();
+        const loaders = new LoaderRegistry;
+        const loaded = await Promise.all(docs.map(doc => loaders.byId(model).load(doc._id)));
+        await loaders.byId(model).load(docs[0]._id);
+        assert.deepEqual(loaded, docs);
+        assert.lengthOf(queries, 1);
+    });
+
+    it('must resolve missing ids to null and throw IdNotFoundError when trying', async () => {
+        const { model } = makeModel();
+        const loaders = new LoaderRegistry;
+        assert.isNull(await loaders.byId(model).load(new ObjectId));
+        const err = await loaders.tryFindById(model, new ObjectId).then(
+            () => assert.fail('missing id must be rejected'),
+            thrown => thrown
+        );
+        assert.instanceOf(err, IdNotFoundError);
+    });
+
+    it('must group documents loaded by field', async () => {
+        const { model } = makeModel();
+        const loaders = new LoaderRegistry;
+        const [a, b, c] = await loaders.byField(model, 'owner').loadMany(['a', 'b', 'c']);
+        assert.lengthOf(a, 2);
+        assert.lengthOf(b, 1);
+        assert.isEmpty(c);
+    });
+
+    it('must return primed documents without querying', async () => {
+        const { queries, model } = makeModel();
+        const loaders = new LoaderRegistry;
+        const updated = toTestDoc({ _id: docs[0]._id, owner: 'c' });
+        loaders.prime(model, updated);
+        assert.strictEqual(await loaders.byId(model).load(docs[0]._id), updated);
+        assert.isEmpty(queries);
+    });
+});
@@ -0,0 +1,80 @@
+import { describe, it } from 'mocha';
+import { assert }       from 'chai';
+import {
+    LoginThrottler,
+    LoginThrottledError,
+    MemoryFailedAttemptsStore
+} from 'modules/login-throttler';
+
+describe('LoginThrottler', () => {
+    const policy = {
+        freeAttempts:     2,
+        baseDelay:        10,
+        maxDelay:         30,
+        lockoutThreshold: 6,
+        lockoutDuration:  600,
+        resetAfter:       3600
+    };
+    const makeThrottler = () => new LoginThrottler(new MemoryFailedAttemptsStore, policy, 'test:');
+
+    async function failTimes(throttler: LoginThrottler, times: number) {
+        for (let i = 0; i < times; ++i) {
+            await throttler.registerFailure('alice');
+        }
+    }
+
+    it('must allow free attempts without delay', async () => {
+        const throttler = makeThrottler();
+        await failTimes(throttler, policy.freeAttempts);
+        assert.equal(await throttler.getRetryAfter('alice'), 0);
+    });
+
+    it('must double the delay after each next failure up to the maximum', async () => {
+        const throttler = makeThrottler();
+        await failTimes(throttler, policy.freeAttempts + 1);
+        assert.equal(await throttler.getRetryAfter('alice'), 10);
+        await failTimes(throttler, 1);
+        assert.equal(await throttler.getRetryAfter('alice'), 20);
+        await failTimes(throttler, 1);
+        assert.equal(await throttler.getRetryAfter('alice'), 30);
+        assert.equal(await throttler.getRetryAfter('bob'), 0);
+    });
+
+    it('must lock out after the threshold and throw error with retryAfter', async () => {
+        const throttler = makeThrottler();
+        await failTimes(throttler, policy.lockoutThreshold);
+        const err: LoginThrottledError = await throttler.tryReserveAttempt('alice').then(
+            () => assert.fail('attempt must be rejected'),
+            thrown => thrown
+        );
+        assert.instanceOf(err, LoginThrottledError);
+        assert.equal(err.retryAfter, policy.lockoutDuration);
+        assert.deepEqual(err.extensions, { retryAfter: policy.lockoutDuration });
+    });
+
+    it('must allow attempts after reset', async () => {
+        const throttler = makeThrottler();
+        await failTimes(throttler, policy.lockoutThreshold);
+        await throttler.reset('alice');
+        await throttler.tryReserveAttempt('alice');
+    });
+
+    it('must reserve only allowed attempts of concurrent ones', async () => {
+        const throttler = makeThrottler();
+        const results = await Promise.all(Array.from({ length: 10 }, () => (
+            throttler.tryReserveAttempt('alice').then(() => null, (err: unknown) => err)
+        )));
+        const rejected = results.filter(err => err instanceof LoginThrottledError);
+        assert.lengthOf(rejected, 10 - policy.freeAttempts - 1);
+        assert.equal(await throttler.getRetryAfter('alice'), 10);
+    });
+
+    it('must not count refunded attempts', async () => {
+        const throttler = makeThrottler();
+        await failTimes(throttler, policy.freeAttempts);
+        await throttler.tryReserveAttempt('alice');
+        assert.equal(await throttler.getRetryAfter('alice'), 10);
+        await throttler.refund('alice');
+        assert.equal(await throttler.getRetryAfter('alice'), 0);
+    });
+});
@@ -0,0 +1,86 @@
+import Mongoose from 'mongoose';
+import { describe, it } from 'mocha';
+import { assert }       from 'chai';
+import {
+    Migrator,
+    MigrationFile,
+    MemoryMigrationStore,
+    makeMigrationFileName
+} from 'modules/migrations';
+
+describe('Migrator', () => {
+    const lockOptions = { LockTtl: 60, LockTimeout: 0 };
+
+    /**
+     * Returns migrations, that record their calls to `log`.
+     */
+    function makeMigrations(log: string[], names: string[]): MigrationFile[] {
+        return names.map(name => ({
+            name,
+            up:   async () => void log.push(`up ${name}`),
+            down: async () => void log.push(`down ${name}`)
+        }));
+    }
+
+    it('must apply pending migrations in order and revert the last ones', async () => {
+        const log      = [] as string[];
+        const store    = new MemoryMigrationStore;
+        const migrator = new Migrator(
+            store, Mongoose.connection, makeMigrations(log, ['2-b', '1-a', '3-c'].sort()), lockOptions
+        );
+        assert.deepEqual(await migrator.up(2), ['1-a', '2-b']);
+        assert.deepEqual(await migrator.up(), ['3-c']);
+        assert.deepEqual(await migrator.up(), []);
+        assert.deepEqual(await migrator.down(2), ['3-c', '2-b']);
+        assert.deepEqual(log, ['up 1-a', 'up 2-b', 'up 3-c', 'down 3-c', 'down 2-b']);
+        assert.deepEqual(
+            (await migrator.status()).map(({ name, state }) => `${name} ${state}`),
+            ['1-a applied', '2-b pending', '3-c pending']
+        );
+    });
+
+    it('must report applied migrations with removed files as missing', async () => {
+        const store = new MemoryMigrationStore;
+        await new Migrator(store, Mongoose.connection, makeMigrations([], ['1-a', '2-b']), lockOptions).up();
+        const migrator = new Migrator(store, Mongoose.connection, makeMigrations([], ['1-a']), lockOptions);
+        assert.deepEqual(
+            (await migrator.status()).map(({ name, state }) => `${name} ${state}`),
+            ['1-a applied', '2-b missing']
+        );
+        await migrator.down().then(
+            () => assert.fail('missing migration must not be reverted'),
+            err => assert.include(String(err), '2-b')
+        );
+    });
+
+    it('must not run migrations concurrently', async () => {
+        const log   = [] as string[];
+        const store = new MemoryMigrationStore;
+        let finishMigration!: () => void;
+        const migrations = [{
+            name: '1-a',
+            up:   () => new Promise<void>(resolve => finishMigration = resolve).then(() => void log.push('up')),
+            down: async () => {}
+        }];
+        const first  = new Migrator(store, Mongoose.connection, migrations, lockOptions);
+        const second = new Migrator(store, Mongoose.connection, migrations, lockOptions);
+        const applying = first.up();
+        await second.up().then(
+            () => assert.fail('lock must be held by the first migrator'),
+            err => assert.include(String(err), 'lock')
+        );
+        finishMigration();
+        assert.deepEqual(await applying, ['1-a']);
+        assert.deepEqual(await second.up(), []);
+        assert.deepEqual(log, ['up']);
+    });
+});
+
+describe('makeMigrationFileName', () => {
+    it('must prefix kebab case title with the timestamp', () => {
+        assert.strictEqual(
+            makeMigrationFileName('Add questionWeight index', new Date('2019-06-12T09:30:05.123Z')),
+            '20190612093005-add-question-weight-index.ts'
+        );
+    });
+});
@@ -0,0 +1,34 @@
+import { describe, it } from 'mocha';
+import { assert }       from 'chai';
+import { ObjectId }     from 'mongodb';
+import { diffObjects }  from 'modules/object-diff';
+
+describe('diffObjects', () => {
+    it('must return only changed, added and removed fields', () => {
+        const id = new ObjectId;
+        assert.deepEqual(
+            diffObjects(
+                { _id: id, role: 'regular', disabled: false, bio: 'hi', __v: 0 },
+                { _id: id, role: 'admin',   disabled: false, age: 20,   __v: 1 }
+            ),
+            [
+                { field: 'role', before: 'regular', after: 'admin' },
+                { field: 'bio',  before: 'hi',      after: undefined },
+                { field: 'age',  before: undefined, after: 20 }
+            ]
+        );
+    });
+
+    it('must compare nested values deeply and treat nullish objects as empty', () => {
+        assert.deepEqual(diffObjects({ tags: ['a', 'b'] }, { tags: ['a', 'b'] }), []);
+        assert.deepEqual(diffObjects(null, { name: 'x' }), [
+            { field: 'name', before: undefined, after: 'x' }
+        ]);
+    });
+
+    it('must not reveal redacted values', () => {
+        assert.deepEqual(diffObjects({ password: 'old' }, { password: 'new' }, ['password']), [
+            { field: 'password', before: '[redacted]', after: '[redacted]' }
+        ]);
+    });
+});
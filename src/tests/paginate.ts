@@ -0,0 +1,120 @@
+import * as Mongoose from 'mongoose';
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import { assert } from 'chai';
+import { ObjectId } from 'mongodb';
+import { Paginator, Connection } from 'modules/mongoose-utils/paginate';
+import { BadRequestError } from 'modules/statused-error';
+import { fakeCollection, FakeCollection } from 'tests/fake-collection';
+
+interface ItemData {
+    name:  string;
+    rank?: number;
+}
+
+const Item = Mongoose.model('PaginatedItem', new Mongoose.Schema({
+    name: { type: String, required: true },
+    rank: Number
+}));
+
+describe('Paginator.paginateByCursor', () => {
+    const paginator = new Paginator<ItemData, Mongoose.Document, 'id' | 'name' | 'rank'>({
+        model:   Item,
+        aliases: { _id: 'id' }
+    });
+    let items: FakeCollection;
+    // ids ascend in the order of creation, items without rank have null sort values
+    beforeEach(() => items = fakeCollection(Item, [
+        { name: 'a', rank: 2 },
+        { name: 'b' },
+        { name: 'c', rank: 1 },
+        { name: 'd', rank: 2 },
+        { name: 'e' }
+    ].map(item => ({ ...item, _id: new ObjectId }))));
+    afterEach(() => items.restore());
+
+    function names({ edges }: Connection<Mongoose.Document>) {
+        return edges.map(({ node }) => node.get('name'));
+    }
+
+    /**
+     * Returns names of all pages, that are fetched one after another.
+     */
+    async function fetchPages(
+        options:   Parameters<typeof paginator.paginateByCursor>[0],
+        direction: 'forward' | 'backward'
+    ) {
+        const pages = [] as string[][];
+        let page = await paginator.paginateByCursor(options);
+        pages.push(names(page));
+        while (direction === 'forward' ? page.pageInfo.hasNextPage : page.pageInfo.hasPreviousPage) {
+            page = await paginator.paginateByCursor(direction === 'forward'
+                ? { ...options, after:  page.pageInfo.endCursor }
+                : { ...options, before: page.pageInfo.startCursor }
+            );
+            pages.push(names(page));
+        }
+        return pages;
+    }
+
+    it('must paginate forward by _id by default', async () => {
+        const first = await paginator.paginateByCursor({ first: 2 });
+        assert.deepEqual(names(first), ['a', 'b']);
+        assert.deepInclude(first.pageInfo, { hasNextPage: true, hasPreviousPage: false });
+        assert.deepEqual(await fetchPages({ first: 2 }, 'forward'), [['a', 'b'], ['c', 'd'], ['e']]);
+    });
+
+    it('must paginate backward from the end', async () => {
+        const last = await paginator.paginateByCursor({ last: 2 });
+        assert.deepEqual(names(last), ['d', 'e']);
+        assert.deepInclude(last.pageInfo, { hasNextPage: false, hasPreviousPage: true });
+        assert.deepEqual(await fetchPages({ last: 2 }, 'backward'), [['d', 'e'], ['b', 'c'], ['a']]);
+    });
+
+    it('must return documents between after and before cursors', async () => {
+        const { edges } = await paginator.paginateByCursor({ first: 5 });
+        const between = await paginator.paginateByCursor({
+            first: 5, after: edges[0].cursor, before: edges[3].cursor
+        });
+        assert.deepEqual(names(between), ['b', 'c']);
+        assert.deepInclude(between.pageInfo, { hasNextPage: false, hasPreviousPage: true });
+    });
+
+    it('must put null sort values first and break ties by _id', async () => {
+        assert.deepEqual(
+            await fetchPages({ first: 2, sort: { rank: 'asc' } }, 'forward'),
+            [['b', 'e'], ['c', 'a'], ['d']]
+        );
+        assert.deepEqual(
+            await fetchPages({ first: 2, sort: { rank: 'desc' } }, 'forward'),
+            [['d', 'a'], ['c', 'e'], ['b']]
+        );
+        assert.deepEqual(
+            await fetchPages({ last: 2, sort: { rank: 'asc' } }, 'backward'),
+            [['a', 'd'], ['e', 'c'], ['b']]
+        );
+    });
+
+    it('must map aliases and count total only if requested', async () => {
+        const page = await paginator.paginateByCursor({ first: 2, sort: { id: 'desc' }, total: true });
+        assert.deepEqual(names(page), ['e', 'd']);
+        assert.strictEqual(page.total, 5);
+        assert.isNull((await paginator.paginateByCursor({ first: 2 })).total);
+    });
+
+    it('must reject invalid cursors and ambiguous page size', async () => {
+        const { pageInfo } = await paginator.paginateByCursor({ first: 1, sort: { rank: 'asc' } });
+        const invalidOptions = [
+            { first: 1, after: pageInfo.endCursor },
+            { first: 1, after: 'invalid' },
+            { first: 1, last: 1 },
+            {}
+        ];
+        for (const options of invalidOptions) {
+            const err = await paginator.paginateByCursor(options).then(
+                () => assert.fail(`${JSON.stringify(options)} must be rejected`),
+                thrown => thrown
+            );
+            assert.instanceOf(err, BadRequestError);
+        }
+    });
+});
@@ -0,0 +1,61 @@
+import * as Crypto from 'crypto';
+import { describe, it } from 'mocha';
+import { assert }       from 'chai';
+import {
+    PasswordHasher,
+    ScryptAlgorithm,
+    Pbkdf2Algorithm,
+    LegacyHmacAlgorithm
+} from 'modules/password-hasher';
+
+describe('PasswordHasher', () => {
+    const scrypt = new ScryptAlgorithm({ N: 1024, r: 8, p: 1, keylen: 32 });
+    const pbkdf2 = new Pbkdf2Algorithm({ iterations: 1000, keylen: 32 });
+    const legacy = new LegacyHmacAlgorithm('legacy-salt');
+    const hasher = new PasswordHasher(scrypt, [pbkdf2, legacy]);
+
+    it('must verify hashes made by itself', async () => {
+        const hash = await hasher.hash('qwerty');
+        assert.isTrue(await hasher.verify('qwerty', hash));
+        assert.isFalse(await hasher.verify('qwertz', hash));
+        assert.isFalse(hasher.needsRehash(hash));
+    });
+
+    it('must use a new salt for each hash', async () => {
+        assert.notEqual(await hasher.hash('qwerty'), await hasher.hash('qwerty'));
+    });
+
+    it('must verify and demand rehashing deprecated algorithm hashes', async () => {
+        const hash = await new PasswordHasher(pbkdf2).hash('qwerty');
+        assert.isTrue(await hasher.verify('qwerty', hash));
+        assert.isTrue(hasher.needsRehash(hash));
+    });
+
+    it('must demand rehashing hashes with outdated parameters', async () => {
+        const weakHash = await new PasswordHasher(
+            new ScryptAlgorithm({ N: 512, r: 8, p: 1, keylen: 32 })
+        ).hash('qwerty');
+        assert.isTrue(await hasher.verify('qwerty', weakHash));
+        assert.isTrue(hasher.needsRehash(weakHash));
+    });
+
+    it('must verify legacy hex hmac hashes', async () => {
+        const legacyHash = Crypto
+            .createHmac('sha512', 'legacy-salt')
+            .update('qwerty')
+            .digest('hex');
+        assert.isTrue(await hasher.verify('qwerty', legacyHash));
+        assert.isFalse(await hasher.verify('qwertz', legacyHash));
+        assert.isTrue(hasher.needsRehash(legacyHash));
+    });
+
+    it('must reject any password when there is no hash to verify', async () => {
+        assert.isFalse(await hasher.verifyNothing('qwerty'));
+        assert.isFalse(await hasher.verifyNothing(''));
+    });
+
+    it('must reject malformed and unknown algorithm hashes', async () => {
+        assert.isFalse(await hasher.verify('qwerty', '$scrypt$N=oops$$'));
+        assert.isFalse(await hasher.verify('qwerty', '$md5$$c2FsdA==$aGFzaA=='));
+    });
+});
@@ -0,0 +1,127 @@
+import 'reflect-metadata'; // Polyfill required by TypeGraphQL
+import * as Config from 'config';
+import { describe, it, before, after } from 'mocha';
+import { assert } from 'chai';
+import { ObjectId } from 'mongodb';
+import { GraphQLResolveInfo } from 'graphql';
+import { MiddlewareFn, ResolverData } from 'type-graphql';
+import { getMetadataStorage } from 'type-graphql/dist/metadata/getMetadataStorage';
+import { User, UserPaginator } from 'domains/users/model';
+import { UserField } from 'domains/users/user-paginate-request-type';
+import { ResolveContext } from 'graphql/resolve-context';
+import { authChecker, AuthorizedOwner } from 'graphql/auth-checker';
+import { LoaderRegistry } from 'modules/mongoose-utils/loader-registry';
+import { Permission, hasPermission } from 'modules/permissions';
+import { UnAuthorizedError, ForbiddenError } from 'modules/statused-error';
+
+function makeUser(role: string) {
+    return { _id: new ObjectId, role } as Partial<User> as User;
+}
+
+function makeResolverData(
+    user: User | null,
+    args: Record<string, unknown> = {}
+): ResolverData<ResolveContext> {
+    return {
+        root:    {},
+        args,
+        context: { user, ip: '127.0.0.1', loaders: new LoaderRegistry },
+        info:    {} as GraphQLResolveInfo
+    };
+}
+
+/**
+ * Returns the error thrown by `action` or fails if nothing was thrown.
+ */
+async function getError(action: () => Promise<unknown>) {
+    try {
+        await action();
+    } catch (err) {
+        return err;
+    }
+    return assert.fail('access must be denied');
+}
+
+describe('hasPermission', () => {
+    const rolePermissions = Config.RolePermissions as Record<string, ReadonlyArray<string>>;
+    before(() => rolePermissions.tester = ['user:*', 'question:read']);
+    after(() => delete rolePermissions.tester);
+
+    it('must grant only listed permissions', () => {
+        assert.isTrue(hasPermission('regular', Permission.UserUpdateSelf));
+        assert.isFalse(hasPermission('regular', Permission.UserUpdateAny));
+        assert.isFalse(hasPermission('unknown', Permission.UserRead));
+    });
+
+    it('must grant permissions matching wildcards', () => {
+        assert.isTrue(hasPermission('admin', Permission.MetricsRead));
+        assert.isTrue(hasPermission('tester', Permission.UserUpdateAny));
+        assert.isTrue(hasPermission('tester', Permission.UserReadPrivate));
+        assert.isFalse(hasPermission('tester', Permission.QuestionManage));
+    });
+});
+
+describe('authChecker', () => {
+    it('must require authentication and any of the rules', async () => {
+        assert.instanceOf(
+            await getError(async () => authChecker(makeResolverData(null), [])), UnAuthorizedError
+        );
+        assert.isTrue(authChecker(makeResolverData(makeUser('guest')), []));
+        assert.isTrue(authChecker(
+            makeResolverData(makeUser('guest')), [Permission.MatchRead, Permission.QuestionRead]
+        ));
+        assert.instanceOf(
+            await getError(async () => (
+                authChecker(makeResolverData(makeUser('guest')), [Permission.MatchRead])
+            )),
+            ForbiddenError
+        );
+    });
+});
+
+describe('AuthorizedOwner', () => {
+    class Resource {
+        update() {}
+    }
+    AuthorizedOwner({
+        any:        Permission.UserUpdateAny,
+        own:        Permission.UserUpdateSelf,
+        getOwnerId: ({args}) => args.id
+    })(Resource.prototype, 'update', Object.getOwnPropertyDescriptor(Resource.prototype, 'update')!);
+    const [middleware] = getMetadataStorage().middlewares
+        .find(({ target }) => target === Resource)!
+        .middlewares as Array<MiddlewareFn<ResolveContext>>;
+    const resolve = (user: User | null, ownerId: ObjectId) => (
+        middleware(makeResolverData(user, { id: ownerId }), async () => 'resolved')
+    );
+
+    it('must allow access to the owner with own permission', async () => {
+        const owner = makeUser('regular');
+        assert.strictEqual(await resolve(owner, owner._id), 'resolved');
+        assert.instanceOf(await getError(() => resolve(owner, new ObjectId)), ForbiddenError);
+    });
+
+    it('must allow access to any document with any permission', async () => {
+        assert.strictEqual(await resolve(makeUser('admin'), new ObjectId), 'resolved');
+    });
+
+    it('must deny access without permissions or authentication', async () => {
+        const owner = makeUser('unknown');
+        assert.instanceOf(await getError(() => resolve(owner, owner._id)), ForbiddenError);
+        assert.instanceOf(await getError(() => resolve(null, new ObjectId)), UnAuthorizedError);
+    });
+});
+
+describe('UserPaginator', () => {
+    it('must not let sort or filter by private fields', async () => {
+        assert.notInclude(Object.values(UserField), 'banned');
+        assert.notInclude(UserPaginator.publicFields, 'deleted_at');
+        const err = await getError(() => UserPaginator.paginate({
+            offset: 0,
+            limit:  10,
+            sort:   {},
+            filter: { include: { banned: [true] } }
+        } as Parameters<typeof UserPaginator.paginate>[0]));
+        assert.match(err.message, /Invalid query key banned/);
+    });
+});
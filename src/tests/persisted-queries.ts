@@ -0,0 +1,71 @@
+import { describe, it } from 'mocha';
+import { assert }       from 'chai';
+import {
+    MemoryPersistedQueryStore,
+    hashQuery,
+    makeManifest,
+    parseManifest
+} from 'modules/persisted-queries';
+import { makeApolloCache } from 'graphql/persisted-queries';
+
+describe('persisted queries', () => {
+    const documents = `
+        query GetUser($id: ObjectId!) { getUser(id: $id) { ...UserFields } }
+        mutation Logout { logout }
+        fragment UserFields on User { id ...Names }
+        fragment Names on User { username }
+        fragment Unused on User { role }
+    `;
+
+    it('must hash each operation along with the fragments it uses', () => {
+        const manifest = makeManifest(documents);
+        const entries  = Object.entries(manifest);
+        assert.deepEqual(entries.map(([, { operationName }]) => operationName), ['GetUser', 'Logout']);
+        for (const [hash, { query }] of entries) {
+            assert.strictEqual(hash, hashQuery(query));
+        }
+        const [[, getUser]] = entries;
+        assert.include(getUser.query, 'fragment UserFields on User');
+        assert.include(getUser.query, 'fragment Names on User');
+        assert.include(getUser.query, '__typename');
+        assert.notInclude(getUser.query, 'Unused');
+    });
+
+    it('must reject manifest with mismatching hashes', () => {
+        const manifest = makeManifest(documents);
+        assert.deepEqual(parseManifest(JSON.stringify(manifest)), manifest);
+        assert.throws(() => parseManifest(JSON.stringify({ [hashQuery('{ me { id } }')]: {
+            operationName: null, query: '{ users { id } }'
+        }})));
+    });
+
+    it('must count usage of saved queries only', async () => {
+        const store = new MemoryPersistedQueryStore;
+        await store.set('a', '{ me { id } }');
+        await store.recordUsage('a', 'Me');
+        await store.recordUsage('a', null);
+        await store.recordUsage('a', 'Renamed');
+        await store.recordUsage('b', 'Unknown');
+        assert.strictEqual(await store.get('a'), '{ me { id } }');
+        assert.isNull(await store.get('b'));
+
+        const [usage, ...rest] = await store.getUsage();
+        assert.isEmpty(rest);
+        assert.deepEqual(
+            { hash: usage.hash, operationName: usage.operationName, count: usage.count },
+            { hash: 'a',        operationName: 'Me',                count: 3 }
+        );
+        assert.instanceOf(usage.lastUsedAt, Date);
+    });
+
+    it('must keep queries registered by clients out of the store', async () => {
+        const store = new MemoryPersistedQueryStore;
+        await store.set('a', '{ me { id } }');
+        const cache = makeApolloCache(store);
+        await cache.set('apq:b', '{ users { id } }');
+        assert.strictEqual(await cache.get('apq:a'), '{ me { id } }');
+        assert.strictEqual(await cache.get('apq:b'), '{ users { id } }');
+        assert.isNull(await store.get('b'));
+        assert.lengthOf(await store.getUsage(), 1);
+    });
+});
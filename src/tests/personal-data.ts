@@ -0,0 +1,34 @@
+import { describe, it } from 'mocha';
+import { assert }       from 'chai';
+import { ObjectId }     from 'mongodb';
+import { PersonalDataRegistry } from 'modules/personal-data';
+
+describe('PersonalDataRegistry', () => {
+    const userId = new ObjectId;
+    const erased: string[] = [];
+    // the default registry contains handlers of the models imported by other tests
+    const registry = new PersonalDataRegistry;
+
+    registry.register('test_accounts', {
+        export: async id => ({ id: String(id) }),
+        erase:  async () => { erased.push('test_accounts'); }
+    });
+    registry.register('test_scores', {
+        erase: async () => { erased.push('test_scores'); }
+    });
+
+    it('must export sections of handlers, that define export', async () => {
+        const sections = await registry.export(userId);
+        assert.deepEqual(sections.test_accounts, { id: String(userId) });
+        assert.notProperty(sections, 'test_scores');
+    });
+
+    it('must erase dependent models first', async () => {
+        await registry.erase(userId);
+        assert.deepEqual(erased, ['test_scores', 'test_accounts']);
+    });
+
+    it('must reject duplicate names', () => {
+        assert.throws(() => registry.register('test_scores', { erase: async () => {} }));
+    });
+});
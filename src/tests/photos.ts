@@ -0,0 +1,66 @@
+import 'reflect-metadata'; // Polyfill required by TypeGraphQL
+import * as Config from 'config';
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import { assert } from 'chai';
+import { ObjectId } from 'mongodb';
+import { User } from 'domains/users/model';
+import { Photo, mediaStorage } from 'domains/photos/model';
+import { BadRequestError } from 'modules/statused-error';
+import { fakeCollection, FakeCollection } from 'tests/fake-collection';
+
+describe('Photo.tryCreateOf', () => {
+    const userId = new ObjectId;
+    const stored = new Set<string>();
+    let collections: FakeCollection[];
+    beforeEach(() => {
+        collections = [
+            fakeCollection(User, [{
+                _id: userId, username: 'owner', password: 'x', photo_count: Config.Photos.MaxCount - 1
+            }]),
+            fakeCollection(Photo)
+        ];
+        Object.assign(mediaStorage, {
+            save:   async (key: string) => void stored.add(key),
+            remove: async (key: string) => void stored.delete(key)
+        });
+    });
+    afterEach(() => {
+        collections.forEach(collection => collection.restore());
+        delete (mediaStorage as Partial<typeof mediaStorage>).save;
+        delete (mediaStorage as Partial<typeof mediaStorage>).remove;
+        stored.clear();
+    });
+
+    function makePng(width: number, height: number) {
+        const data = Buffer.alloc(33);
+        Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]).copy(data);
+        data.writeUInt32BE(13, 8);
+        data.write('IHDR', 12, 4, 'latin1');
+        data.writeUInt32BE(width, 16);
+        data.writeUInt32BE(height, 20);
+        return data;
+    }
+
+    it('must not exceed the limit with concurrent uploads', async () => {
+        const [users, photos] = collections;
+        const results = await Promise.all([1, 2].map(() => (
+            Photo.tryCreateOf(userId, makePng(640, 480), 'image/png').then(() => null, error => error)
+        )));
+        assert.lengthOf(results.filter(error => error instanceof BadRequestError), 1);
+        assert.lengthOf(photos.docs, 1);
+        assert.strictEqual(photos.docs[0].position, Config.Photos.MaxCount - 1);
+        assert.strictEqual(users.docs[0].photo_count, Config.Photos.MaxCount);
+        assert.strictEqual(stored.size, 1);
+    });
+
+    it('must release the reserved count if the photo is not saved', async () => {
+        const [users, photos] = collections;
+        Object.assign(mediaStorage, { save: async () => { throw new Error('storage is down'); } });
+        await Photo.tryCreateOf(userId, makePng(640, 480), 'image/png').then(
+            () => assert.fail('upload must fail'),
+            () => {}
+        );
+        assert.lengthOf(photos.docs, 0);
+        assert.strictEqual(users.docs[0].photo_count, Config.Photos.MaxCount - 1);
+    });
+});
@@ -0,0 +1,63 @@
+import { describe, it } from 'mocha';
+import { assert }       from 'chai';
+import {
+    GraphQLInt,
+    GraphQLList,
+    GraphQLObjectType,
+    GraphQLSchema,
+    GraphQLString,
+    parse,
+    validate
+} from 'graphql';
+import { getQueryCost, makeDepthLimitRule } from 'graphql/query-limits';
+
+describe('query limits', () => {
+    const itemType: GraphQLObjectType = new GraphQLObjectType({
+        name:   'Item',
+        fields: () => ({
+            name:  { type: GraphQLString },
+            child: { type: itemType }
+        })
+    });
+    const schema = new GraphQLSchema({
+        query: new GraphQLObjectType({
+            name:   'Query',
+            fields: {
+                items: {
+                    type:       new GraphQLList(itemType),
+                    args:       { limit: { type: GraphQLInt } },
+                    complexity: 3
+                },
+                item: { type: itemType }
+            }
+        })
+    });
+
+    it('must reject selections nested deeper than the maximum depth', () => {
+        const rules = [makeDepthLimitRule(3)];
+        assert.isEmpty(validate(schema, parse('{ item { child { name } } }'), rules));
+        assert.lengthOf(validate(schema, parse('{ item { child { child { name } } } }'), rules), 1);
+        assert.lengthOf(validate(schema, parse(`
+            { item { ...deep } }
+            fragment deep on Item { child { child { name } } }
+        `), rules), 1);
+    });
+
+    it('must not count introspection fields in depth', () => {
+        const document = parse('{ __schema { types { fields { type { name } } } } item { name } }');
+        assert.isEmpty(validate(schema, document, [makeDepthLimitRule(2)]));
+    });
+
+    it('must multiply declared costs by the number of requested items', () => {
+        assert.strictEqual(getQueryCost(schema, parse('{ item { name } }')), 2);
+        assert.strictEqual(getQueryCost(schema, parse('{ items(limit: 10) { name child { name } } }')), 60);
+        assert.strictEqual(
+            getQueryCost(
+                schema,
+                parse('query ($limit: Int) { items(limit: $limit) { name } }'),
+                { limit: 5 }
+            ),
+            20
+        );
+    });
+});
@@ -0,0 +1,43 @@
+import 'reflect-metadata'; // Polyfill required by TypeGraphQL
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import { assert } from 'chai';
+import { ObjectId } from 'mongodb';
+import { Question, QuestionAnsweredError, AnswerFormat } from 'domains/questions/model';
+import { fakeCollection, FakeCollection } from 'tests/fake-collection';
+
+describe('Question.tryUpdateById', () => {
+    const id = new ObjectId;
+    let questions: FakeCollection;
+    beforeEach(() => questions = fakeCollection(Question, [{
+        _id: id, text: 'Cats or dogs?', answer_format: AnswerFormat.Single, options: ['cats', 'dogs'], category: 'pets'
+    }]));
+    afterEach(() => questions.restore());
+
+    async function assertAnswered(promise: Promise<unknown>) {
+        const error = await promise.then(() => assert.fail('update must be rejected'), thrown => thrown);
+        assert.instanceOf(error, QuestionAnsweredError);
+    }
+
+    it('must change options only until the question is answered', async () => {
+        await Question.tryUpdateById(id, { options: ['cats', 'dogs', 'both'] });
+        assert.deepEqual(questions.docs[0].options, ['cats', 'dogs', 'both']);
+
+        questions.docs[0].answered = true;
+        await assertAnswered(Question.tryUpdateById(id, { options: ['cats', 'dogs'] }));
+        await Question.tryUpdateById(id, { weight: 5 });
+        assert.deepEqual(questions.docs[0].options, ['cats', 'dogs', 'both']);
+        assert.strictEqual(questions.docs[0].weight, 5);
+    });
+
+    it('must not change options of the question answered after it was checked', async () => {
+        const { findOneAndUpdate } = Question;
+        Object.assign(Question, {
+            findOneAndUpdate: (...args: Parameters<typeof findOneAndUpdate>) => {
+                questions.docs[0].answered = true;
+                return findOneAndUpdate.apply(Question, args);
+            }
+        });
+        await assertAnswered(Question.tryUpdateById(id, { answer_format: AnswerFormat.Multi }));
+        assert.strictEqual(questions.docs[0].answer_format, AnswerFormat.Single);
+    });
+});
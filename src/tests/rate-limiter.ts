@@ -0,0 +1,71 @@
+import { describe, it } from 'mocha';
+import { assert }       from 'chai';
+import {
+    RateLimiter,
+    RateLimitedError,
+    RateLimitContentionError,
+    MemoryRateLimitStore
+} from 'modules/rate-limiter';
+
+/**
+ * Returns factory of expected `RateLimitResult` of the limiter with `limit`.
+ */
+function results(limit: number) {
+    return (allowed: boolean, remaining: number, resetAfter: number, retryAfter = 0) => ({
+        allowed, limit, remaining, resetAfter, retryAfter
+    });
+}
+
+describe('RateLimiter', () => {
+    // start of a 10 seconds window
+    const start = 1000000;
+
+    it('must allow bursts and refill tokens evenly with token bucket', async () => {
+        const limiter = new RateLimiter(
+            new MemoryRateLimitStore, { algorithm: 'token-bucket', limit: 3, window: 3 }, ''
+        );
+        const result = results(3);
+        assert.deepEqual(await limiter.hit('a', start), result(true, 2, 1));
+        assert.deepEqual(await limiter.hit('a', start), result(true, 1, 2));
+        assert.deepEqual(await limiter.hit('a', start), result(true, 0, 3));
+        assert.deepEqual(await limiter.hit('a', start), result(false, 0, 3, 1));
+        assert.deepEqual(await limiter.hit('b', start), result(true, 2, 1));
+        assert.deepEqual(await limiter.hit('a', start + 1000), result(true, 0, 3));
+    });
+
+    it('must take the previous window into account with sliding window', async () => {
+        const limiter = new RateLimiter(
+            new MemoryRateLimitStore, { algorithm: 'sliding-window', limit: 2, window: 10 }, ''
+        );
+        const result = results(2);
+        assert.deepEqual(await limiter.hit('a', start), result(true, 1, 10));
+        assert.deepEqual(await limiter.hit('a', start + 1000), result(true, 0, 19));
+        assert.deepEqual(await limiter.hit('a', start + 2000), result(false, 0, 18, 8));
+        // half of the previous window hits are still counted
+        assert.deepEqual(await limiter.hit('a', start + 15000), result(true, 0, 5));
+        assert.deepEqual(await limiter.hit('a', start + 15000), result(false, 0, 15, 5));
+        assert.deepEqual(await limiter.hit('a', start + 30000), result(true, 1, 10));
+    });
+
+    it('must throw RateLimitedError with result extensions', async () => {
+        const limiter = new RateLimiter(
+            new MemoryRateLimitStore, { algorithm: 'token-bucket', limit: 1, window: 60 }, ''
+        );
+        await limiter.tryHit('a', start);
+        const error = await limiter.tryHit('a', start).then(
+            () => assert.fail('second hit must be rejected'),
+            thrown => thrown
+        );
+        assert.instanceOf(error, RateLimitedError);
+        assert.deepEqual(error.extensions, { limit: 1, remaining: 0, resetAfter: 60, retryAfter: 60 });
+    });
+
+    it('must reject the hit if the store fails due to concurrent updates', async () => {
+        const limiter = new RateLimiter(
+            { update: async key => { throw new RateLimitContentionError(key); } },
+            { algorithm: 'sliding-window', limit: 5, window: 10 },
+            ''
+        );
+        assert.deepEqual(await limiter.hit('a', start), results(5)(false, 0, 10, 1));
+    });
+});
@@ -0,0 +1,45 @@
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import { assert } from 'chai';
+import { Session, InvalidRefreshTokenError } from 'domains/sessions/model';
+import { fakeCollection, FakeCollection } from 'tests/fake-collection';
+import { ObjectId } from 'mongodb';
+
+describe('Session', () => {
+    let sessions: FakeCollection;
+    beforeEach(() => sessions = fakeCollection(Session));
+    afterEach(() => sessions.restore());
+
+    async function assertRotationFails(refreshToken: string) {
+        const err = await Session.rotate(refreshToken).then(
+            () => assert.fail('refresh token must be rejected'),
+            thrown => thrown
+        );
+        assert.instanceOf(err, InvalidRefreshTokenError);
+    }
+
+    it('must replace the refresh token on rotation', async () => {
+        const { session, refreshToken } = await Session.start(new ObjectId);
+        const rotated = await Session.rotate(refreshToken);
+        assert.isTrue(rotated.session._id.equals(session._id));
+        assert.notEqual(rotated.refreshToken, refreshToken);
+        const { refreshToken: next } = await Session.rotate(rotated.refreshToken);
+        assert.isTrue(next.startsWith(`${session._id}.`));
+        assert.isTrue(await Session.isActive(session._id));
+    });
+
+    it('must revoke the session when rotated-out token is reused', async () => {
+        const { session, refreshToken } = await Session.start(new ObjectId);
+        const rotated = await Session.rotate(refreshToken);
+        await assertRotationFails(refreshToken);
+        assert.isFalse(await Session.isActive(session._id));
+        await assertRotationFails(rotated.refreshToken);
+    });
+
+    it('must not revoke the session when forged token is presented', async () => {
+        const { session, refreshToken } = await Session.start(new ObjectId);
+        await assertRotationFails(`${session._id}.forged`);
+        await assertRotationFails('malformed');
+        assert.isTrue(await Session.isActive(session._id));
+        await Session.rotate(refreshToken);
+    });
+});
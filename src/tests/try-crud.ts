@@ -0,0 +1,97 @@
+import * as Mongoose from 'mongoose';
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import { assert } from 'chai';
+import { ObjectId } from 'mongodb';
+import { TryCrud, IdNotFoundError, DocumentChange } from 'modules/mongoose-utils/try-crud';
+import { fakeCollection, FakeCollection } from 'tests/fake-collection';
+
+const SoftDeletableItem = Mongoose.model('SoftDeletableItem', new Mongoose.Schema({
+    name:       String,
+    deleted_at: Date
+}));
+const PlainItem = Mongoose.model('PlainItem', new Mongoose.Schema({ name: String }));
+
+/**
+ * Returns auditor, that collects recorded changes.
+ */
+function makeAuditor() {
+    const changes = [] as DocumentChange[];
+    return { changes, record: async (change: DocumentChange) => void changes.push(change) };
+}
+
+async function assertNotFound(action: Promise<unknown>) {
+    const err = await action.then(
+        () => assert.fail('document must not be found'),
+        thrown => thrown
+    );
+    assert.instanceOf(err, IdNotFoundError);
+}
+
+describe('TryCrud', () => {
+    const softDeletableCrud = new TryCrud(SoftDeletableItem);
+    const crud = new TryCrud(PlainItem);
+    const ids = [new ObjectId, new ObjectId];
+    let collections: FakeCollection[];
+    beforeEach(() => collections = [
+        fakeCollection(SoftDeletableItem, ids.map(_id => ({ _id, name: String(_id) }))),
+        fakeCollection(PlainItem, ids.map(_id => ({ _id, name: String(_id) })))
+    ]);
+    afterEach(() => collections.forEach(collection => collection.restore()));
+
+    it('must hide soft-deleted documents unless they are included', async () => {
+        const auditor = makeAuditor();
+        const deleted = await softDeletableCrud.tryDeleteById(ids[0], auditor);
+        assert.instanceOf(deleted.deleted_at, Date);
+        await assertNotFound(softDeletableCrud.tryFindById(ids[0]));
+        await assertNotFound(softDeletableCrud.tryUpdateById(ids[0], { name: 'updated' }));
+        await assertNotFound(softDeletableCrud.tryDeleteById(ids[0]));
+        assert.strictEqual(
+            (await softDeletableCrud.tryFindById(ids[0], { includeDeleted: true })).name, String(ids[0])
+        );
+        const [{ modelName, id, before, after }] = auditor.changes;
+        assert.strictEqual(modelName, SoftDeletableItem.modelName);
+        assert.isTrue(ids[0].equals(id));
+        assert.isUndefined(before!.deleted_at);
+        assert.instanceOf(after!.deleted_at, Date);
+    });
+
+    it('must restore only soft-deleted documents', async () => {
+        await softDeletableCrud.tryDeleteById(ids[0]);
+        await assertNotFound(softDeletableCrud.tryRestoreById(ids[1]));
+        const auditor = makeAuditor();
+        const restored = await softDeletableCrud.tryRestoreById(ids[0], auditor);
+        assert.isUndefined(restored.deleted_at);
+        assert.strictEqual((await softDeletableCrud.tryFindById(ids[0])).name, String(ids[0]));
+        assert.instanceOf(auditor.changes[0].before!.deleted_at, Date);
+        await assertNotFound(softDeletableCrud.tryRestoreById(ids[0]));
+    });
+
+    it('must purge documents of models, that are not soft-deletable', async () => {
+        const auditor = makeAuditor();
+        await crud.tryDeleteById(ids[0], auditor);
+        await assertNotFound(crud.tryFindById(ids[0], { includeDeleted: true }));
+        await assertNotFound(crud.tryRestoreById(ids[0]));
+        assert.deepInclude(auditor.changes[0], { before: null, after: null });
+        assert.strictEqual(await crud.purgeDeleted(new Date), 0);
+    });
+
+    it('must purge soft-deleted documents permanently', async () => {
+        await softDeletableCrud.tryDeleteById(ids[0]);
+        await softDeletableCrud.tryPurgeById(ids[1]);
+        await assertNotFound(softDeletableCrud.tryFindById(ids[1], { includeDeleted: true }));
+        assert.lengthOf(collections[0].docs, 1);
+    });
+
+    it('must erase linked data before purging documents deleted before the date', async () => {
+        await softDeletableCrud.tryDeleteById(ids[0]);
+        assert.strictEqual(await softDeletableCrud.purgeDeleted(new Date(Date.now() - 60 * 1000)), 0);
+        const erased = [] as string[];
+        const purged = await softDeletableCrud.purgeDeleted(new Date(Date.now() + 1000), async id => {
+            assert.lengthOf(collections[0].docs, 2, 'document must be removed after erasure');
+            erased.push(String(id));
+        });
+        assert.strictEqual(purged, 1);
+        assert.deepEqual(erased, [String(ids[0])]);
+        assert.deepEqual(collections[0].docs.map(({ _id }) => String(_id)), [String(ids[1])]);
+    });
+});
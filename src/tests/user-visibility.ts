@@ -0,0 +1,68 @@
+import 'reflect-metadata'; // Polyfill required by TypeGraphQL
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import { assert } from 'chai';
+import { ObjectId } from 'mongodb';
+import { User, HiddenForever, getHiddenUntil } from 'domains/users/model';
+import { Profile } from 'domains/profiles/model';
+import { Match } from 'domains/social/match-model';
+import { fakeCollection, FakeCollection } from 'tests/fake-collection';
+
+describe('getHiddenUntil', () => {
+    const active = { deleted_at: null, disabled: false, banned: false, suspended_until: null };
+
+    it('must hide deleted, disabled and banned users for good', () => {
+        assert.isNull(getHiddenUntil(active));
+        assert.strictEqual(getHiddenUntil({ ...active, deleted_at: new Date }), HiddenForever);
+        assert.strictEqual(getHiddenUntil({ ...active, disabled: true }), HiddenForever);
+        assert.strictEqual(getHiddenUntil({ ...active, banned: true }), HiddenForever);
+    });
+
+    it('must hide suspended users until the suspension ends', () => {
+        const until = new Date(Date.now() + 60 * 1000);
+        assert.strictEqual(getHiddenUntil({ ...active, suspended_until: until }), until);
+        assert.isNull(getHiddenUntil({ ...active, suspended_until: new Date(Date.now() - 1000) }));
+    });
+});
+
+describe('User.syncHiddenUntil', () => {
+    const [bannedId, otherId] = [new ObjectId, new ObjectId];
+    let collections: FakeCollection[];
+    beforeEach(() => collections = [
+        fakeCollection(User, [
+            { _id: bannedId, username: 'banned', password: 'x', banned: true },
+            { _id: otherId,  username: 'other',  password: 'x' }
+        ]),
+        fakeCollection(Profile, [bannedId, otherId].map(user => ({
+            user, display_name: String(user), birth_date: new Date(2000, 0, 1), gender: 'male'
+        }))),
+        fakeCollection(Match, [
+            { user: otherId,  partner: bannedId },
+            { user: bannedId, partner: otherId  }
+        ])
+    ]);
+    afterEach(() => collections.forEach(collection => collection.restore()));
+
+    /**
+     * Returns the mirror of `hidden_until` in the document referencing the user
+     * by `userPath`, mirrors are named after their user paths.
+     */
+    function getHiddenUntilOf(collection: FakeCollection, userPath: string, userId: ObjectId) {
+        const doc = collection.docs.find(({ [userPath]: id }) => userId.equals(id as ObjectId));
+        return doc![`${userPath}_hidden_until`];
+    }
+
+    it('must copy hidden_until of the user to the registered mirrors', async () => {
+        const [users, profiles, matches] = collections;
+        await User.syncHiddenUntil(bannedId);
+        assert.deepEqual(users.docs[0].hidden_until, HiddenForever);
+        assert.deepEqual(getHiddenUntilOf(profiles, 'user', bannedId), HiddenForever);
+        assert.deepEqual(getHiddenUntilOf(matches, 'partner', bannedId), HiddenForever);
+        assert.notOk(getHiddenUntilOf(profiles, 'user', otherId));
+        assert.notOk(getHiddenUntilOf(matches, 'partner', otherId));
+
+        users.docs[0].banned = false;
+        await User.syncHiddenUntil(bannedId);
+        assert.isNull(getHiddenUntilOf(profiles, 'user', bannedId));
+        assert.isNull(getHiddenUntilOf(matches, 'partner', bannedId));
+    });
+});